@@ -1,12 +1,21 @@
 import React from 'react';
 import {
-  Container, Typography, AppBar, Toolbar, Snackbar,
+  Container, Typography, AppBar, Toolbar, Snackbar, Box, Button, Chip,
   Alert as MuiAlert,
 } from '@mui/material';
+import LogoutIcon from '@mui/icons-material/Logout';
 import { AlertProps } from '@mui/material/Alert';
 import FlightDashboard from './components/FlightDashboard';
 import ErrorBoundary from './components/ErrorBoundary';
+import ConnectionIndicator from './components/ConnectionIndicator';
+import LoginPage from './components/LoginPage';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import ThemeToggle from './components/ThemeToggle';
+import LiveAnnouncer from './components/LiveAnnouncer';
 import { useSnackbar } from './hooks/useSnackbar';
+import { useAuth } from './hooks/useAuth';
+import { useTranslation } from './hooks/useTranslation';
+import { logout } from './services/authService';
 import { validStatusOptions } from './utils/constants';
 
 const Alert = React.forwardRef<HTMLDivElement, AlertProps>(function Alert(
@@ -16,14 +25,35 @@ const Alert = React.forwardRef<HTMLDivElement, AlertProps>(function Alert(
 
 const App = () => {
   const snackbar = useSnackbar();
+  const { user, sessionExpired } = useAuth();
+  const { t } = useTranslation();
+
+  if (!user) {
+    return <LoginPage sessionExpired={sessionExpired} />;
+  }
 
   return (
     <>
-      <AppBar position="static">
+      <AppBar position="static" className="screen-only">
         <Toolbar>
           <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
-            Flight Deck
+            {t('app.title')}
           </Typography>
+          <ConnectionIndicator />
+          <Box display="flex" alignItems="center" gap={1} sx={{ ml: 2 }}>
+            <Typography variant="body2">{user.displayName || user.username}</Typography>
+            <Chip
+              label={user.role === 'operator' ? t('role.operator') : t('role.viewer')}
+              size="small"
+              variant="outlined"
+              sx={{ color: 'inherit', borderColor: 'rgba(255, 255, 255, 0.6)' }}
+            />
+            <ThemeToggle />
+            <LanguageSwitcher />
+            <Button color="inherit" size="small" startIcon={<LogoutIcon />} onClick={() => logout()}>
+              {t('app.signOut')}
+            </Button>
+          </Box>
         </Toolbar>
       </AppBar>
 
@@ -46,6 +76,8 @@ const App = () => {
           {snackbar.message}
         </Alert>
       </Snackbar>
+
+      <LiveAnnouncer />
     </>
   );
 }
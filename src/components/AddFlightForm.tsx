@@ -1,8 +1,6 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useForm, SubmitHandler, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import * as z from 'zod';
-import dayjs, { Dayjs } from 'dayjs';
 import axios from 'axios';
 import Box from '@mui/material/Box';
 import TextField from '@mui/material/TextField';
@@ -14,28 +12,23 @@ import { DateTimePicker } from '@mui/x-date-pickers/DateTimePicker';
 
 import { addFlight } from '../services/apiService';
 import { ICreateFlightRequest } from '../types/flight';
+import { addFlightSchema, AddFlightFormData, applyServerFieldErrors } from '../utils/flightValidation';
+import { normalizeDestination } from '../utils/airports';
+import DestinationAutocomplete from './DestinationAutocomplete';
+import GateConflictNotice from './GateConflictNotice';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+import { useTranslation } from '../hooks/useTranslation';
+import { translateMessage } from '../i18n';
+import { useGateCheck } from '../hooks/useGateConflicts';
 
 export interface AddFlightFormProps {
     showSnackbar: (message: string, severity?: AlertProps['severity']) => void;
 }
 
-const addFlightSchema = z.object({
-    flightNumber: z.string().min(1, "Required").max(10, "Max 10 chars"),
-    destination: z.string().min(1, "Required").max(100, "Max 100 chars"),
-    departureTime: z.custom<Dayjs | null>(
-        (val) => val instanceof dayjs && (val as Dayjs).isValid(),
-        "Departure time is required."
-    )
-        .refine(val => val !== null && val.isAfter(dayjs()), {
-            message: "Departure time must be in the future."
-        }),
-    gate: z.string().min(1, "Required").max(10, "Max 10 chars"),
-});
-
-type AddFlightFormData = z.infer<typeof addFlightSchema>;
-
 const AddFlightFormComponent: React.FC<AddFlightFormProps> = ({ showSnackbar }) => {
     const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+    const { timeZone } = useDisplayTimeZone();
+    const { t } = useTranslation();
 
     const {
         register,
@@ -43,18 +36,39 @@ const AddFlightFormComponent: React.FC<AddFlightFormProps> = ({ showSnackbar })
         setError,
         reset,
         control,
+        watch,
+        setValue,
         formState: { errors }
     } = useForm<AddFlightFormData>({
         resolver: zodResolver(addFlightSchema),
         defaultValues: { flightNumber: '', destination: '', departureTime: null, gate: '' }
     });
 
+    const gate = watch('gate');
+    const departureTime = watch('departureTime');
+    const departureIso = departureTime?.isValid() ? departureTime.toISOString() : '';
+    const { conflicts: gateConflicts, suggestions: gateSuggestions } = useGateCheck({ gate, departureTime: departureIso });
+    const [assignAnyway, setAssignAnyway] = useState<boolean>(false);
+    const [needsGateConfirmation, setNeedsGateConfirmation] = useState<boolean>(false);
+
+    // An "assign anyway" only covers the gate and time it was given for.
+    useEffect(() => {
+        setAssignAnyway(false);
+        setNeedsGateConfirmation(false);
+    }, [gate, departureIso]);
+
     const onSubmit: SubmitHandler<AddFlightFormData> = async (data) => {
         setIsSubmitting(true);
 
         if (!data.departureTime || !data.departureTime.isValid()) {
-            showSnackbar("Invalid departure time selected.", "error");
-            setError("departureTime", { type: "manual", message: "Invalid date." });
+            showSnackbar(t('add.invalidTime'), "error");
+            setError("departureTime", { type: "manual", message: t('form.invalidDate') });
+            setIsSubmitting(false);
+            return;
+        }
+
+        if (gateConflicts.length > 0 && !assignAnyway) {
+            setNeedsGateConfirmation(true);
             setIsSubmitting(false);
             return;
         }
@@ -62,18 +76,18 @@ const AddFlightFormComponent: React.FC<AddFlightFormProps> = ({ showSnackbar })
         const departureUtc = data.departureTime.toISOString();
         const requestData: ICreateFlightRequest = {
             flightNumber: data.flightNumber,
-            destination: data.destination,
+            destination: normalizeDestination(data.destination),
             departureTime: departureUtc,
             gate: data.gate
         };
 
         try {
             const newFlight = await addFlight(requestData);
-            showSnackbar(`Flight ${newFlight.flightNumber} added!`, 'success');
+            showSnackbar(t('add.success', { flightNumber: newFlight.flightNumber }), 'success');
             reset();
         } catch (error: any) {
             console.error("Error adding flight:", error);
-            let userMessage = "Failed to add flight. Please try again.";
+            let userMessage = t('add.failed');
             let serverFieldErrorsSet = false;
 
             if (axios.isAxiosError(error)) {
@@ -86,8 +100,8 @@ const AddFlightFormComponent: React.FC<AddFlightFormProps> = ({ showSnackbar })
                     if (status === 409) {
                         const specificError = responseData?.errors?.FlightNumber?.[0]
                             || responseData?.title
-                            || "Flight number might already exist.";
-                        userMessage = `Conflict: ${specificError}`;
+                            || t('add.conflictDefault');
+                        userMessage = t('add.conflict', { details: specificError });
 
                         if (responseData?.errors?.FlightNumber) {
                             setError('flightNumber', { type: 'server', message: specificError });
@@ -95,46 +109,33 @@ const AddFlightFormComponent: React.FC<AddFlightFormProps> = ({ showSnackbar })
                         }
 
                     } else if (status === 400) {
-                        userMessage = responseData?.title || "Invalid data submitted.";
+                        userMessage = responseData?.title || t('form.invalidData');
                         if (responseData?.errors) {
-                            const apiErrors = responseData.errors;
-                            let fieldErrorText = '';
-                            Object.keys(apiErrors).forEach((key) => {
-
-                                const fieldName = key.charAt(0).toLowerCase() + key.slice(1);
-                                if (fieldName === 'flightNumber' || fieldName === 'destination' || fieldName === 'departureTime' || fieldName === 'gate') {
-                                    const message = apiErrors[key]?.[0] ?? 'Invalid input';
-                                    setError(fieldName as keyof AddFlightFormData, {
-                                        type: "server",
-                                        message: message
-                                    });
-                                    serverFieldErrorsSet = true;
-                                    fieldErrorText += `${key}: ${message} `;
-                                }
-                            });
+                            const { fieldErrorsSet, unmatchedText } = applyServerFieldErrors(responseData.errors, setError, t);
+                            serverFieldErrorsSet = fieldErrorsSet;
 
                             if (serverFieldErrorsSet) {
-                                userMessage = "Please correct the highlighted errors.";
+                                userMessage = t('form.fixHighlighted');
                             } else {
-                                userMessage = `Validation Error: ${fieldErrorText || 'Please check your input.'}`;
+                                userMessage = t('form.validationError', { details: unmatchedText || t('form.checkInput') });
                             }
                         }
                     } else if (status === 401 || status === 403) {
-                        userMessage = "Authorization Error: You might need to log in or lack permissions.";
+                        userMessage = t('error.unauthorized');
                     } else if (status >= 500) {
-                        userMessage = "Server Error: Something went wrong on our end. Please try again later.";
+                        userMessage = t('error.server');
                     } else {
-                        userMessage = responseData?.title || `Client Error: ${status}`;
+                        userMessage = responseData?.title || t('error.client', { status });
                     }
                 } else if (error.request) {
-                    userMessage = "Network Error: Could not connect to the server.";
+                    userMessage = t('error.network');
                     console.error("Network Error:", error.request);
                 } else {
-                    userMessage = `Request Setup Error: ${error.message}`;
+                    userMessage = t('error.requestSetup', { message: error.message });
                     console.error("Axios Setup Error:", error.message);
                 }
             } else {
-                userMessage = "An unexpected client-side error occurred.";
+                userMessage = t('error.unexpected');
                 console.error("Non-API Error:", error);
             }
             if (!serverFieldErrorsSet) {
@@ -154,16 +155,31 @@ const AddFlightFormComponent: React.FC<AddFlightFormProps> = ({ showSnackbar })
 
                 {/* Flight Number */}
                 <Grid item xs={12} sm={6} md={3}>
-                    <TextField required fullWidth id="flightNumber" label="Flight Number"
+                    <TextField required fullWidth id="flightNumber" label={t('form.flightNumber')}
                         {...register("flightNumber")} error={!!errors.flightNumber}
-                        helperText={errors.flightNumber?.message} disabled={isSubmitting} size="small" />
+                        helperText={errors.flightNumber?.message && translateMessage(t, errors.flightNumber.message)} disabled={isSubmitting} size="small" />
                 </Grid>
 
                 {/* Destination */}
                 <Grid item xs={12} sm={6} md={3}>
-                    <TextField required fullWidth id="destination" label="Destination"
-                        {...register("destination")} error={!!errors.destination}
-                        helperText={errors.destination?.message} disabled={isSubmitting} size="small" />
+                    <Controller
+                        name="destination"
+                        control={control}
+                        render={({ field, fieldState: { error } }) => (
+                            <DestinationAutocomplete
+                                id="destination"
+                                label={t('form.destination')}
+                                required
+                                value={field.value}
+                                onChange={field.onChange}
+                                onBlur={field.onBlur}
+                                inputRef={field.ref}
+                                error={!!error}
+                                helperText={error?.message && translateMessage(t, error.message)}
+                                disabled={isSubmitting}
+                            />
+                        )}
+                    />
                 </Grid>
 
                 {/* Departure Time */}
@@ -173,7 +189,8 @@ const AddFlightFormComponent: React.FC<AddFlightFormProps> = ({ showSnackbar })
                         control={control}
                         render={({ field, fieldState: { error } }) => (
                             <DateTimePicker
-                                label="Departure Time *"
+                                label={t('form.departureTime')}
+                                timezone={timeZone}
                                 value={field.value}
                                 onChange={field.onChange}
                                 inputRef={field.ref}
@@ -183,7 +200,7 @@ const AddFlightFormComponent: React.FC<AddFlightFormProps> = ({ showSnackbar })
                                         size: 'small',
                                         required: true,
                                         error: !!error,
-                                        helperText: error?.message,
+                                        helperText: error?.message && translateMessage(t, error.message),
                                         onBlur: field.onBlur,
                                     },
                                 }}
@@ -197,17 +214,33 @@ const AddFlightFormComponent: React.FC<AddFlightFormProps> = ({ showSnackbar })
 
                 {/* Gate */}
                 <Grid item xs={12} sm={6} md={2}>
-                    <TextField required fullWidth id="gate" label="Gate"
+                    <TextField required fullWidth id="gate" label={t('form.gate')}
                         {...register("gate")} error={!!errors.gate}
-                        helperText={errors.gate?.message} disabled={isSubmitting} size="small" />
+                        helperText={errors.gate?.message && translateMessage(t, errors.gate.message)} disabled={isSubmitting} size="small" />
                 </Grid>
 
                 {/* Submit Button */}
                 <Grid item xs={12} md={1} sx={{ textAlign: { xs: 'center', md: 'right' } }}>
                     <Button type="submit" variant="contained" disabled={isSubmitting} size="medium" sx={{ height: '40px' }}>
-                        {isSubmitting ? <CircularProgress size={24} color="inherit" /> : 'Add'}
+                        {isSubmitting ? <CircularProgress size={24} color="inherit" /> : t('form.add')}
                     </Button>
                 </Grid>
+
+                {/* Gate conflict */}
+                {gateConflicts.length > 0 && (
+                    <Grid size={12}>
+                        <GateConflictNotice
+                            gate={gate}
+                            conflicts={gateConflicts}
+                            suggestions={gateSuggestions}
+                            needsConfirmation={needsGateConfirmation}
+                            assignAnyway={assignAnyway}
+                            onAssignAnywayChange={setAssignAnyway}
+                            onSuggestionSelect={(suggestion) => setValue('gate', suggestion, { shouldValidate: true })}
+                            disabled={isSubmitting}
+                        />
+                    </Grid>
+                )}
             </Grid>
         </Box>
     );
@@ -0,0 +1,64 @@
+import React, { useEffect, useMemo } from 'react';
+import { ThemeProvider } from '@mui/material/styles';
+import useMediaQuery from '@mui/material/useMediaQuery';
+import { ThemeProvider as StyledThemeProvider } from 'styled-components';
+import { enUS as materialEnUS, heIL as materialHeIL } from '@mui/material/locale';
+import CssBaseline from '@mui/material/CssBaseline';
+import { CacheProvider } from '@emotion/react';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
+import { enUS as pickersEnUS, heIL as pickersHeIL } from '@mui/x-date-pickers/locales';
+import dayjs from 'dayjs';
+import 'dayjs/locale/he';
+import { useTranslation } from '../hooks/useTranslation';
+import { useAppTheme } from '../hooks/useAppTheme';
+import { createAppTheme } from '../utils/appTheme';
+import { ltrCache, rtlCache } from '../utils/emotionCaches';
+import { Language, languages } from '../i18n';
+
+const materialLocales = { en: materialEnUS, he: materialHeIL } satisfies Record<Language, unknown>;
+const pickerLocales = { en: pickersEnUS, he: pickersHeIL } satisfies Record<Language, unknown>;
+
+/**
+ * Theme, emotion cache, date pickers and dayjs. The theme follows the viewer's
+ * light/dark/high-contrast choice and is shared with styled-components; the
+ * rest follows the selected language: Hebrew switches the whole app to right-to-left.
+ */
+const AppProviders: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { language, direction } = useTranslation();
+  const { dayjsLocale } = languages[language];
+  const { themeName } = useAppTheme();
+  const reducedMotion = useMediaQuery('(prefers-reduced-motion: reduce)', { noSsr: true });
+
+  // Set during render, not in an effect, so children format dates in the new locale on this pass.
+  dayjs.locale(dayjsLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.documentElement.dir = direction;
+  }, [language, direction]);
+
+  const theme = useMemo(
+    () => createAppTheme(themeName, direction, reducedMotion, materialLocales[language]),
+    [themeName, direction, reducedMotion, language]
+  );
+
+  return (
+    <CacheProvider value={direction === 'rtl' ? rtlCache : ltrCache}>
+      <ThemeProvider theme={theme}>
+        <StyledThemeProvider theme={theme}>
+          <CssBaseline />
+          <LocalizationProvider
+            dateAdapter={AdapterDayjs}
+            adapterLocale={dayjsLocale}
+            localeText={pickerLocales[language].components.MuiLocalizationProvider.defaultProps.localeText}
+          >
+            {children}
+          </LocalizationProvider>
+        </StyledThemeProvider>
+      </ThemeProvider>
+    </CacheProvider>
+  );
+};
+
+export default AppProviders;
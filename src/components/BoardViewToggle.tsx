@@ -0,0 +1,44 @@
+import React from 'react';
+import { ToggleButton, ToggleButtonGroup, Tooltip } from '@mui/material';
+import TableRowsIcon from '@mui/icons-material/TableRows';
+import ViewTimelineIcon from '@mui/icons-material/ViewTimeline';
+import { usePreferences } from '../hooks/usePreferences';
+import { useTranslation } from '../hooks/useTranslation';
+import { MessageKey } from '../i18n';
+import { BoardView, boardViews } from '../utils/gateTimeline';
+
+const viewLabels: Record<BoardView, MessageKey> = {
+    table: 'view.table',
+    timeline: 'view.timeline',
+};
+
+const viewIcons: Record<BoardView, React.ReactElement> = {
+    table: <TableRowsIcon fontSize="small" />,
+    timeline: <ViewTimelineIcon fontSize="small" />,
+};
+
+/** Switches the board between the flight list and the gate timeline; remembered per browser. */
+const BoardViewToggleComponent: React.FC = () => {
+    const [preferences, updatePreferences] = usePreferences();
+    const { t } = useTranslation();
+
+    return (
+        <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={preferences.boardView}
+            onChange={(_, next: BoardView | null) => { if (next) updatePreferences({ boardView: next }); }}
+            aria-label={t('view.label')}
+        >
+            {boardViews.map(view => (
+                <Tooltip key={view} title={t(viewLabels[view])}>
+                    <ToggleButton value={view} aria-label={t(viewLabels[view])}>
+                        {viewIcons[view]}
+                    </ToggleButton>
+                </Tooltip>
+            ))}
+        </ToggleButtonGroup>
+    );
+};
+
+export default React.memo(BoardViewToggleComponent);
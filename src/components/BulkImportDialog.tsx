@@ -0,0 +1,323 @@
+import React, { useMemo, useRef, useState } from 'react';
+import axios from 'axios';
+import {
+    Dialog, DialogTitle, DialogContent, DialogActions, Button, Typography, Box, Stack,
+    Alert, LinearProgress, FormControl, InputLabel, Select, MenuItem, Grid,
+    Table, TableHead, TableBody, TableRow, TableCell, TableContainer, Paper, Tooltip,
+    List, ListItem, ListItemText
+} from '@mui/material';
+import { AlertProps } from '@mui/material/Alert';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline';
+import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline';
+
+import { addFlight } from '../services/apiService';
+import {
+    IImportTable, IImportRow, ImportColumnMapping, ImportField, importFields,
+    parseImportFile, detectColumnMapping, validateImportRows, parseImportDepartureTime
+} from '../utils/flightImport';
+import { runWithConcurrency } from '../utils/concurrency';
+import { formatInTimeZone } from '../utils/timeZone';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+import { useTranslation } from '../hooks/useTranslation';
+import { MessageKey, Translate, translateMessage } from '../i18n';
+
+interface BulkImportDialogProps {
+    open: boolean;
+    onClose: () => void;
+    showSnackbar: (message: string, severity?: AlertProps['severity']) => void;
+}
+
+type ImportPhase = 'select' | 'preview' | 'importing' | 'report';
+
+interface IImportFailure {
+    row: IImportRow;
+    message: string;
+}
+
+interface IImportReport {
+    created: IImportRow[];
+    duplicates: IImportFailure[];
+    invalid: IImportFailure[];
+    failed: IImportFailure[];
+}
+
+// Enough to make a day's schedule quick without flooding the API.
+const IMPORT_CONCURRENCY = 4;
+
+const fieldLabels: Record<ImportField, MessageKey> = {
+    flightNumber: 'table.flightNumber',
+    destination: 'table.destination',
+    departureTime: 'table.departureTime',
+    gate: 'table.gate',
+};
+
+const firstServerError = (errors: Record<string, string[] | undefined> | undefined, t: Translate): string | undefined => {
+    if (!errors) return undefined;
+    return Object.entries(errors).map(([key, messages]) => `${key}: ${messages?.[0] ?? t('import.invalidInput')}`).join('; ');
+};
+
+const classifyFailure = (error: unknown, t: Translate): { kind: 'duplicates' | 'invalid' | 'failed'; message: string } => {
+    if (axios.isAxiosError(error)) {
+        if (error.response) {
+            const status = error.response.status;
+            const responseData = error.response.data;
+            if (status === 409) {
+                return { kind: 'duplicates', message: responseData?.errors?.FlightNumber?.[0] || responseData?.title || t('import.duplicate') };
+            }
+            if (status === 400) {
+                return { kind: 'invalid', message: firstServerError(responseData?.errors, t) || responseData?.title || t('form.invalidData') };
+            }
+            if (status === 401 || status === 403) return { kind: 'failed', message: t('error.permissionDenied') };
+            if (status >= 500) return { kind: 'failed', message: t('bulk.serverError') };
+            return { kind: 'failed', message: responseData?.title || t('bulk.statusError', { status }) };
+        }
+        if (error.request) return { kind: 'failed', message: t('bulk.networkError') };
+    }
+    return { kind: 'failed', message: t('bulk.unexpected') };
+};
+
+const describeRow = (row: IImportRow, t: Translate) =>
+    t('import.rowSummary', {
+        rowNumber: row.rowNumber,
+        flightNumber: row.values.flightNumber || t('import.noFlightNumber'),
+        destination: row.values.destination || '?',
+    });
+
+const BulkImportDialogComponent: React.FC<BulkImportDialogProps> = ({ open, onClose, showSnackbar }) => {
+    const [phase, setPhase] = useState<ImportPhase>('select');
+    const [fileName, setFileName] = useState<string>('');
+    const [table, setTable] = useState<IImportTable | null>(null);
+    const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+    const [parseError, setParseError] = useState<string | null>(null);
+    const [progress, setProgress] = useState<{ completed: number; total: number }>({ completed: 0, total: 0 });
+    const [report, setReport] = useState<IImportReport | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const { timeZone } = useDisplayTimeZone();
+    const { t } = useTranslation();
+
+    const rows = useMemo(
+        () => (table && mapping ? validateImportRows(table, mapping, timeZone) : []),
+        [table, mapping, timeZone]
+    );
+    const validRows = useMemo(() => rows.filter(row => row.request !== null), [rows]);
+
+    const resetState = () => {
+        setPhase('select');
+        setFileName('');
+        setTable(null);
+        setMapping(null);
+        setParseError(null);
+        setProgress({ completed: 0, total: 0 });
+        setReport(null);
+    };
+
+    const handleClose = () => {
+        if (phase === 'importing') return;
+        resetState();
+        onClose();
+    };
+
+    const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const parsed = parseImportFile(file.name, await file.text());
+            setFileName(file.name);
+            setTable(parsed);
+            setMapping(detectColumnMapping(parsed.columns));
+            setParseError(null);
+            setPhase('preview');
+        } catch (error: unknown) {
+            console.error("Error reading import file:", error);
+            setParseError(error instanceof Error ? translateMessage(t, error.message) : t('import.readFailed'));
+        }
+    };
+
+    const handleImport = async () => {
+        setPhase('importing');
+        setProgress({ completed: 0, total: validRows.length });
+
+        const results = await runWithConcurrency(
+            validRows,
+            IMPORT_CONCURRENCY,
+            row => addFlight(row.request!),
+            (completed, total) => setProgress({ completed, total })
+        );
+
+        const nextReport: IImportReport = { created: [], duplicates: [], invalid: [], failed: [] };
+        results.forEach((result, index) => {
+            const row = validRows[index];
+            if (result.ok) {
+                nextReport.created.push(row);
+            } else {
+                const { kind, message } = classifyFailure(result.error, t);
+                nextReport[kind].push({ row, message });
+            }
+        });
+        setReport(nextReport);
+        setPhase('report');
+
+        const failedCount = results.length - nextReport.created.length;
+        showSnackbar(
+            t(failedCount > 0 ? 'import.doneWithFailures' : 'import.done', {
+                created: nextReport.created.length,
+                count: results.length,
+                failed: failedCount,
+            }),
+            failedCount > 0 ? 'warning' : 'success'
+        );
+    };
+
+    const renderFailures = (title: string, failures: IImportFailure[], severity: AlertProps['severity']) => failures.length > 0 && (
+        <Alert severity={severity} sx={{ '& .MuiAlert-message': { width: '100%' } }}>
+            <Typography variant="subtitle2">{title} ({failures.length})</Typography>
+            <List dense disablePadding>
+                {failures.map(({ row, message }) => (
+                    <ListItem key={row.rowNumber} disableGutters>
+                        <ListItemText primary={describeRow(row, t)} secondary={message} />
+                    </ListItem>
+                ))}
+            </List>
+        </Alert>
+    );
+
+    return (
+        <Dialog open={open} onClose={handleClose} fullWidth maxWidth="lg">
+            <DialogTitle>{fileName ? t('import.titleFile', { fileName }) : t('import.title')}</DialogTitle>
+            <DialogContent>
+                {phase === 'select' && (
+                    <Stack spacing={2} alignItems="flex-start" sx={{ mt: 1 }}>
+                        <Typography>{t('import.intro')}</Typography>
+                        <Button variant="contained" startIcon={<UploadFileIcon />} onClick={() => fileInputRef.current?.click()}>
+                            {t('import.chooseFile')}
+                        </Button>
+                        {parseError && <Alert severity="error">{parseError}</Alert>}
+                    </Stack>
+                )}
+
+                {phase === 'preview' && table && mapping && (
+                    <Stack spacing={2} sx={{ mt: 1 }}>
+                        <Grid container spacing={2}>
+                            {importFields.map(field => (
+                                <Grid key={field} size={{ xs: 12, sm: 6, md: 3 }}>
+                                    <FormControl fullWidth size="small">
+                                        <InputLabel id={`import-map-${field}`}>{t('import.column', { field: t(fieldLabels[field]) })}</InputLabel>
+                                        <Select
+                                            labelId={`import-map-${field}`}
+                                            label={t('import.column', { field: t(fieldLabels[field]) })}
+                                            value={mapping[field] ?? ''}
+                                            onChange={(e) => setMapping({ ...mapping, [field]: e.target.value || null })}
+                                        >
+                                            <MenuItem value=""><em>{t('import.notMapped')}</em></MenuItem>
+                                            {table.columns.map(column => (
+                                                <MenuItem key={column} value={column}>{column}</MenuItem>
+                                            ))}
+                                        </Select>
+                                    </FormControl>
+                                </Grid>
+                            ))}
+                        </Grid>
+
+                        <Alert severity={validRows.length === rows.length ? 'success' : 'warning'}>
+                            {t('import.validCount', { valid: validRows.length, count: rows.length })}
+                            {validRows.length < rows.length && ` ${t('import.skipHint')}`}
+                        </Alert>
+
+                        <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: '50vh' }}>
+                            <Table size="small" stickyHeader aria-label={t('import.previewLabel')}>
+                                <TableHead>
+                                    <TableRow>
+                                        <TableCell>{t('import.row')}</TableCell>
+                                        {importFields.map(field => <TableCell key={field}>{t(fieldLabels[field])}</TableCell>)}
+                                        <TableCell align="center">{t('import.valid')}</TableCell>
+                                    </TableRow>
+                                </TableHead>
+                                <TableBody>
+                                    {rows.map(row => (
+                                        <TableRow key={row.rowNumber} sx={{ backgroundColor: row.request ? undefined : 'rgba(211, 47, 47, 0.06)' }}>
+                                            <TableCell>{row.rowNumber}</TableCell>
+                                            {importFields.map(field => (
+                                                <TableCell key={field}>
+                                                    <Typography variant="body2">
+                                                        {field === 'departureTime' && !row.errors.departureTime && row.values.departureTime
+                                                            ? formatInTimeZone(parseImportDepartureTime(row.values.departureTime, timeZone).toISOString(), timeZone, 'YYYY-MM-DD HH:mm')
+                                                            : row.values[field] || '—'}
+                                                    </Typography>
+                                                    {row.errors[field] && (
+                                                        <Typography variant="caption" color="error">{translateMessage(t, row.errors[field])}</Typography>
+                                                    )}
+                                                </TableCell>
+                                            ))}
+                                            <TableCell align="center">
+                                                {row.request
+                                                    ? <CheckCircleOutlineIcon color="success" fontSize="small" />
+                                                    : (
+                                                        <Tooltip title={t('import.rowSkipped')}>
+                                                            <ErrorOutlineIcon color="error" fontSize="small" />
+                                                        </Tooltip>
+                                                    )}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </TableContainer>
+                    </Stack>
+                )}
+
+                {phase === 'importing' && (
+                    <Box sx={{ mt: 2 }}>
+                        <Typography gutterBottom>
+                            {t('import.progress', { completed: progress.completed, total: progress.total })}
+                        </Typography>
+                        <LinearProgress
+                            variant="determinate"
+                            value={progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}
+                        />
+                    </Box>
+                )}
+
+                {phase === 'report' && report && (
+                    <Stack spacing={2} sx={{ mt: 1 }}>
+                        <Alert severity="success">
+                            <Typography variant="subtitle2">{t('import.created')} ({report.created.length})</Typography>
+                            {report.created.length > 0 && (
+                                <Typography variant="body2">
+                                    {report.created.map(row => row.values.flightNumber).join(', ')}
+                                </Typography>
+                            )}
+                        </Alert>
+                        {renderFailures(t('import.duplicates'), report.duplicates, 'warning')}
+                        {renderFailures(t('import.rejected'), report.invalid, 'error')}
+                        {renderFailures(t('import.otherFailures'), report.failed, 'error')}
+                    </Stack>
+                )}
+
+                <input ref={fileInputRef} type="file" accept=".csv,.json,text/csv,application/json" hidden onChange={handleFileSelected} />
+            </DialogContent>
+            <DialogActions>
+                {phase === 'preview' && (
+                    <>
+                        <Button onClick={() => fileInputRef.current?.click()}>{t('import.chooseAnother')}</Button>
+                        <Button onClick={handleClose}>{t('common.cancel')}</Button>
+                        <Button variant="contained" onClick={handleImport} disabled={validRows.length === 0}>
+                            {t('import.submit', { count: validRows.length })}
+                        </Button>
+                    </>
+                )}
+                {phase === 'select' && <Button onClick={handleClose}>{t('common.cancel')}</Button>}
+                {phase === 'importing' && <Button disabled>{t('import.running')}</Button>}
+                {phase === 'report' && (
+                    <>
+                        <Button onClick={resetState}>{t('import.importAnother')}</Button>
+                        <Button variant="contained" onClick={handleClose}>{t('common.done')}</Button>
+                    </>
+                )}
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default React.memo(BulkImportDialogComponent);
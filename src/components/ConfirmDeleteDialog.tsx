@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import {
+    Dialog, DialogTitle, DialogContent, DialogContentText, DialogActions,
+    Button, FormControlLabel, Checkbox
+} from '@mui/material';
+import { IFlight } from '../types/flight';
+import { useTranslation } from '../hooks/useTranslation';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+import { formatInTimeZone } from '../utils/timeZone';
+
+interface ConfirmDeleteDialogProps {
+    flight: IFlight | null;
+    onCancel: () => void;
+    onConfirm: (dontAskAgain: boolean) => void;
+}
+
+const ConfirmDeleteDialogComponent: React.FC<ConfirmDeleteDialogProps> = ({ flight, onCancel, onConfirm }) => {
+    const [dontAskAgain, setDontAskAgain] = useState<boolean>(false);
+    const { t } = useTranslation();
+    const { timeZone } = useDisplayTimeZone();
+
+    useEffect(() => {
+        if (flight) setDontAskAgain(false);
+    }, [flight]);
+
+    return (
+        <Dialog open={flight !== null} onClose={onCancel} maxWidth="xs" fullWidth>
+            <DialogTitle>{t('confirmDelete.title', { flightNumber: flight ? `#${flight.flightNumber}` : '' })}</DialogTitle>
+            <DialogContent>
+                {flight && (
+                    <DialogContentText>
+                        {t('confirmDelete.details', {
+                            destination: flight.destination,
+                            gate: flight.gate,
+                            departure: formatInTimeZone(flight.departureTime, timeZone, 'D MMM HH:mm'),
+                        })}{' '}
+                        {t('confirmDelete.undoHint')}
+                    </DialogContentText>
+                )}
+                <FormControlLabel
+                    sx={{ mt: 1 }}
+                    control={<Checkbox checked={dontAskAgain} onChange={(e) => setDontAskAgain(e.target.checked)} />}
+                    label={t('confirmDelete.dontAskAgain')}
+                />
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={onCancel}>{t('common.cancel')}</Button>
+                <Button color="error" variant="contained" onClick={() => onConfirm(dontAskAgain)} autoFocus>
+                    {t('common.delete')}
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default React.memo(ConfirmDeleteDialogComponent);
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Chip, Tooltip } from '@mui/material';
+import FiberManualRecordIcon from '@mui/icons-material/FiberManualRecord';
+import { useConnectionStatus } from '../hooks/useConnectionStatus';
+import { ConnectionStatus } from '../services/signalrService';
+import { useTranslation } from '../hooks/useTranslation';
+
+const statusColors: Record<ConnectionStatus, string> = {
+    connecting: '#90caf9',
+    live: '#66bb6a',
+    reconnecting: '#ffa726',
+    offline: '#ef5350',
+};
+
+const ConnectionIndicatorComponent: React.FC = () => {
+    const status = useConnectionStatus();
+    const { t } = useTranslation();
+    const color = statusColors[status];
+    const label = t(`connection.${status}`);
+    const description = t(`connection.${status}.description`);
+
+    return (
+        <Tooltip title={description}>
+            <Chip
+                icon={<FiberManualRecordIcon sx={{ '&&': { color } }} />}
+                label={label}
+                size="small"
+                variant="outlined"
+                role="status"
+                aria-live="polite"
+                sx={{ color: 'inherit', borderColor: 'rgba(255, 255, 255, 0.5)' }}
+            />
+        </Tooltip>
+    );
+};
+
+export default React.memo(ConnectionIndicatorComponent);
@@ -0,0 +1,82 @@
+import React, { useMemo } from 'react';
+import { Autocomplete, TextField, Box, Typography } from '@mui/material';
+import ReactCountryFlag from 'react-country-flag';
+import { IAirport } from '../types/airport';
+import { formatAirport, searchAirports } from '../utils/airports';
+
+interface DestinationAutocompleteProps {
+    id: string;
+    label: string;
+    value: string;
+    onChange: (value: string) => void;
+    onBlur?: () => void;
+    inputRef?: React.Ref<HTMLInputElement>;
+    error?: boolean;
+    helperText?: string;
+    required?: boolean;
+    disabled?: boolean;
+    fullWidth?: boolean;
+}
+
+/**
+ * Free-text destination field with airport suggestions. Picking a suggestion
+ * writes the canonical value ("London (LHR)"); anything typed is kept as is
+ * and normalized by the caller on submit.
+ */
+const DestinationAutocompleteComponent: React.FC<DestinationAutocompleteProps> = ({
+    id,
+    label,
+    value,
+    onChange,
+    onBlur,
+    inputRef,
+    error,
+    helperText,
+    required,
+    disabled,
+    fullWidth = true
+}) => {
+    const options = useMemo(() => searchAirports(value, 8), [value]);
+
+    return (
+        <Autocomplete<IAirport, false, false, true>
+            id={id}
+            freeSolo
+            fullWidth={fullWidth}
+            options={options}
+            // Options are already ranked by searchAirports.
+            filterOptions={(x) => x}
+            getOptionLabel={(option) => (typeof option === 'string' ? option : formatAirport(option))}
+            inputValue={value}
+            onInputChange={(_, newValue, reason) => {
+                if (reason !== 'reset') onChange(newValue);
+            }}
+            onChange={(_, option) => {
+                onChange(option === null ? '' : typeof option === 'string' ? option : formatAirport(option));
+            }}
+            disabled={disabled}
+            size="small"
+            renderOption={({ key, ...props }, option) => (
+                <Box component="li" key={key} {...props} sx={{ display: 'flex', gap: 1 }}>
+                    <ReactCountryFlag countryCode={option.country} svg style={{ width: '1.5em', height: 'auto' }} />
+                    <Typography component="span" sx={{ fontWeight: 600, fontFamily: 'monospace' }}>{option.iata}</Typography>
+                    <Typography component="span">{option.city}</Typography>
+                    <Typography component="span" variant="body2" color="text.secondary" noWrap>{option.name}</Typography>
+                </Box>
+            )}
+            renderInput={(params) => (
+                <TextField
+                    {...params}
+                    label={label}
+                    required={required}
+                    error={error}
+                    helperText={helperText}
+                    onBlur={onBlur}
+                    inputRef={inputRef}
+                />
+            )}
+        />
+    );
+};
+
+export default React.memo(DestinationAutocompleteComponent);
@@ -0,0 +1,264 @@
+import React, { useEffect, useState } from 'react';
+import { useForm, SubmitHandler, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import dayjs from 'dayjs';
+import axios from 'axios';
+import {
+    Dialog, DialogTitle, DialogContent, DialogActions,
+    Box, Stack, TextField, Button, CircularProgress, Alert
+} from '@mui/material';
+import { AlertProps } from '@mui/material/Alert';
+import { DateTimePicker } from '@mui/x-date-pickers/DateTimePicker';
+
+import { getFlightById, updateFlight } from '../services/apiService';
+import { IFlight, IUpdateFlightRequest } from '../types/flight';
+import { editFlightSchema, AddFlightFormData, applyServerFieldErrors } from '../utils/flightValidation';
+import { normalizeDestination } from '../utils/airports';
+import DestinationAutocomplete from './DestinationAutocomplete';
+import GateConflictNotice from './GateConflictNotice';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+import { useTranslation } from '../hooks/useTranslation';
+import { translateMessage } from '../i18n';
+import { useGateCheck } from '../hooks/useGateConflicts';
+
+interface EditFlightDialogProps {
+    flight: IFlight | null;
+    onClose: () => void;
+    onSaved: (flight: IFlight) => void;
+    showSnackbar: (message: string, severity?: AlertProps['severity']) => void;
+}
+
+const toFormValues = (flight: IFlight, timeZone: string): AddFlightFormData => ({
+    flightNumber: flight.flightNumber,
+    destination: flight.destination,
+    departureTime: dayjs(flight.departureTime).tz(timeZone),
+    gate: flight.gate,
+});
+
+const EditFlightDialogComponent: React.FC<EditFlightDialogProps> = ({ flight, onClose, onSaved, showSnackbar }) => {
+    const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+    const { timeZone } = useDisplayTimeZone();
+    const { t } = useTranslation();
+    const [version, setVersion] = useState<string | undefined>(undefined);
+    const [conflictMessage, setConflictMessage] = useState<string | null>(null);
+
+    const {
+        register,
+        handleSubmit,
+        setError,
+        reset,
+        control,
+        watch,
+        setValue,
+        formState: { errors }
+    } = useForm<AddFlightFormData>({
+        resolver: zodResolver(editFlightSchema),
+        defaultValues: { flightNumber: '', destination: '', departureTime: null, gate: '' }
+    });
+
+    const gate = watch('gate');
+    const departureTime = watch('departureTime');
+    const departureIso = departureTime?.isValid() ? departureTime.toISOString() : '';
+    const { conflicts: gateConflicts, suggestions: gateSuggestions } = useGateCheck({
+        gate,
+        departureTime: departureIso,
+        excludeId: flight?.id,
+    });
+    const [assignAnyway, setAssignAnyway] = useState<boolean>(false);
+    const [needsGateConfirmation, setNeedsGateConfirmation] = useState<boolean>(false);
+
+    // An "assign anyway" only covers the gate and time it was given for.
+    useEffect(() => {
+        setAssignAnyway(false);
+        setNeedsGateConfirmation(false);
+    }, [gate, departureIso]);
+
+    useEffect(() => {
+        if (flight) {
+            reset(toFormValues(flight, timeZone));
+            setVersion(flight.version);
+            setConflictMessage(null);
+        }
+    }, [flight, reset, timeZone]);
+
+    const reloadAfterConflict = async (id: string) => {
+        try {
+            const latest = await getFlightById(id);
+            if (!latest) {
+                setConflictMessage(t('edit.deletedMeanwhile'));
+                return;
+            }
+            reset(toFormValues(latest, timeZone));
+            setVersion(latest.version);
+            setConflictMessage(t('edit.conflictReloaded'));
+        } catch {
+            setConflictMessage(t('edit.conflictReopen'));
+        }
+    };
+
+    const onSubmit: SubmitHandler<AddFlightFormData> = async (data) => {
+        if (!flight) return;
+        setIsSubmitting(true);
+
+        if (!data.departureTime || !data.departureTime.isValid()) {
+            setError("departureTime", { type: "manual", message: t('form.invalidDate') });
+            setIsSubmitting(false);
+            return;
+        }
+
+        // A past flight keeps its time when other fields change, but the server rejects moving it to a past time.
+        const departureChanged = !data.departureTime.isSame(dayjs(flight.departureTime));
+        if (departureChanged && !data.departureTime.isAfter(dayjs())) {
+            setError("departureTime", { type: "manual", message: t('validation.departureInFuture') });
+            setIsSubmitting(false);
+            return;
+        }
+
+        if (gateConflicts.length > 0 && !assignAnyway) {
+            setNeedsGateConfirmation(true);
+            setIsSubmitting(false);
+            return;
+        }
+
+        const requestData: IUpdateFlightRequest = {
+            flightNumber: data.flightNumber,
+            destination: normalizeDestination(data.destination),
+            departureTime: data.departureTime.toISOString(),
+            gate: data.gate
+        };
+
+        try {
+            const updated = await updateFlight(flight.id, requestData, version);
+            showSnackbar(t('edit.success', { flightNumber: updated.flightNumber }), 'success');
+            onSaved(updated);
+        } catch (error: unknown) {
+            console.error("Error updating flight:", error);
+            let userMessage: string | null = t('edit.failed');
+
+            if (axios.isAxiosError(error)) {
+                if (error.response) {
+                    const status = error.response.status;
+                    const responseData = error.response.data;
+
+                    if (status === 409 && responseData?.errors?.FlightNumber) {
+                        setError('flightNumber', { type: 'server', message: responseData.errors.FlightNumber[0] });
+                        userMessage = null;
+                    } else if (status === 409 || status === 412) {
+                        await reloadAfterConflict(flight.id);
+                        userMessage = null;
+                    } else if (status === 404) {
+                        setConflictMessage(t('edit.notFound'));
+                        userMessage = null;
+                    } else if (status === 400) {
+                        userMessage = responseData?.title || t('form.invalidData');
+                        if (responseData?.errors) {
+                            const { fieldErrorsSet, unmatchedText } = applyServerFieldErrors(responseData.errors, setError, t);
+                            userMessage = fieldErrorsSet
+                                ? null
+                                : t('form.validationError', { details: unmatchedText || t('form.checkInput') });
+                        }
+                    } else if (status === 401 || status === 403) {
+                        userMessage = t('error.unauthorized');
+                    } else if (status >= 500) {
+                        userMessage = t('error.server');
+                    } else {
+                        userMessage = responseData?.title || t('error.client', { status });
+                    }
+                } else if (error.request) {
+                    userMessage = t('error.network');
+                }
+            }
+            if (userMessage) {
+                showSnackbar(userMessage, 'error');
+            }
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={flight !== null} onClose={isSubmitting ? undefined : onClose} fullWidth maxWidth="sm">
+            <Box component="form" onSubmit={handleSubmit(onSubmit)} noValidate>
+                <DialogTitle>{t('edit.title', { flightNumber: flight ? `#${flight.flightNumber}` : '' })}</DialogTitle>
+                <DialogContent>
+                    {conflictMessage && (
+                        <Alert severity="warning" sx={{ mb: 2 }}>{conflictMessage}</Alert>
+                    )}
+                    <Stack spacing={2} sx={{ mt: 1 }}>
+                        <TextField required fullWidth id="edit-flightNumber" label={t('form.flightNumber')}
+                            {...register("flightNumber")} error={!!errors.flightNumber}
+                            helperText={errors.flightNumber?.message && translateMessage(t, errors.flightNumber.message)} disabled={isSubmitting} size="small" />
+
+                        <Controller
+                            name="destination"
+                            control={control}
+                            render={({ field, fieldState: { error } }) => (
+                                <DestinationAutocomplete
+                                    id="edit-destination"
+                                    label={t('form.destination')}
+                                    required
+                                    value={field.value}
+                                    onChange={field.onChange}
+                                    onBlur={field.onBlur}
+                                    inputRef={field.ref}
+                                    error={!!error}
+                                    helperText={error?.message && translateMessage(t, error.message)}
+                                    disabled={isSubmitting}
+                                />
+                            )}
+                        />
+
+                        <Controller
+                            name="departureTime"
+                            control={control}
+                            render={({ field, fieldState: { error } }) => (
+                                <DateTimePicker
+                                    label={t('form.departureTime')}
+                                    timezone={timeZone}
+                                    value={field.value}
+                                    onChange={field.onChange}
+                                    inputRef={field.ref}
+                                    slotProps={{
+                                        textField: {
+                                            fullWidth: true,
+                                            size: 'small',
+                                            required: true,
+                                            error: !!error,
+                                            helperText: error?.message && translateMessage(t, error.message),
+                                            onBlur: field.onBlur,
+                                        },
+                                    }}
+                                    ampm={true}
+                                    disabled={isSubmitting}
+                                />
+                            )}
+                        />
+
+                        <TextField required fullWidth id="edit-gate" label={t('form.gate')}
+                            {...register("gate")} error={!!errors.gate}
+                            helperText={errors.gate?.message && translateMessage(t, errors.gate.message)} disabled={isSubmitting} size="small" />
+
+                        <GateConflictNotice
+                            gate={gate}
+                            conflicts={gateConflicts}
+                            suggestions={gateSuggestions}
+                            needsConfirmation={needsGateConfirmation}
+                            assignAnyway={assignAnyway}
+                            onAssignAnywayChange={setAssignAnyway}
+                            onSuggestionSelect={(suggestion) => setValue('gate', suggestion, { shouldValidate: true })}
+                            disabled={isSubmitting}
+                        />
+                    </Stack>
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={onClose} disabled={isSubmitting}>{t('common.cancel')}</Button>
+                    <Button type="submit" variant="contained" disabled={isSubmitting}>
+                        {isSubmitting ? <CircularProgress size={24} color="inherit" /> : t('common.save')}
+                    </Button>
+                </DialogActions>
+            </Box>
+        </Dialog>
+    );
+};
+
+export default React.memo(EditFlightDialogComponent);
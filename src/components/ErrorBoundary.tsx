@@ -50,7 +50,7 @@ class ErrorBoundary extends Component<Props, State> {
                     </Typography>
 
                     {process.env.NODE_ENV === 'development' && this.state.error && (
-                        <Box sx={{ mt: 2, textAlign: 'left', maxHeight: '200px', overflowY: 'auto', background: '#fdecea', p: 1, borderRadius: 1 }}>
+                        <Box sx={{ mt: 2, textAlign: 'left', maxHeight: '200px', overflowY: 'auto', bgcolor: 'action.hover', p: 1, borderRadius: 1 }}>
                             <Typography variant="subtitle2" component="div">Error Details (Dev Mode):</Typography>
                             <Typography variant="caption" component="pre" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-all' }}>
                                 {this.state.error.message}
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Button, Menu, MenuItem, ListItemIcon, ListItemText } from '@mui/material';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import TableChartIcon from '@mui/icons-material/TableChart';
+import DataObjectIcon from '@mui/icons-material/DataObject';
+import EventIcon from '@mui/icons-material/Event';
+import PrintIcon from '@mui/icons-material/Print';
+import { IFlight, IFlightFilters } from '../types/flight';
+import { downloadTextFile } from '../utils/download';
+import {
+    toExportedFlights, flightsToCsv, flightsToJson, flightsToIcs, exportFileStem
+} from '../utils/flightExport';
+import { useTranslation } from '../hooks/useTranslation';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+
+interface ExportMenuProps {
+    flights: IFlight[];
+    filters: IFlightFilters;
+    statusNow: number;
+    onPrint: () => void;
+}
+
+const ExportMenuComponent: React.FC<ExportMenuProps> = ({ flights, filters, statusNow, onPrint }) => {
+    const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+    const { t } = useTranslation();
+    const { timeZone } = useDisplayTimeZone();
+
+    const closeMenu = () => setAnchorEl(null);
+
+    // Statuses are evaluated at the board's `statusNow` so the file matches what is on screen.
+    const exportAs = (format: 'csv' | 'json' | 'ics') => {
+        closeMenu();
+        const exportedAt = Date.now();
+        const stem = exportFileStem(exportedAt);
+        if (format === 'csv') {
+            downloadTextFile(`${stem}.csv`, flightsToCsv(toExportedFlights(flights, statusNow), timeZone), 'text/csv;charset=utf-8');
+        } else if (format === 'json') {
+            downloadTextFile(`${stem}.json`, flightsToJson(toExportedFlights(flights, statusNow), filters, exportedAt), 'application/json');
+        } else {
+            downloadTextFile(`${stem}.ics`, flightsToIcs(flights, statusNow, exportedAt), 'text/calendar;charset=utf-8');
+        }
+    };
+
+    return (
+        <>
+            <Button
+                variant="outlined"
+                startIcon={<FileDownloadIcon />}
+                onClick={(e) => setAnchorEl(e.currentTarget)}
+                disabled={flights.length === 0}
+                aria-haspopup="menu"
+            >
+                {t('export.button')}
+            </Button>
+            <Menu anchorEl={anchorEl} open={anchorEl !== null} onClose={closeMenu}>
+                <MenuItem onClick={() => exportAs('csv')}>
+                    <ListItemIcon><TableChartIcon fontSize="small" /></ListItemIcon>
+                    <ListItemText primary="CSV" secondary={t('export.csv')} />
+                </MenuItem>
+                <MenuItem onClick={() => exportAs('json')}>
+                    <ListItemIcon><DataObjectIcon fontSize="small" /></ListItemIcon>
+                    <ListItemText primary="JSON" secondary={t('export.json')} />
+                </MenuItem>
+                <MenuItem onClick={() => exportAs('ics')}>
+                    <ListItemIcon><EventIcon fontSize="small" /></ListItemIcon>
+                    <ListItemText primary={t('export.ics')} secondary={t('export.ics.description')} />
+                </MenuItem>
+                <MenuItem onClick={() => { closeMenu(); onPrint(); }}>
+                    <ListItemIcon><PrintIcon fontSize="small" /></ListItemIcon>
+                    <ListItemText primary={t('export.print')} secondary={t('export.print.description')} />
+                </MenuItem>
+            </Menu>
+        </>
+    );
+};
+
+export default React.memo(ExportMenuComponent);
@@ -1,69 +1,168 @@
 import React from 'react';
 import {
-    Grid, TextField, Button, Select, MenuItem,
-    FormControl, InputLabel, Paper
+    Grid, TextField, Button, Select, MenuItem, Chip, Box,
+    FormControl, InputLabel, Paper, Checkbox, ListItemText
 } from '@mui/material';
 import SearchIcon from '@mui/icons-material/Search';
 import ClearIcon from '@mui/icons-material/Clear';
-import { FlightStatus } from '../types/flight';
+import ScheduleIcon from '@mui/icons-material/Schedule';
+import { DateTimePicker } from '@mui/x-date-pickers/DateTimePicker';
+import dayjs, { Dayjs } from 'dayjs';
+import { AlertProps } from '@mui/material/Alert';
+import { FlightStatus, IFlightFilters } from '../types/flight';
+import { IBoardViewState } from '../utils/viewState';
+import FilterPresetsMenu from './FilterPresetsMenu';
+import DestinationAutocomplete from './DestinationAutocomplete';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+import { useTranslation } from '../hooks/useTranslation';
 
 interface FilterPanelProps {
-    destinationFilterInput: string;
-    statusFilterInput: string;
+    filterInput: IFlightFilters;
     statusOptions: FlightStatus[];
-    onDestinationChange: (value: string) => void;
-    onStatusChange: (value: string) => void;
+    onFilterInputChange: (filters: IFlightFilters) => void;
     onFilter: () => void;
     onClearFilters: () => void;
     isFilterButtonDisabled: boolean;
     isClearButtonDisabled: boolean;
+    currentView: IBoardViewState;
+    onApplyPreset: (view: IBoardViewState) => void;
+    showSnackbar: (message: string, severity?: AlertProps['severity']) => void;
 }
 
+const toDayjs = (iso: string | undefined, timeZone: string): Dayjs | null => (iso ? dayjs(iso).tz(timeZone) : null);
+const toIso = (value: Dayjs | null): string | undefined => (value && value.isValid() ? value.toISOString() : undefined);
+
 const FilterPanelComponent: React.FC<FilterPanelProps> = ({
-    destinationFilterInput,
-    statusFilterInput,
+    filterInput,
     statusOptions,
-    onDestinationChange,
-    onStatusChange,
+    onFilterInputChange,
     onFilter,
     onClearFilters,
     isFilterButtonDisabled,
-    isClearButtonDisabled
+    isClearButtonDisabled,
+    currentView,
+    onApplyPreset,
+    showSnackbar
 }) => {
+    const { timeZone } = useDisplayTimeZone();
+    const { t } = useTranslation();
+    const update = (changes: Partial<IFlightFilters>) => onFilterInputChange({ ...filterInput, ...changes });
+
+    const handleNextTwoHours = () => {
+        const now = dayjs();
+        update({ departureFrom: now.toISOString(), departureTo: now.add(2, 'hour').toISOString() });
+    };
+
     return (
         <Paper sx={{ p: 2, mb: 3 }}>
             <Grid container spacing={2} alignItems="center">
 
-                <Grid xs={12} sm={6} md={5}>
+                <Grid size={{ xs: 12, sm: 6, md: 2 }}>
+                    <TextField
+                        fullWidth
+                        label={t('filter.flightNumberPrefix')}
+                        variant="outlined"
+                        size="small"
+                        value={filterInput.flightNumberPrefix ?? ''}
+                        onChange={(e) => update({ flightNumberPrefix: e.target.value })}
+                    />
+                </Grid>
+
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                    <DestinationAutocomplete
+                        id="destination-filter"
+                        label={t('filter.destination')}
+                        value={filterInput.destination ?? ''}
+                        onChange={(destination) => update({ destination })}
+                    />
+                </Grid>
+
+                <Grid size={{ xs: 12, sm: 6, md: 2 }}>
                     <TextField
                         fullWidth
-                        label="Destination"
+                        label={t('filter.gate')}
+                        placeholder={t('filter.gatePlaceholder')}
                         variant="outlined"
                         size="small"
-                        value={destinationFilterInput}
-                        onChange={(e) => onDestinationChange(e.target.value)}
+                        value={filterInput.gate ?? ''}
+                        onChange={(e) => update({ gate: e.target.value })}
                     />
                 </Grid>
 
-                <Grid xs={12} sm={4} md={3}>
+                <Grid size={{ xs: 12, sm: 6, md: 5 }}>
                     <FormControl fullWidth size="small" sx={{ minWidth: 120 }}>
-                        <InputLabel id="status-filter-label">Status</InputLabel>
-                        <Select
+                        <InputLabel id="status-filter-label">{t('filter.status')}</InputLabel>
+                        <Select<FlightStatus[]>
                             labelId="status-filter-label"
                             id="status-filter"
-                            value={statusFilterInput}
-                            label="Status"
-                            onChange={(e) => onStatusChange(e.target.value)}
+                            multiple
+                            value={filterInput.statuses ?? []}
+                            label={t('filter.status')}
+                            onChange={(e) => {
+                                const value = e.target.value;
+                                update({ statuses: (typeof value === 'string' ? value.split(',') : value) as FlightStatus[] });
+                            }}
+                            renderValue={(selected) => (
+                                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                                    {selected.map(status => <Chip key={status} label={t(`status.${status}`)} size="small" />)}
+                                </Box>
+                            )}
                         >
                             {statusOptions.map(status => (
-                                <MenuItem key={status} value={status}>{status}</MenuItem>
+                                <MenuItem key={status} value={status}>
+                                    <Checkbox size="small" checked={(filterInput.statuses ?? []).includes(status)} />
+                                    <ListItemText primary={t(`status.${status}`)} />
+                                </MenuItem>
                             ))}
                         </Select>
                     </FormControl>
                 </Grid>
 
-                <Grid xs={12} md={4} container spacing={1} justifyContent={{ xs: 'flex-start', md: 'flex-end' }} alignItems="center">
-                    <Grid item>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                    <DateTimePicker
+                        label={t('filter.departsFrom')}
+                        value={toDayjs(filterInput.departureFrom, timeZone)}
+                        onChange={(value) => update({ departureFrom: toIso(value) })}
+                        slotProps={{ textField: { fullWidth: true, size: 'small' }, field: { clearable: true } }}
+                        ampm={true}
+                        timezone={timeZone}
+                    />
+                </Grid>
+
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                    <DateTimePicker
+                        label={t('filter.departsUntil')}
+                        value={toDayjs(filterInput.departureTo, timeZone)}
+                        onChange={(value) => update({ departureTo: toIso(value) })}
+                        minDateTime={toDayjs(filterInput.departureFrom, timeZone) ?? undefined}
+                        slotProps={{ textField: { fullWidth: true, size: 'small' }, field: { clearable: true } }}
+                        ampm={true}
+                        timezone={timeZone}
+                    />
+                </Grid>
+
+                <Grid size={{ xs: 12, md: 6 }} container spacing={1} justifyContent={{ xs: 'flex-start', md: 'flex-end' }} alignItems="center">
+                    <Grid>
+                        <FilterPresetsMenu
+                            currentView={currentView}
+                            onApplyPreset={onApplyPreset}
+                            showSnackbar={showSnackbar}
+                        />
+                    </Grid>
+
+                    <Grid>
+                        <Button
+                            variant="text"
+                            onClick={handleNextTwoHours}
+                            startIcon={<ScheduleIcon />}
+                            size="medium"
+                            sx={{ height: '40px' }}
+                        >
+                            {t('filter.nextTwoHours')}
+                        </Button>
+                    </Grid>
+
+                    <Grid>
                         <Button
                             variant="contained"
                             onClick={onFilter}
@@ -72,11 +171,11 @@ const FilterPanelComponent: React.FC<FilterPanelProps> = ({
                             disabled={isFilterButtonDisabled}
                             sx={{ height: '40px' }}
                         >
-                            Filter
+                            {t('filter.apply')}
                         </Button>
                     </Grid>
 
-                    <Grid item>
+                    <Grid>
                         <Button
                             variant="outlined"
                             onClick={onClearFilters}
@@ -85,7 +184,7 @@ const FilterPanelComponent: React.FC<FilterPanelProps> = ({
                             disabled={isClearButtonDisabled}
                             sx={{ height: '40px' }}
                         >
-                            Clear
+                            {t('common.clear')}
                         </Button>
                     </Grid>
                 </Grid>
@@ -94,4 +193,4 @@ const FilterPanelComponent: React.FC<FilterPanelProps> = ({
     );
 };
 
-export default React.memo(FilterPanelComponent);
\ No newline at end of file
+export default React.memo(FilterPanelComponent);
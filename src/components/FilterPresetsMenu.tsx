@@ -0,0 +1,150 @@
+import React, { useRef, useState } from 'react';
+import {
+    Button, Menu, MenuItem, ListItemIcon, ListItemText, Divider, IconButton,
+    Dialog, DialogTitle, DialogContent, DialogActions, TextField
+} from '@mui/material';
+import { AlertProps } from '@mui/material/Alert';
+import BookmarksIcon from '@mui/icons-material/Bookmarks';
+import BookmarkAddIcon from '@mui/icons-material/BookmarkAdd';
+import DeleteIcon from '@mui/icons-material/Delete';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import { useFilterPresets } from '../hooks/useFilterPresets';
+import { createPreset, presetToViewState } from '../services/presetStorage';
+import { IBoardViewState } from '../utils/viewState';
+import { downloadTextFile } from '../utils/download';
+import { useTranslation } from '../hooks/useTranslation';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+import { translateMessage } from '../i18n';
+
+interface FilterPresetsMenuProps {
+    currentView: IBoardViewState;
+    onApplyPreset: (view: IBoardViewState) => void;
+    showSnackbar: (message: string, severity?: AlertProps['severity']) => void;
+}
+
+const FilterPresetsMenuComponent: React.FC<FilterPresetsMenuProps> = ({ currentView, onApplyPreset, showSnackbar }) => {
+    const { presets, addPreset, removePreset, importPresets, exportPresets } = useFilterPresets();
+    const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+    const [isSaveDialogOpen, setIsSaveDialogOpen] = useState<boolean>(false);
+    const [presetName, setPresetName] = useState<string>('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const { t } = useTranslation();
+    const { timeZone } = useDisplayTimeZone();
+
+    const closeMenu = () => setAnchorEl(null);
+
+    const handleSave = () => {
+        const name = presetName.trim();
+        if (!name) return;
+        try {
+            addPreset(createPreset(name, currentView, timeZone));
+            showSnackbar(t('presets.saved', { name }), 'success');
+            setIsSaveDialogOpen(false);
+            setPresetName('');
+        } catch {
+            showSnackbar(t('presets.saveFailed'), 'error');
+        }
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const count = await importPresets(file);
+            showSnackbar(t('presets.imported', { count }), 'success');
+        } catch (error: unknown) {
+            const details = error instanceof Error ? translateMessage(t, error.message) : t('presets.importFailedDefault');
+            showSnackbar(t('presets.importFailed', { details }), 'error');
+        }
+    };
+
+    const handleExport = () => {
+        closeMenu();
+        downloadTextFile('flight-deck-presets.json', exportPresets(), 'application/json');
+    };
+
+    return (
+        <>
+            <Button
+                variant="text"
+                onClick={(e) => setAnchorEl(e.currentTarget)}
+                startIcon={<BookmarksIcon />}
+                size="medium"
+                sx={{ height: '40px' }}
+                aria-haspopup="menu"
+            >
+                {t('presets.button')}
+            </Button>
+            <Menu anchorEl={anchorEl} open={anchorEl !== null} onClose={closeMenu}>
+                {presets.length === 0 && (
+                    <MenuItem disabled>
+                        <ListItemText>{t('presets.empty')}</ListItemText>
+                    </MenuItem>
+                )}
+                {presets.map(preset => (
+                    <MenuItem
+                        key={preset.name}
+                        onClick={() => {
+                            closeMenu();
+                            onApplyPreset(presetToViewState(preset, timeZone));
+                        }}
+                    >
+                        <ListItemText>{preset.name}</ListItemText>
+                        <IconButton
+                            edge="end"
+                            size="small"
+                            aria-label={t('presets.delete', { name: preset.name })}
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                removePreset(preset.name);
+                            }}
+                        >
+                            <DeleteIcon fontSize="small" />
+                        </IconButton>
+                    </MenuItem>
+                ))}
+                <Divider />
+                <MenuItem onClick={() => { closeMenu(); setIsSaveDialogOpen(true); }}>
+                    <ListItemIcon><BookmarkAddIcon fontSize="small" /></ListItemIcon>
+                    <ListItemText>{t('presets.saveCurrent')}</ListItemText>
+                </MenuItem>
+                <MenuItem onClick={() => { closeMenu(); fileInputRef.current?.click(); }}>
+                    <ListItemIcon><FileUploadIcon fontSize="small" /></ListItemIcon>
+                    <ListItemText>{t('presets.import')}</ListItemText>
+                </MenuItem>
+                <MenuItem onClick={handleExport} disabled={presets.length === 0}>
+                    <ListItemIcon><FileDownloadIcon fontSize="small" /></ListItemIcon>
+                    <ListItemText>{t('presets.export')}</ListItemText>
+                </MenuItem>
+            </Menu>
+
+            <input ref={fileInputRef} type="file" accept="application/json,.json" hidden onChange={handleImport} />
+
+            <Dialog open={isSaveDialogOpen} onClose={() => setIsSaveDialogOpen(false)} fullWidth maxWidth="xs">
+                <DialogTitle>{t('presets.saveTitle')}</DialogTitle>
+                <DialogContent>
+                    <TextField
+                        autoFocus
+                        fullWidth
+                        margin="dense"
+                        label={t('presets.name')}
+                        placeholder={t('presets.namePlaceholder')}
+                        value={presetName}
+                        onChange={(e) => setPresetName(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                        helperText={t('presets.nameHint')}
+                        slotProps={{ htmlInput: { maxLength: 60 } }}
+                    />
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={() => setIsSaveDialogOpen(false)}>{t('common.cancel')}</Button>
+                    <Button variant="contained" onClick={handleSave} disabled={!presetName.trim()}>{t('common.save')}</Button>
+                </DialogActions>
+            </Dialog>
+        </>
+    );
+};
+
+export default React.memo(FilterPresetsMenuComponent);
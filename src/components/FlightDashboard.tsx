@@ -1,20 +1,86 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Box, CircularProgress, Typography } from '@mui/material';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Box, Button, CircularProgress, Snackbar, Stack, Typography } from '@mui/material';
+import RestoreFromTrashIcon from '@mui/icons-material/RestoreFromTrash';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
 import { AlertProps } from '@mui/material/Alert';
 import axios from 'axios';
 
 import AddFlightForm from './AddFlightForm';
 import FilterPanel from './FilterPanel';
 import FlightTable from './FlightTable';
+import GateTimeline from './GateTimeline';
+import BoardViewToggle from './BoardViewToggle';
+import EditFlightDialog from './EditFlightDialog';
+import BulkImportDialog from './BulkImportDialog';
+import FlightDetailsDrawer from './FlightDetailsDrawer';
+import ConfirmDeleteDialog from './ConfirmDeleteDialog';
+import RecentlyDeletedDialog from './RecentlyDeletedDialog';
+import SelectionToolbar, { IBulkProgress, IBulkResult } from './SelectionToolbar';
+import ExportMenu from './ExportMenu';
+import TimeZoneToggle from './TimeZoneToggle';
+import PrintableBoard from './PrintableBoard';
+import WatchlistPanel from './WatchlistPanel';
 import { useFlightsData } from '../hooks/useFlightsData';
+import { useFilteredFlights } from '../hooks/useFilteredFlights';
+import { usePrintMode } from '../hooks/usePrintMode';
+import { useAuth } from '../hooks/useAuth';
+import { useFlightStore } from '../hooks/useFlightStore';
+import { usePreferences } from '../hooks/usePreferences';
+import { useRowSelection } from '../hooks/useRowSelection';
+import { useTranslation } from '../hooks/useTranslation';
 import {
     startSignalRConnection, stopSignalRConnection,
     onFlightAdded, offFlightAdded,
     onFlightDeleted, offFlightDeleted,
-    onFlightStatusChanged, offFlightStatusChanged
+    onFlightStatusChanged, offFlightStatusChanged,
+    onFlightUpdated, offFlightUpdated,
+    onConnectionRestored, offConnectionRestored
 } from '../services/signalrService';
-import { deleteFlight } from '../services/apiService';
-import { IFlight, FlightStatus } from '../types/flight';
+import {
+    addFlight, deleteFlight, updateFlight, setFlightStatusOverride, clearFlightStatusOverride, getFlightById
+} from '../services/apiService';
+import { addDeletedFlight, removeDeletedFlight, IDeletedFlight } from '../services/recentlyDeletedStorage';
+import { IFlight, FlightStatus, IFlightFilters, PendingFlightAction } from '../types/flight';
+import { calculateFlightStatus, getDisplayStatus } from '../utils/statusCalculator';
+import { flightStore } from '../store/flightStore';
+import { appendHistoryEntry } from '../services/historyStorage';
+import { getAuthState } from '../services/authService';
+import { announce } from '../services/announcer';
+import { getWatchlist, refreshWatchedFlights, unwatchFlight } from '../services/watchlistStorage';
+import { notifyWatchedFlight } from '../services/watchNotifications';
+import {
+    createAddedEntry, createDeletedEntry, createStatusChangedEntry, createUpdatedEntry
+} from '../utils/flightHistory';
+import {
+    matchesFlightFilters, normalizeFlightFilters, areFlightFiltersEqual, isFlightFilterEmpty
+} from '../utils/flightFilters';
+import { ISortCriterion, sortFlights } from '../utils/flightSort';
+import { IBoardViewState, parseViewState, serializeViewState } from '../utils/viewState';
+import { runWithConcurrency } from '../utils/concurrency';
+import { describeFlightChange } from '../utils/flightAnnouncements';
+import { Translate } from '../i18n';
+
+// Deletes are held this long before being sent, so a mis-click can be undone without touching the server.
+const UNDO_WINDOW_MS = 5000;
+// Parallel requests per bulk action; enough to be quick without flooding the API.
+const BULK_CONCURRENCY = 4;
+
+/** Short per-flight reason for the bulk summary. */
+const describeBulkFailure = (err: unknown, t: Translate): string => {
+    if (axios.isAxiosError(err)) {
+        if (err.response) {
+            const status = err.response.status;
+            if (status === 404) return t('bulk.notFound');
+            if (status === 409 || status === 412) return t('bulk.conflict');
+            if (status === 403) return t('error.permissionDenied');
+            if (status === 400) return err.response.data?.title || t('bulk.invalid');
+            if (status >= 500) return t('bulk.serverError');
+            return err.response.data?.title || t('bulk.statusError', { status });
+        }
+        if (err.request) return t('bulk.networkError');
+    }
+    return t('bulk.unexpected');
+};
 
 interface FlightDashboardProps {
     showSnackbar: (message: string, severity?: AlertProps['severity']) => void;
@@ -22,33 +88,107 @@ interface FlightDashboardProps {
 }
 
 const FlightDashboard: React.FC<FlightDashboardProps> = ({ showSnackbar, statusOptions }) => {
-    const [destinationFilterInput, setDestinationFilterInput] = useState<string>('');
-    const [statusFilterInput, setStatusFilterInput] = useState<string>('');
-    const [appliedDestinationFilter, setAppliedDestinationFilter] = useState<string | undefined>(undefined);
-    const [appliedStatusFilter, setAppliedStatusFilter] = useState<string | undefined>(undefined);
-
-    const { flights, loading, error, setFlights } = useFlightsData(
-        appliedDestinationFilter,
-        appliedStatusFilter
+    // The applied view (filters + sort) lives in the query string so reloads and shared links restore it.
+    const [initialView] = useState(() => parseViewState(window.location.search));
+    const [filterInput, setFilterInput] = useState<IFlightFilters>(initialView.filters);
+    const [appliedFilters, setAppliedFilters] = useState<IFlightFilters>(initialView.filters);
+
+    // Computed statuses change with the clock, so the status filter is only applied client-side: a
+    // server-filtered snapshot would never contain a flight that later moves into a filtered status.
+    const serverFilters = useMemo<IFlightFilters>(() => ({ ...appliedFilters, statuses: undefined }), [appliedFilters]);
+    const { flights, loading, error, refetchFlights, statusNow } = useFlightsData(serverFilters);
+    const filteredFlights = useFilteredFlights(flights, appliedFilters, statusNow);
+    const [sort, setSort] = useState<ISortCriterion[]>(initialView.sort);
+    const currentView = useMemo<IBoardViewState>(() => ({ filters: appliedFilters, sort }), [appliedFilters, sort]);
+
+    useEffect(() => {
+        const search = serializeViewState(currentView, window.location.search);
+        if (search !== window.location.search) {
+            window.history.replaceState(window.history.state, '', `${window.location.pathname}${search}${window.location.hash}`);
+        }
+    }, [currentView]);
+    // Flights whose deletion is waiting out the undo window; hidden from the table meanwhile.
+    const [pendingDeletes, setPendingDeletes] = useState<Record<string, IFlight>>({});
+    const visibleFlights = useMemo(
+        () => sortFlights(filteredFlights.filter(f => !pendingDeletes[f.id]), sort, statusNow),
+        [filteredFlights, pendingDeletes, sort, statusNow]
     );
 
-    const [deletingId, setDeletingId] = useState<string | null>(null);
+    // Hub handlers are registered once; they read the current filters through this ref.
+    const appliedFiltersRef = useRef(appliedFilters);
+    useEffect(() => {
+        appliedFiltersRef.current = appliedFilters;
+    }, [appliedFilters]);
+    const { t } = useTranslation();
+    // Same for the language, so switching it doesn't re-register the handlers.
+    const tRef = useRef(t);
+    useEffect(() => {
+        tRef.current = t;
+    }, [t]);
+
+    // Rows with a request in flight, from single-row or bulk actions.
+    const [pendingActions, setPendingActions] = useState<Record<string, PendingFlightAction>>({});
+    const visibleFlightIds = useMemo(() => visibleFlights.map(f => f.id), [visibleFlights]);
+    const { selectedIds, toggle: toggleSelection, setAll: setAllSelected, deselect } = useRowSelection(visibleFlightIds);
+    const [bulkProgress, setBulkProgress] = useState<IBulkProgress | null>(null);
+    const [bulkResult, setBulkResult] = useState<IBulkResult | null>(null);
+    const [preferences, updatePreferences] = usePreferences();
+    const [confirmingFlight, setConfirmingFlight] = useState<IFlight | null>(null);
+    const pendingDeleteTimersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+    // Deletions sent from this tab, so their hub echo doesn't trigger a second notification.
+    const ownDeletesRef = useRef<Set<string>>(new Set());
+    const [undoNotice, setUndoNotice] = useState<{ flight: IFlight; phase: 'pending' | 'deleted' } | null>(null);
+    const [isRecentlyDeletedOpen, setIsRecentlyDeletedOpen] = useState<boolean>(false);
+    const [restoringIds, setRestoringIds] = useState<ReadonlySet<string>>(() => new Set());
+    const [editingFlight, setEditingFlight] = useState<IFlight | null>(null);
+    const [detailsFlightId, setDetailsFlightId] = useState<string | null>(null);
+    const detailsFlight = useFlightStore(state => (detailsFlightId ? state.byId[detailsFlightId] : undefined));
+    const [isImportOpen, setIsImportOpen] = useState<boolean>(false);
+    const isPrinting = usePrintMode();
+    const { canEdit } = useAuth();
     const animationTimeoutsRef = useRef<Record<string, NodeJS.Timeout>>({});
 
     useEffect(() => {
+        // A 404 is not an error: it loads an empty board, which shows `dashboard.noFlights` in place of the grid.
         if (error) {
-            if (error !== "No flights match the current criteria.") {
-                showSnackbar(error, "error");
-            }
+            showSnackbar(error, "error");
         }
     }, [error, showSnackbar]);
 
+    const markPending = useCallback((ids: string[], action: PendingFlightAction) => {
+        setPendingActions(current => ({ ...current, ...Object.fromEntries(ids.map(id => [id, action])) }));
+    }, []);
+
+    const clearPending = useCallback((ids: string[]) => {
+        setPendingActions(current => {
+            if (!ids.some(id => current[id])) return current;
+            const next = { ...current };
+            ids.forEach(id => delete next[id]);
+            return next;
+        });
+    }, []);
+
+    const releasePendingDelete = useCallback((flightId: string) => {
+        clearTimeout(pendingDeleteTimersRef.current[flightId]);
+        delete pendingDeleteTimersRef.current[flightId];
+        setPendingDeletes(current => {
+            if (!current[flightId]) return current;
+            const next = { ...current };
+            delete next[flightId];
+            return next;
+        });
+    }, []);
+
+    useEffect(() => {
+        // Unsent deletions are dropped when leaving the board, never sent without the chance to undo.
+        const timers = pendingDeleteTimersRef.current;
+        return () => Object.values(timers).forEach(clearTimeout);
+    }, []);
+
     const clearAnimationFlag = useCallback((flightId: string) => {
-        setFlights(current => current.map(f =>
-            f.id === flightId ? { ...f, isAnimating: false } : f
-        ));
+        flightStore.dispatch({ type: 'highlightSet', flightIds: [flightId], isAnimating: false });
         delete animationTimeoutsRef.current[flightId];
-    }, [setFlights]);
+    }, []);
 
     const triggerAnimation = useCallback((flightId: string) => {
         if (animationTimeoutsRef.current[flightId]) {
@@ -59,71 +199,206 @@ const FlightDashboard: React.FC<FlightDashboardProps> = ({ showSnackbar, statusO
         }, 3000);
     }, [clearAnimationFlag]);
 
+    // Changes are logged only when the store applied them, so duplicate or stale events don't repeat in the history.
+    const applyFlightUpdate = useCallback((updatedFlight: IFlight, actor?: string): boolean => {
+        const previous = flightStore.getState().byId[updatedFlight.id];
+        const receivedAt = Date.now();
+        if (!flightStore.dispatch({ type: 'flightUpdated', flight: updatedFlight, receivedAt })) return false;
+        triggerAnimation(updatedFlight.id);
+        const entry = previous && createUpdatedEntry(previous, updatedFlight, receivedAt, actor);
+        if (entry) appendHistoryEntry(entry);
+        return true;
+    }, [triggerAnimation]);
+
+    const applyStatusChange = useCallback((flightId: string, newStatus: FlightStatus | undefined, isManual: boolean, sequence?: number, actor?: string): boolean => {
+        const previous = flightStore.getState().byId[flightId];
+        const receivedAt = Date.now();
+        if (!flightStore.dispatch({ type: 'flightStatusChanged', flightId, newStatus, isManual, sequence, receivedAt })) return false;
+        triggerAnimation(flightId);
+        if (previous) appendHistoryEntry(createStatusChangedEntry(previous, newStatus ?? null, isManual, receivedAt, actor));
+        return true;
+    }, [triggerAnimation]);
+
+    // Read through a ref so changing filters doesn't tear down the hub connection.
+    const refetchFlightsRef = useRef(refetchFlights);
+    useEffect(() => {
+        refetchFlightsRef.current = refetchFlights;
+    }, [refetchFlights]);
+
+    // Watched flights keep their last known details for the "My flights" list.
+    useEffect(() => {
+        refreshWatchedFlights(flights);
+    }, [flights]);
+
+    const computedStatusesRef = useRef<Record<string, FlightStatus>>({});
+
+    useEffect(() => {
+        // Highlight rows whose time-derived status flipped since the last scheduler tick.
+        const previous = computedStatusesRef.current;
+        const next: Record<string, FlightStatus> = {};
+        const changedIds: string[] = [];
+        flights.forEach(f => {
+            if (f.currentStatus) return;
+            const status = calculateFlightStatus(f, statusNow);
+            next[f.id] = status;
+            if (previous[f.id] !== undefined && previous[f.id] !== status) {
+                changedIds.push(f.id);
+            }
+        });
+        computedStatusesRef.current = next;
+
+        if (changedIds.length > 0) {
+            flightStore.dispatch({ type: 'highlightSet', flightIds: changedIds, isAnimating: true });
+            changedIds.forEach(triggerAnimation);
+        }
+    }, [flights, statusNow, triggerAnimation]);
+
     useEffect(() => {
         let isMounted = true;
 
+        const isOwnAction = (actor?: string) => !!actor && actor === getAuthState().session?.user.username;
+
+        // Screen-reader announcement for someone else's change to a flight on the current board.
+        const announceChange = (previous: IFlight | undefined, flightId: string, actor?: string) => {
+            const current = flightStore.getState().byId[flightId];
+            if (!previous || !current || isOwnAction(actor)) return;
+            if (!matchesFlightFilters(current, appliedFiltersRef.current, Date.now())) return;
+            const message = describeFlightChange(previous, current, Date.now(), tRef.current);
+            if (message) announce(message);
+        };
+
+        // Desktop alert for a starred flight whose status became one its alert settings ask for.
+        // Works from the stored details when the flight is filtered off the board.
+        const alertWatchedStatusChange = (
+            flightId: string, previous: IFlight | undefined, newStatus: FlightStatus | undefined, isManual: boolean, actor?: string
+        ) => {
+            const watched = getWatchlist()[flightId];
+            if (!watched) return;
+            const before = previous ?? watched.flight;
+            const after: IFlight = flightStore.getState().byId[flightId] ?? { ...before, currentStatus: newStatus, isStatusManual: isManual };
+            refreshWatchedFlights([after]);
+            const now = Date.now();
+            const status = getDisplayStatus(after, now);
+            if (isOwnAction(actor) || status === getDisplayStatus(before, now) || !watched.alerts.statuses.includes(status)) return;
+            const t = tRef.current;
+            notifyWatchedFlight({
+                tag: flightId,
+                title: t('watch.notify.status', { flightNumber: after.flightNumber, status: t(`status.${status}`) }),
+                body: t('watch.notify.details', { destination: after.destination, gate: after.gate }),
+                sound: watched.alerts.sound,
+            });
+        };
+
+        // With filters applied the store only holds the flights that matched when the board was fetched.
+        // One that starts matching through a live change is brought onto the board here.
+        const admitIfMatching = (flight: IFlight) => {
+            if (!matchesFlightFilters(flight, appliedFiltersRef.current, Date.now())) return;
+            if (flightStore.dispatch({ type: 'flightAdded', flight, receivedAt: Date.now() })) {
+                triggerAnimation(flight.id);
+            }
+        };
+
         const handleFlightAdded = (newFlight: IFlight) => {
             if (!isMounted) return;
-            const flightWithAnimation = { ...newFlight, isAnimating: true };
-            setFlights(current => {
-                if (current.some(f => f.id === flightWithAnimation.id)) {
-                    return current;
+            const receivedAt = Date.now();
+            if (flightStore.dispatch({ type: 'flightAdded', flight: newFlight, receivedAt })) {
+                triggerAnimation(newFlight.id);
+                appendHistoryEntry(createAddedEntry(newFlight, receivedAt, newFlight.actor));
+                if (matchesFlightFilters(newFlight, appliedFiltersRef.current, Date.now())) {
+                    showSnackbar(tRef.current('dashboard.flightAdded', { flightNumber: newFlight.flightNumber }), 'success');
                 }
-                const updated = [...current, flightWithAnimation];
-                updated.sort((a, b) => new Date(a.departureTime).getTime() - new Date(b.departureTime).getTime());
-                return updated;
-            });
-            triggerAnimation(flightWithAnimation.id);
-            showSnackbar(`Flight ${newFlight.flightNumber} Added`, 'success');
+            }
         };
 
         const handleFlightDeleted = (deletedFlight: IFlight) => {
             if (!isMounted) return;
             const deletedId = deletedFlight.id;
-            setFlights(current => current.filter(flight => flight.id !== deletedId));
+            const previous = flightStore.getState().byId[deletedId];
+            const receivedAt = Date.now();
+            const applied = flightStore.dispatch({
+                type: 'flightDeleted', flightId: deletedId, sequence: deletedFlight.sequence, receivedAt
+            });
             if (animationTimeoutsRef.current[deletedId]) {
                 clearTimeout(animationTimeoutsRef.current[deletedId]);
                 delete animationTimeoutsRef.current[deletedId];
             }
-            if (deletingId === deletedId) {
-                setDeletingId(null);
+            clearPending([deletedId]);
+            releasePendingDelete(deletedId);
+            const isOwnDelete = ownDeletesRef.current.delete(deletedId);
+            const watched = getWatchlist()[deletedId];
+            if (applied && watched) {
+                unwatchFlight(deletedId);
+                if (watched.alerts.deleted && !isOwnDelete && !isOwnAction(deletedFlight.actor)) {
+                    const t = tRef.current;
+                    notifyWatchedFlight({
+                        tag: deletedId,
+                        title: t('watch.notify.deleted', { flightNumber: watched.flight.flightNumber }),
+                        body: t('watch.notify.details', { destination: watched.flight.destination, gate: watched.flight.gate }),
+                        sound: watched.alerts.sound,
+                    });
+                }
+            }
+            // Flights outside the loaded board (filtered out, or never fetched) were not on screen to disappear.
+            if (applied && previous) {
+                const actor = deletedFlight.actor ?? (isOwnDelete ? getAuthState().session?.user.username : undefined);
+                appendHistoryEntry(createDeletedEntry(deletedId, previous.flightNumber, receivedAt, actor));
+                addDeletedFlight(previous, actor);
+                // Our own deletions already show the undo notice.
+                if (!isOwnDelete && matchesFlightFilters(previous, appliedFiltersRef.current, receivedAt)) {
+                    showSnackbar(tRef.current('dashboard.flightDeleted', { flightNumber: deletedFlight.flightNumber }), 'info');
+                }
             }
-            showSnackbar(`Flight ${deletedFlight.flightNumber} Deleted`, 'info');
         };
 
-        const handleFlightStatusChanged = (flightId: string, newStatus: FlightStatus) => {
+        const handleFlightStatusChanged = (flightId: string, newStatus: FlightStatus | null, isManual: boolean, sequence?: number, actor?: string) => {
             if (!isMounted) return;
-            let flightUpdated = false;
-            setFlights(current =>
-                current.map(f => {
-                    if (f.id === flightId) {
-                        if (f.currentStatus !== newStatus) {
-                            flightUpdated = true;
-                            return { ...f, currentStatus: newStatus, isAnimating: true };
-                        }
-                    }
-                    return f;
-                })
-            );
-            if (flightUpdated) {
-                triggerAnimation(flightId);
+            const previous = flightStore.getState().byId[flightId];
+            const applied = applyStatusChange(flightId, newStatus ?? undefined, isManual, sequence, actor);
+            if (applied) {
+                announceChange(previous, flightId, actor);
+            }
+            // A flight on the board whose event was stale or a duplicate changed nothing.
+            if (applied || !previous) {
+                alertWatchedStatusChange(flightId, previous, newStatus ?? undefined, isManual, actor);
+            }
+            // The event only carries the status, so the rest of the flight has to be fetched.
+            if (!previous && !isFlightFilterEmpty(appliedFiltersRef.current)) {
+                getFlightById(flightId)
+                    .then(flight => {
+                        if (isMounted && flight) admitIfMatching(flight);
+                    })
+                    .catch(err => console.error("Error fetching flight after a status change:", err));
             }
         };
 
+        const handleFlightUpdated = (updatedFlight: IFlight) => {
+            if (!isMounted) return;
+            const previous = flightStore.getState().byId[updatedFlight.id];
+            if (applyFlightUpdate(updatedFlight, updatedFlight.actor)) {
+                announceChange(previous, updatedFlight.id, updatedFlight.actor);
+            } else if (!previous) {
+                refreshWatchedFlights([updatedFlight]);
+                if (!isFlightFilterEmpty(appliedFiltersRef.current)) admitIfMatching(updatedFlight);
+            }
+        };
+
+        const handleConnectionRestored = () => {
+            if (!isMounted) return;
+            refetchFlightsRef.current({ background: true });
+        };
+
+        // Register before starting so handlers survive failed starts and backoff restarts.
+        onFlightAdded(handleFlightAdded);
+        onFlightDeleted(handleFlightDeleted);
+        onFlightStatusChanged(handleFlightStatusChanged);
+        onFlightUpdated(handleFlightUpdated);
+        onConnectionRestored(handleConnectionRestored);
+
         startSignalRConnection()
-            .then(connection => {
-                if (connection && isMounted) {
-                    onFlightAdded(handleFlightAdded);
-                    onFlightDeleted(handleFlightDeleted);
-                    onFlightStatusChanged(handleFlightStatusChanged);
-                } else if (isMounted) {
-                    console.warn("SignalR connection attempt finished, but component unmounted or connection failed.");
-                }
-            })
             .catch(err => {
                 console.error("SignalR Connection Error:", err);
                 if (isMounted) {
-                    showSnackbar("Could not connect to real-time server.", "error");
+                    showSnackbar(tRef.current('dashboard.hubError'), "error");
                 }
             });
 
@@ -133,95 +408,437 @@ const FlightDashboard: React.FC<FlightDashboardProps> = ({ showSnackbar, statusO
             offFlightAdded(handleFlightAdded);
             offFlightDeleted(handleFlightDeleted);
             offFlightStatusChanged(handleFlightStatusChanged);
+            offFlightUpdated(handleFlightUpdated);
+            offConnectionRestored(handleConnectionRestored);
             stopSignalRConnection();
             Object.values(timeouts).forEach(clearTimeout);
         };
-    }, [setFlights, showSnackbar, deletingId, triggerAnimation, clearAnimationFlag]);
+    }, [showSnackbar, triggerAnimation, applyFlightUpdate, applyStatusChange, releasePendingDelete, clearPending]);
 
     const handleApplyFilter = useCallback(() => {
-        const newDest = destinationFilterInput.trim() || undefined;
-        const newStatus = statusFilterInput || undefined;
-        setAppliedDestinationFilter(newDest);
-        setAppliedStatusFilter(newStatus);
-    }, [destinationFilterInput, statusFilterInput]);
+        setAppliedFilters(normalizeFlightFilters(filterInput));
+    }, [filterInput]);
+
+    const handleApplyPreset = useCallback((view: IBoardViewState) => {
+        setFilterInput(view.filters);
+        setAppliedFilters(view.filters);
+        setSort(view.sort);
+    }, []);
 
     const handleClearFilters = useCallback(() => {
-        setDestinationFilterInput('');
-        setStatusFilterInput('');
-        setAppliedDestinationFilter(undefined);
-        setAppliedStatusFilter(undefined);
+        setFilterInput({});
+        setAppliedFilters({});
     }, []);
 
-    const handleDeleteFlight = useCallback(async (id: string) => {
-        setDeletingId(id);
-        let userMessage = `Error deleting flight. Please try again.`;
+    const sendDelete = useCallback(async (flight: IFlight) => {
+        const id = flight.id;
+        delete pendingDeleteTimersRef.current[id];
+        markPending([id], 'deleting');
+        ownDeletesRef.current.add(id);
+        let userMessage = t('delete.failed');
         try {
             await deleteFlight(id);
             if (animationTimeoutsRef.current[id]) {
                 clearTimeout(animationTimeoutsRef.current[id]);
                 delete animationTimeoutsRef.current[id];
             }
+            addDeletedFlight(flight, getAuthState().session?.user.username);
+            setUndoNotice(current => current?.flight.id === id ? { flight: current.flight, phase: 'deleted' } : current);
         } catch (err: any) {
             console.error(`[FlightDashboard handleDelete] Failed to delete flight with ID ${id}:`, err);
             if (axios.isAxiosError(err)) {
                 if (err.response) {
                     const status = err.response.status;
-                    if (status === 404) userMessage = "Flight not found (already deleted?).";
-                    else if (status === 403) userMessage = "Permission denied.";
-                    else if (status >= 500) userMessage = "Server error deleting flight.";
-                    else userMessage = err.response.data?.title || `Error deleting (${status}).`;
-                } else if (err.request) userMessage = "Network error deleting flight.";
-                else userMessage = `Request setup error: ${err.message}`;
-            } else userMessage = "Unexpected error during deletion.";
+                    if (status === 404) userMessage = t('delete.notFound');
+                    else if (status === 403) userMessage = t('error.permissionDenied');
+                    else if (status >= 500) userMessage = t('delete.serverError');
+                    else userMessage = err.response.data?.title || t('delete.statusError', { status });
+                } else if (err.request) userMessage = t('delete.networkError');
+                else userMessage = t('error.requestSetup', { message: err.message });
+            } else userMessage = t('delete.unexpected');
+            showSnackbar(userMessage, 'error');
+            clearPending([id]);
+            ownDeletesRef.current.delete(id);
+            releasePendingDelete(id);
+            setUndoNotice(current => current?.flight.id === id ? null : current);
+        } finally {
+        }
+    }, [showSnackbar, releasePendingDelete, markPending, clearPending, t]);
+
+    // The row disappears at once, but the request is held back so the delete can still be undone.
+    const scheduleDelete = useCallback((flight: IFlight) => {
+        setPendingDeletes(current => ({ ...current, [flight.id]: flight }));
+        pendingDeleteTimersRef.current[flight.id] = setTimeout(() => sendDelete(flight), UNDO_WINDOW_MS);
+        setUndoNotice({ flight, phase: 'pending' });
+    }, [sendDelete]);
+
+    const handleDeleteFlight = useCallback((id: string) => {
+        const flight = flightStore.getState().byId[id];
+        if (!flight || pendingDeleteTimersRef.current[id]) return;
+        if (preferences.confirmDeletes) {
+            setConfirmingFlight(flight);
+        } else {
+            scheduleDelete(flight);
+        }
+    }, [preferences.confirmDeletes, scheduleDelete]);
+
+    const handleConfirmDelete = useCallback((dontAskAgain: boolean) => {
+        if (dontAskAgain) {
+            updatePreferences({ confirmDeletes: false });
+        }
+        if (confirmingFlight) {
+            scheduleDelete(confirmingFlight);
+        }
+        setConfirmingFlight(null);
+    }, [confirmingFlight, scheduleDelete, updatePreferences]);
+
+    const handleRestoreFlight = useCallback(async (entry: IDeletedFlight) => {
+        const { flight } = entry;
+        setRestoringIds(current => new Set(current).add(flight.id));
+        try {
+            const restored = await addFlight({
+                flightNumber: flight.flightNumber,
+                destination: flight.destination,
+                departureTime: flight.departureTime,
+                gate: flight.gate,
+            });
+            removeDeletedFlight(flight.id);
+            showSnackbar(t('restore.success', { flightNumber: restored.flightNumber }), 'success');
+        } catch (err: unknown) {
+            console.error(`[FlightDashboard handleRestore] Failed to restore flight ${flight.flightNumber}:`, err);
+            let userMessage = t('restore.failed');
+            if (axios.isAxiosError(err)) {
+                if (err.response) {
+                    const status = err.response.status;
+                    const responseData = err.response.data;
+                    if (status === 409) userMessage = t('restore.exists', { flightNumber: flight.flightNumber });
+                    else if (status === 400) userMessage = t('restore.invalid', { details: responseData?.errors?.DepartureTime?.[0] || responseData?.title || t('restore.invalidDefault') });
+                    else if (status === 403) userMessage = t('error.permissionDenied');
+                    else if (status >= 500) userMessage = t('restore.serverError');
+                    else userMessage = responseData?.title || t('restore.statusError', { status });
+                } else if (err.request) userMessage = t('restore.networkError');
+            }
             showSnackbar(userMessage, 'error');
-            setDeletingId(null);
         } finally {
+            setRestoringIds(current => {
+                const next = new Set(current);
+                next.delete(flight.id);
+                return next;
+            });
+        }
+    }, [showSnackbar, t]);
+
+    const handleUndoDelete = useCallback(() => {
+        if (!undoNotice) return;
+        const { flight, phase } = undoNotice;
+        setUndoNotice(null);
+        if (phase === 'pending' && pendingDeleteTimersRef.current[flight.id]) {
+            releasePendingDelete(flight.id);
+            showSnackbar(t('delete.cancelled', { flightNumber: flight.flightNumber }), 'info');
+        } else if (phase === 'deleted') {
+            handleRestoreFlight({ flight, deletedAt: new Date().toISOString() });
+        }
+    }, [undoNotice, releasePendingDelete, handleRestoreFlight, showSnackbar, t]);
+
+    const handleStatusOverride = useCallback(async (id: string, status: FlightStatus | null) => {
+        markPending([id], 'statusUpdating');
+        try {
+            const updatedFlight = status === null
+                ? await clearFlightStatusOverride(id)
+                : await setFlightStatusOverride(id, status);
+            applyStatusChange(
+                id, updatedFlight.currentStatus, updatedFlight.isStatusManual ?? status !== null,
+                undefined, getAuthState().session?.user.username
+            );
+            showSnackbar(
+                status === null
+                    ? t('override.cleared', { flightNumber: updatedFlight.flightNumber })
+                    : t('override.set', { flightNumber: updatedFlight.flightNumber, status: t(`status.${status}`) }),
+                'success'
+            );
+        } catch (err: unknown) {
+            console.error(`[FlightDashboard handleStatusOverride] Failed to update status of flight with ID ${id}:`, err);
+            let userMessage = t('override.failed');
+            if (axios.isAxiosError(err)) {
+                if (err.response) {
+                    const status = err.response.status;
+                    if (status === 404) userMessage = t('override.notFound');
+                    else if (status === 403) userMessage = t('error.permissionDenied');
+                    else if (status >= 500) userMessage = t('override.serverError');
+                    else userMessage = err.response.data?.title || t('override.statusError', { status });
+                } else if (err.request) userMessage = t('override.networkError');
+            }
+            showSnackbar(userMessage, 'error');
+        } finally {
+            clearPending([id]);
+        }
+    }, [applyStatusChange, showSnackbar, markPending, clearPending, t]);
+
+    const getSelectedFlights = useCallback(
+        () => visibleFlights.filter(f => selectedIds.has(f.id) && !pendingActions[f.id]),
+        [visibleFlights, selectedIds, pendingActions]
+    );
+
+    const runBulkAction = useCallback(async (
+        action: IBulkProgress['action'],
+        flights: IFlight[],
+        worker: (flight: IFlight) => Promise<void>
+    ) => {
+        if (flights.length === 0) return;
+        setBulkResult(null);
+        setBulkProgress({ action, completed: 0, total: flights.length });
+        markPending(flights.map(f => f.id), action === 'delete' ? 'deleting' : 'updating');
+
+        const results = await runWithConcurrency(flights, BULK_CONCURRENCY, worker, (completed, total) => {
+            setBulkProgress({ action, completed, total });
+        });
+
+        const failures = results.flatMap((result, i) => {
+            if (result.ok) return [];
+            console.error(`[FlightDashboard bulk ${action}] Failed for flight ${flights[i].flightNumber}:`, result.error);
+            return [{ flightId: flights[i].id, flightNumber: flights[i].flightNumber, message: describeBulkFailure(result.error, t) }];
+        });
+        clearPending(failures.map(f => f.flightId));
+        deselect(flights.filter((_, i) => results[i].ok).map(f => f.id));
+        setBulkProgress(null);
+        setBulkResult({ action, succeeded: flights.length - failures.length, failures });
+    }, [markPending, clearPending, deselect, t]);
+
+    const handleBulkDelete = useCallback(() => {
+        const flights = getSelectedFlights();
+        // Registered up front so the hub echoes don't raise one notification per flight.
+        flights.forEach(f => ownDeletesRef.current.add(f.id));
+        runBulkAction('delete', flights, async (flight) => {
+            try {
+                await deleteFlight(flight.id);
+            } catch (err) {
+                ownDeletesRef.current.delete(flight.id);
+                throw err;
+            }
+            addDeletedFlight(flight, getAuthState().session?.user.username);
+            // Hidden until the hub confirms the deletion, like a single delete after its undo window.
+            setPendingDeletes(current => ({ ...current, [flight.id]: flight }));
+        });
+    }, [getSelectedFlights, runBulkAction]);
+
+    const handleBulkReassignGate = useCallback((gate: string) => {
+        runBulkAction('reassignGate', getSelectedFlights(), async (flight) => {
+            try {
+                const updated = await updateFlight(flight.id, {
+                    flightNumber: flight.flightNumber,
+                    destination: flight.destination,
+                    departureTime: flight.departureTime,
+                    gate,
+                }, flight.version);
+                applyFlightUpdate(updated, getAuthState().session?.user.username);
+            } finally {
+                clearPending([flight.id]);
+            }
+        });
+    }, [getSelectedFlights, runBulkAction, applyFlightUpdate, clearPending]);
+
+    // Drag and drop on the gate timeline; saved like an edit, and the hub echo is then a duplicate.
+    const handleMoveFlight = useCallback(async (flight: IFlight, gate: string, departureTime: string) => {
+        markPending([flight.id], 'updating');
+        try {
+            const updated = await updateFlight(flight.id, {
+                flightNumber: flight.flightNumber,
+                destination: flight.destination,
+                departureTime,
+                gate,
+            }, flight.version);
+            applyFlightUpdate(updated, getAuthState().session?.user.username);
+            showSnackbar(t('timeline.moved', { flightNumber: updated.flightNumber, gate: updated.gate }), 'success');
+        } catch (err: unknown) {
+            console.error(`[FlightDashboard handleMoveFlight] Failed to move flight ${flight.flightNumber}:`, err);
+            showSnackbar(t('timeline.moveFailed', { flightNumber: flight.flightNumber, details: describeBulkFailure(err, t) }), 'error');
+        } finally {
+            clearPending([flight.id]);
         }
-    }, [showSnackbar]);
+    }, [applyFlightUpdate, showSnackbar, markPending, clearPending, t]);
+
+    const handleEditFlight = useCallback((flight: IFlight) => {
+        setEditingFlight(flight);
+    }, []);
+
+    const handleShowDetails = useCallback((flight: IFlight) => {
+        setDetailsFlightId(flight.id);
+    }, []);
 
-    const isFilterApplied = appliedDestinationFilter !== undefined || appliedStatusFilter !== undefined;
-    const hasFilterChanged = (destinationFilterInput.trim() || undefined) !== appliedDestinationFilter ||
-        (statusFilterInput || undefined) !== appliedStatusFilter;
+    const handleCloseDetails = useCallback(() => {
+        setDetailsFlightId(null);
+    }, []);
+
+    const handleCloseEditDialog = useCallback(() => {
+        setEditingFlight(null);
+    }, []);
+
+    const handleFlightSaved = useCallback((updatedFlight: IFlight) => {
+        setEditingFlight(null);
+        applyFlightUpdate(updatedFlight, getAuthState().session?.user.username);
+    }, [applyFlightUpdate]);
+
+    const isFilterApplied = !isFlightFilterEmpty(appliedFilters);
+    const hasFilterChanged = !areFlightFiltersEqual(filterInput, appliedFilters);
     const isApplyButtonDisabled = loading || !hasFilterChanged;
     const isClearButtonDisabled = loading || !isFilterApplied;
+    const isTableView = preferences.boardView === 'table';
 
     return (
         <>
-            <Typography variant="h5" component="h2" gutterBottom>Add New Flight</Typography>
-            <AddFlightForm showSnackbar={showSnackbar} />
-
-            <Typography variant="h5" component="h2" gutterBottom sx={{ mt: 4 }}>Filter Flights</Typography>
-            <FilterPanel
-                destinationFilterInput={destinationFilterInput}
-                statusFilterInput={statusFilterInput}
-                statusOptions={statusOptions}
-                onDestinationChange={setDestinationFilterInput}
-                onStatusChange={setStatusFilterInput}
-                onFilter={handleApplyFilter}
-                onClearFilters={handleClearFilters}
-                isFilterButtonDisabled={isApplyButtonDisabled}
-                isClearButtonDisabled={isClearButtonDisabled}
-            />
-
-            <Typography variant="h4" component="h1" gutterBottom sx={{ mt: 4 }}>Live Flight Information</Typography>
-
-            {loading && (
-                <Box display="flex" justifyContent="center" sx={{ my: 3 }}>
-                    <CircularProgress />
+            <Box className="screen-only">
+                {canEdit && (
+                    <>
+                        <Box display="flex" alignItems="center" justifyContent="space-between">
+                            <Typography variant="h5" component="h2" gutterBottom>{t('dashboard.addTitle')}</Typography>
+                            <Button variant="outlined" startIcon={<UploadFileIcon />} onClick={() => setIsImportOpen(true)}>
+                                {t('dashboard.import')}
+                            </Button>
+                        </Box>
+                        <AddFlightForm showSnackbar={showSnackbar} />
+                    </>
+                )}
+
+                <Typography variant="h5" component="h2" gutterBottom sx={{ mt: canEdit ? 4 : 0 }}>{t('dashboard.filterTitle')}</Typography>
+                <FilterPanel
+                    filterInput={filterInput}
+                    statusOptions={statusOptions}
+                    onFilterInputChange={setFilterInput}
+                    onFilter={handleApplyFilter}
+                    onClearFilters={handleClearFilters}
+                    isFilterButtonDisabled={isApplyButtonDisabled}
+                    isClearButtonDisabled={isClearButtonDisabled}
+                    currentView={currentView}
+                    onApplyPreset={handleApplyPreset}
+                    showSnackbar={showSnackbar}
+                />
+
+                <Box display="flex" alignItems="center" justifyContent="space-between" sx={{ mt: 4 }}>
+                    <Typography variant="h4" component="h1" gutterBottom>{t('dashboard.boardTitle')}</Typography>
+                    <Stack direction="row" spacing={1} alignItems="center">
+                        <BoardViewToggle />
+                        <TimeZoneToggle />
+                        {canEdit && (
+                            <Button variant="text" startIcon={<RestoreFromTrashIcon />} onClick={() => setIsRecentlyDeletedOpen(true)}>
+                                {t('dashboard.recentlyDeleted')}
+                            </Button>
+                        )}
+                        <ExportMenu
+                            flights={visibleFlights}
+                            filters={appliedFilters}
+                            statusNow={statusNow}
+                            onPrint={() => window.print()}
+                        />
+                    </Stack>
                 </Box>
-            )}
 
-            {!loading && flights.length > 0 && (
-                <FlightTable
-                    flights={flights}
+                {loading && (
+                    <Box display="flex" justifyContent="center" sx={{ my: 3 }}>
+                        <CircularProgress />
+                    </Box>
+                )}
+
+                <WatchlistPanel statusNow={statusNow} onShowDetails={handleShowDetails} />
+
+                {canEdit && isTableView && (
+                    <SelectionToolbar
+                        selectedCount={selectedIds.size}
+                        progress={bulkProgress}
+                        result={bulkResult}
+                        onDelete={handleBulkDelete}
+                        onReassignGate={handleBulkReassignGate}
+                        onClearSelection={() => setAllSelected(false)}
+                        onDismissResult={() => setBulkResult(null)}
+                    />
+                )}
+
+                {!loading && visibleFlights.length > 0 && !isTableView && (
+                    <GateTimeline
+                        flights={visibleFlights}
+                        statusNow={statusNow}
+                        pendingActions={pendingActions}
+                        canEdit={canEdit}
+                        onShowDetails={handleShowDetails}
+                        onMoveFlight={handleMoveFlight}
+                    />
+                )}
+                {!loading && visibleFlights.length > 0 && isTableView && (
+                    <FlightTable
+                        flights={visibleFlights}
+                        statusNow={statusNow}
+                        showSnackbar={showSnackbar}
+                        pendingActions={pendingActions}
+                        canEdit={canEdit}
+                        selectedIds={selectedIds}
+                        onToggleSelect={toggleSelection}
+                        onToggleSelectAll={setAllSelected}
+                        onDelete={handleDeleteFlight}
+                        onEdit={handleEditFlight}
+                        onShowDetails={handleShowDetails}
+                        onStatusOverride={handleStatusOverride}
+                        sort={sort}
+                        onSortChange={setSort}
+                    />
+                )}
+                {!loading && visibleFlights.length === 0 && !error && (
+                    <Typography align="center" sx={{ my: 3 }}>{t('dashboard.noFlights')}</Typography>
+                )}
+
+                <EditFlightDialog
+                    flight={canEdit ? editingFlight : null}
+                    onClose={handleCloseEditDialog}
+                    onSaved={handleFlightSaved}
                     showSnackbar={showSnackbar}
-                    deletingId={deletingId}
-                    onDelete={handleDeleteFlight}
                 />
-            )}
-            {!loading && flights.length === 0 && !error && (
-                <Typography align="center" sx={{ my: 3 }}>No flights match the current criteria.</Typography>
-            )}
+
+                <FlightDetailsDrawer
+                    flightId={detailsFlightId}
+                    flight={detailsFlight}
+                    statusNow={statusNow}
+                    onClose={handleCloseDetails}
+                />
+
+                <ConfirmDeleteDialog
+                    flight={confirmingFlight}
+                    onCancel={() => setConfirmingFlight(null)}
+                    onConfirm={handleConfirmDelete}
+                />
+
+                <RecentlyDeletedDialog
+                    open={canEdit && isRecentlyDeletedOpen}
+                    restoringIds={restoringIds}
+                    onClose={() => setIsRecentlyDeletedOpen(false)}
+                    onRestore={handleRestoreFlight}
+                />
+
+                <Snackbar
+                    open={undoNotice !== null}
+                    anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+                    autoHideDuration={undoNotice?.phase === 'deleted' ? 8000 : null}
+                    onClose={(_, reason) => { if (reason !== 'clickaway') setUndoNotice(null); }}
+                    message={undoNotice
+                        ? t(undoNotice.phase === 'pending' ? 'undo.pending' : 'undo.deleted', { flightNumber: undoNotice.flight.flightNumber })
+                        : ''}
+                    action={
+                        <Button
+                            color="secondary"
+                            size="small"
+                            onClick={handleUndoDelete}
+                            disabled={undoNotice?.phase === 'pending' && pendingActions[undoNotice.flight.id] === 'deleting'}
+                        >
+                            {t('undo.action')}
+                        </Button>
+                    }
+                />
+
+                <BulkImportDialog
+                    open={canEdit && isImportOpen}
+                    onClose={() => setIsImportOpen(false)}
+                    showSnackbar={showSnackbar}
+                />
+            </Box>
+
+            {isPrinting && <PrintableBoard flights={visibleFlights} filters={appliedFilters} statusNow={statusNow} />}
         </>
     );
 };
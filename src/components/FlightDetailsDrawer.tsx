@@ -0,0 +1,149 @@
+import React from 'react';
+import {
+    Drawer, Box, Typography, IconButton, Divider, List, ListItem, ListItemIcon, ListItemText,
+    CircularProgress, Alert, Stack
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import AddCircleOutlineIcon from '@mui/icons-material/AddCircleOutline';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import EditNoteIcon from '@mui/icons-material/EditNote';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import { IFlight } from '../types/flight';
+import { IFlightHistoryEntry, FlightHistoryField } from '../types/history';
+import { useFlightHistory } from '../hooks/useFlightHistory';
+import { getDisplayStatus } from '../utils/statusCalculator';
+import { historyFieldLabels } from '../utils/flightHistory';
+import { formatInTimeZone, getTimeZoneAbbreviation } from '../utils/timeZone';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+import { useTranslation } from '../hooks/useTranslation';
+import { Translate } from '../i18n';
+import StatusDisplay from './StatusDisplay';
+
+interface FlightDetailsDrawerProps {
+    flightId: string | null;
+    // Undefined once the flight has been deleted; its history stays viewable.
+    flight: IFlight | undefined;
+    statusNow: number;
+    onClose: () => void;
+}
+
+const formatValue = (field: FlightHistoryField, value: string, timeZone: string) =>
+    field === 'departureTime' && value ? formatInTimeZone(value, timeZone, 'D MMM YYYY, HH:mm') : value;
+
+const describeEntry = (entry: IFlightHistoryEntry, timeZone: string, t: Translate): { title: string; details: string[] } => {
+    switch (entry.type) {
+        case 'added':
+            return {
+                title: t('history.added'),
+                details: entry.changes
+                    ? Object.entries(entry.changes).map(([field, change]) =>
+                        `${t(historyFieldLabels[field as FlightHistoryField])}: ${formatValue(field as FlightHistoryField, change.to, timeZone)}`)
+                    : [],
+            };
+        case 'statusChanged': {
+            const previous = entry.previousStatus ? [t('history.previousStatus', { status: t(`status.${entry.previousStatus}`) })] : [];
+            if (entry.status === null || entry.status === undefined) {
+                return { title: t('history.statusCleared'), details: [t('history.backToComputed'), ...previous] };
+            }
+            const status = t(`status.${entry.status}`);
+            return {
+                title: entry.isManual ? t('history.statusSet', { status }) : t('history.statusChanged', { status }),
+                details: previous,
+            };
+        }
+        case 'updated':
+            return {
+                title: t('history.updated'),
+                details: Object.entries(entry.changes ?? {}).map(([field, change]) =>
+                    `${t(historyFieldLabels[field as FlightHistoryField])}: ${formatValue(field as FlightHistoryField, change.from, timeZone)} → ${formatValue(field as FlightHistoryField, change.to, timeZone)}`),
+            };
+        case 'deleted':
+            return { title: t('history.deleted'), details: [] };
+        default:
+            return { title: t('history.change'), details: [] };
+    }
+};
+
+const entryIcons: Record<IFlightHistoryEntry['type'], React.ReactNode> = {
+    added: <AddCircleOutlineIcon color="success" />,
+    statusChanged: <SwapHorizIcon color="primary" />,
+    updated: <EditNoteIcon color="action" />,
+    deleted: <DeleteOutlineIcon color="error" />,
+};
+
+const FlightDetailsDrawerComponent: React.FC<FlightDetailsDrawerProps> = ({ flightId, flight, statusNow, onClose }) => {
+    const { timeZone } = useDisplayTimeZone();
+    const { t } = useTranslation();
+    const { entries, source, loading, error } = useFlightHistory(flightId);
+    const flightNumber = flight?.flightNumber ?? entries.find(e => e.flightNumber)?.flightNumber;
+
+    return (
+        <Drawer anchor="right" open={flightId !== null} onClose={onClose}>
+            <Box sx={{ width: { xs: '100vw', sm: 420 }, p: 2 }} role="region" aria-label={t('details.label')}>
+                <Box display="flex" alignItems="center" justifyContent="space-between">
+                    <Typography variant="h6" component="h2">
+                        {flightNumber ? t('details.title', { flightNumber }) : t('details.titleUnknown')}
+                    </Typography>
+                    <IconButton aria-label={t('details.close')} onClick={onClose}>
+                        <CloseIcon />
+                    </IconButton>
+                </Box>
+
+                {flight ? (
+                    <Stack spacing={0.5} sx={{ my: 1 }}>
+                        <Typography variant="body2"><strong>{t('history.field.destination')}:</strong> {flight.destination}</Typography>
+                        <Typography variant="body2"><strong>{t('history.field.departureTime')}:</strong> {formatInTimeZone(flight.departureTime, timeZone, 'D MMM YYYY, HH:mm')} {getTimeZoneAbbreviation(timeZone, statusNow)}</Typography>
+                        <Typography variant="body2"><strong>{t('history.field.gate')}:</strong> {flight.gate}</Typography>
+                        <Box>
+                            <StatusDisplay displayStatus={getDisplayStatus(flight, statusNow)} isManual={flight.isStatusManual ?? false} />
+                        </Box>
+                    </Stack>
+                ) : (
+                    flightId && <Alert severity="info" sx={{ my: 1 }}>{t('details.gone')}</Alert>
+                )}
+
+                <Divider sx={{ my: 2 }} />
+
+                <Typography variant="subtitle1" component="h3">{t('history.title')}</Typography>
+                <Typography variant="caption" color="text.secondary">
+                    {source === 'server' ? t('history.sourceServer') : t('history.sourceLocal')}
+                </Typography>
+
+                {error && <Alert severity="warning" sx={{ mt: 1 }}>{error}</Alert>}
+
+                {loading ? (
+                    <Box display="flex" justifyContent="center" sx={{ my: 3 }}>
+                        <CircularProgress size={28} />
+                    </Box>
+                ) : entries.length === 0 ? (
+                    <Typography sx={{ my: 2 }} color="text.secondary">{t('history.empty')}</Typography>
+                ) : (
+                    <List dense>
+                        {[...entries].reverse().map((entry, index) => {
+                            const { title, details } = describeEntry(entry, timeZone, t);
+                            return (
+                                <ListItem key={`${entry.at}-${entry.type}-${index}`} alignItems="flex-start" disableGutters>
+                                    <ListItemIcon sx={{ minWidth: 36, mt: 0.5 }}>{entryIcons[entry.type]}</ListItemIcon>
+                                    <ListItemText
+                                        primary={title}
+                                        secondary={
+                                            <>
+                                                {details.map(line => <span key={line} style={{ display: 'block' }}>{line}</span>)}
+                                                <span style={{ display: 'block' }}>
+                                                    {formatInTimeZone(entry.at, timeZone, 'D MMM, HH:mm:ss')}
+                                                    {entry.actor ? ` · ${t('history.by', { user: entry.actor })}` : ''}
+                                                </span>
+                                            </>
+                                        }
+                                    />
+                                </ListItem>
+                            );
+                        })}
+                    </List>
+                )}
+            </Box>
+        </Drawer>
+    );
+};
+
+export default React.memo(FlightDetailsDrawerComponent);
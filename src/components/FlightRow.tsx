@@ -2,26 +2,54 @@ import React from 'react';
 import styled, { keyframes, css } from 'styled-components';
 import {
   TableRow as MuiTableRow, TableCell, CircularProgress,
-  Box, IconButton
+  Box, IconButton, Checkbox, Chip, Tooltip
 } from '@mui/material';
 import DeleteIcon from '@mui/icons-material/Delete';
+import EditIcon from '@mui/icons-material/Edit';
+import HistoryIcon from '@mui/icons-material/History';
+import StarIcon from '@mui/icons-material/Star';
+import StarBorderIcon from '@mui/icons-material/StarBorder';
 import ReactCountryFlag from 'react-country-flag';
-import { IFlight } from '../types/flight';
-import { cityToCountryCode } from '../utils/constants';
-import { calculateFlightStatus } from '../utils/statusCalculator';
+import { IFlight, FlightStatus, PendingFlightAction } from '../types/flight';
+import { resolveAirport } from '../utils/airports';
+import { getDisplayStatus } from '../utils/statusCalculator';
+import { formatRelativeDeparture } from '../utils/timeFormat';
+import { formatInTimeZone, getTimeZoneAbbreviation, haveSameOffset } from '../utils/timeZone';
+import { formatConflictingFlights, getGateTurnaroundMinutes } from '../utils/gateConflicts';
+import { useMinuteClock } from '../hooks/useMinuteClock';
+import { useTranslation } from '../hooks/useTranslation';
+import { useWatchToggle } from '../hooks/useWatchlist';
 import StatusDisplay from './StatusDisplay';
 
 interface FlightRowProps {
   flight: IFlight;
+  // Position in the table, for keyboard navigation.
+  rowIndex: number;
+  // The table's single tab stop (roving tabindex); other rows and their controls are reached with the arrow keys.
+  isTabbable: boolean;
+  statusNow: number;
   isAnimating: boolean;
-  isDeleting: boolean;
+  isLeaving: boolean;
+  // Request in flight for this row (single or bulk action), if any.
+  pendingAction?: PendingFlightAction;
+  // Other flights using the same gate within the turnaround window, if any.
+  gateConflicts?: IFlight[];
+  // Viewers get a read-only row: no edit/delete actions and no status picker.
+  canEdit: boolean;
+  isSelected: boolean;
+  onToggleSelect: (id: string, extendRange: boolean) => void;
   onDelete: (id: string) => void;
+  onEdit: (flight: IFlight) => void;
+  onShowDetails: (flight: IFlight) => void;
+  onStatusOverride: (id: string, status: FlightStatus | null) => void;
   formatDateTime: (dateTimeString: string) => string;
+  // Zone the board is shown in; the destination's local time is added when it differs.
+  displayTimeZone: string;
 }
 
-const rowHighlightPulse = keyframes`
+const rowHighlightPulse = (color: string) => keyframes`
   0%, 60% {
-    background-color: #fff9c4;
+    background-color: ${color};
   }
   100% {
     background-color: transparent;
@@ -30,50 +58,180 @@ const rowHighlightPulse = keyframes`
 
 interface StyledTableRowProps {
   $isAnimating?: boolean;
+  $isLeaving?: boolean;
 }
 
 const FlightRowComponent: React.FC<FlightRowProps> = ({
   flight,
+  rowIndex,
+  isTabbable,
+  statusNow,
   isAnimating,
-  isDeleting,
+  isLeaving,
+  pendingAction,
+  gateConflicts,
+  canEdit,
+  isSelected,
+  onToggleSelect,
   onDelete,
-  formatDateTime
+  onEdit,
+  onShowDetails,
+  onStatusOverride,
+  formatDateTime,
+  displayTimeZone
 }) => {
+  const isDeleting = pendingAction === 'deleting';
+  const isBusy = pendingAction !== undefined;
 
-  const displayStatus = flight.currentStatus ?? calculateFlightStatus(flight.departureTime);
-  const countryCode = cityToCountryCode[flight.destination];
+  const displayStatus = getDisplayStatus(flight, statusNow);
+  const airport = resolveAirport(flight.destination);
   const formattedDepartureTime = formatDateTime(flight.departureTime);
+  const departureMillis = new Date(flight.departureTime).getTime();
+  const showDestinationTime = airport !== null && !isNaN(departureMillis)
+    && !haveSameOffset(airport.timeZone, displayTimeZone, departureMillis);
+  const minuteNow = useMinuteClock();
+  const { t } = useTranslation();
+  const { isWatched, toggle: toggleWatch } = useWatchToggle(flight);
   const cellSx = { padding: '12px 16px', verticalAlign: 'middle' };
+  const controlTabIndex = isTabbable ? 0 : -1;
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTableRowElement>) => {
+    if (event.target !== event.currentTarget) return;
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      onShowDetails(flight);
+    } else if (event.key === ' ' && canEdit && !isDeleting) {
+      event.preventDefault();
+      onToggleSelect(flight.id, event.shiftKey);
+    }
+  };
 
   return (
     <StyledTableRow
       $isAnimating={isAnimating}
+      $isLeaving={isLeaving}
+      aria-hidden={isLeaving || undefined}
+      selected={isSelected}
+      tabIndex={isTabbable ? 0 : -1}
+      data-row-index={rowIndex}
+      aria-selected={canEdit ? isSelected : undefined}
+      onKeyDown={handleKeyDown}
       sx={{ '&:last-child td, &:last-child th': { border: 0 } }}
     >
-      <TableCell component="th" scope="row" sx={{ ...cellSx, fontWeight: '600' }}>
+      {canEdit && (
+        <TableCell padding="checkbox">
+          <Checkbox
+            checked={isSelected}
+            disabled={isDeleting}
+            tabIndex={controlTabIndex}
+            // Shift+click extends the selection from the last clicked row.
+            onChange={(e) => onToggleSelect(flight.id, (e.nativeEvent as MouseEvent).shiftKey ?? false)}
+            slotProps={{ input: { 'aria-label': t('row.select', { flightNumber: flight.flightNumber }) } }}
+          />
+        </TableCell>
+      )}
+      <TableCell component="th" scope="row" sx={{ ...cellSx, fontWeight: '600', whiteSpace: 'nowrap' }}>
+        <IconButton
+          aria-label={t(isWatched ? 'watch.remove' : 'watch.add', { flightNumber: flight.flightNumber })}
+          aria-pressed={isWatched}
+          onClick={toggleWatch}
+          tabIndex={controlTabIndex}
+          size="small"
+          sx={{ mr: 0.5, color: isWatched ? 'warning.main' : 'action.active' }}
+        >
+          {isWatched ? <StarIcon fontSize="small" /> : <StarBorderIcon fontSize="small" />}
+        </IconButton>
         {'#' + flight.flightNumber}
       </TableCell>
-      <TableCell sx={cellSx}>{flight.gate}</TableCell>
+      <TableCell sx={{ ...cellSx, whiteSpace: 'nowrap' }}>
+        {flight.gate}
+        {gateConflicts && gateConflicts.length > 0 && (
+          <Tooltip
+            title={t('gate.badgeDetails', {
+              gate: flight.gate,
+              minutes: getGateTurnaroundMinutes(),
+              flights: formatConflictingFlights(gateConflicts, displayTimeZone, t),
+            })}
+          >
+            <Chip
+              label={t('gate.badge')}
+              color="warning"
+              size="small"
+              tabIndex={controlTabIndex}
+              sx={{ ml: 1 }}
+            />
+          </Tooltip>
+        )}
+      </TableCell>
+      <TableCell sx={cellSx}>
+        <StatusDisplay
+          displayStatus={displayStatus}
+          isManual={flight.isStatusManual ?? false}
+          onStatusChange={canEdit ? (status) => onStatusOverride(flight.id, status) : undefined}
+          disabled={isBusy}
+          tabIndex={controlTabIndex}
+        />
+      </TableCell>
       <TableCell sx={cellSx}>
-        <StatusDisplay displayStatus={displayStatus} />
+        {airport ? (
+          <Box sx={{ display: 'flex', alignItems: 'center' }} title={`${airport.name}, ${airport.city}`}>
+            <ReactCountryFlag countryCode={airport.country} svg style={{ width: '1.5em', height: 'auto', marginRight: '8px', verticalAlign: 'middle' }} title={airport.country} />
+            {airport.city}
+            <Box component="span" sx={{ ml: 1, fontFamily: 'monospace', fontWeight: 600, color: 'text.secondary' }}>{airport.iata}</Box>
+          </Box>
+        ) : (
+          flight.destination
+        )}
       </TableCell>
       <TableCell sx={cellSx}>
-        <Box sx={{ display: 'flex', alignItems: 'center' }}>
-          {countryCode && <ReactCountryFlag countryCode={countryCode} svg style={{ width: '1.5em', height: 'auto', marginRight: '8px', verticalAlign: 'middle' }} title={countryCode} />}
-          {flight.destination}
-        </Box>
+        {formattedDepartureTime}
+        {showDestinationTime && (
+          <Box component="span" sx={{ display: 'block', fontSize: '0.75rem', lineHeight: 1.2, color: 'text.secondary' }}>
+            {t('row.destinationTime', {
+              time: formatInTimeZone(flight.departureTime, airport.timeZone, 'HH:mm'),
+              zone: getTimeZoneAbbreviation(airport.timeZone, departureMillis),
+              city: airport.city,
+            })}
+          </Box>
+        )}
       </TableCell>
-      <TableCell sx={cellSx}>{formattedDepartureTime}</TableCell>
-      <TableCell sx={{ ...cellSx }}>
+      <TableCell sx={{ ...cellSx, color: 'text.secondary', whiteSpace: 'nowrap' }}>
+        {formatRelativeDeparture(flight.departureTime, minuteNow, t)}
+      </TableCell>
+      <TableCell sx={{ ...cellSx, whiteSpace: 'nowrap' }}>
         <IconButton
-          className="delete-button"
-          aria-label="delete flight"
-          onClick={() => onDelete(flight.id)}
-          disabled={isDeleting}
+          className="row-action"
+          aria-label={t('row.details')}
+          onClick={() => onShowDetails(flight)}
+          tabIndex={controlTabIndex}
           size="small"
         >
-          {isDeleting ? <CircularProgress size={20} color="inherit" /> : <DeleteIcon fontSize="small" />}
+          <HistoryIcon fontSize="small" />
         </IconButton>
+        {canEdit && (
+          <>
+            <IconButton
+              className="row-action"
+              aria-label={t('row.edit')}
+              onClick={() => onEdit(flight)}
+              disabled={isBusy}
+              tabIndex={controlTabIndex}
+              size="small"
+            >
+              <EditIcon fontSize="small" />
+            </IconButton>
+            <IconButton
+              className="row-action"
+              aria-label={t('row.delete')}
+              onClick={() => onDelete(flight.id)}
+              disabled={isBusy}
+              tabIndex={controlTabIndex}
+              size="small"
+            >
+              {isDeleting ? <CircularProgress size={20} color="inherit" /> : <DeleteIcon fontSize="small" />}
+            </IconButton>
+          </>
+        )}
       </TableCell>
     </StyledTableRow>
   );
@@ -81,25 +239,56 @@ const FlightRowComponent: React.FC<FlightRowProps> = ({
 
 const StyledTableRow = styled(MuiTableRow) <StyledTableRowProps>`
   transition: background-color 0.15s ease-in-out;
+  /* Keeps rows focused from the keyboard clear of the sticky header. */
+  scroll-margin-top: 56px;
 
   &:hover {
-    background-color: #f9f9f9;
-    .delete-button {
-        opacity: 1;
-    }
+    background-color: ${props => props.theme.palette.action.hover};
+  }
+
+  &:focus-visible {
+    outline: 2px solid ${props => props.theme.palette.primary.main};
+    outline-offset: -2px;
   }
 
-  .delete-button {
+  .row-action {
     opacity: 0;
     transition: opacity 0.2s ease-in-out;
   }
 
+  &:hover .row-action,
+  &:focus-within .row-action,
+  &:focus-visible .row-action {
+    opacity: 1;
+  }
+
   ${props => props.$isAnimating && css`
-    animation: ${rowHighlightPulse} 3s ease-out forwards;
+    animation: ${rowHighlightPulse(props.theme.palette.rowHighlight)} 3s ease-out forwards;
     &:hover {
-      background-color: #fff9c4;
+      background-color: ${props.theme.palette.rowHighlight};
     }
+
+    /* A steady highlight instead of the pulse; it goes away when the flag is cleared. */
+    @media (prefers-reduced-motion: reduce) {
+      animation: none;
+      background-color: ${props.theme.palette.rowHighlight};
+    }
+  `}
+
+  ${props => props.$isLeaving && css`
+    opacity: 0;
+    transition: opacity 0.6s ease-out;
+    pointer-events: none;
   `}
+
+  /* Last, so it also overrides the fade-out above. */
+  @media (prefers-reduced-motion: reduce) {
+    transition: none;
+
+    .row-action {
+      transition: none;
+    }
+  }
 `;
 
 
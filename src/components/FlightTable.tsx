@@ -1,75 +1,197 @@
-import React from 'react';
+import React, { useCallback, useRef } from 'react';
 import {
     Table, TableBody, TableCell, TableContainer, TableHead,
-    TableRow as MuiTableRow,
-    Card, CardContent,
+    TableRow as MuiTableRow, TableSortLabel,
+    Card, CardContent, Checkbox, Box,
 } from '@mui/material';
 import { AlertProps } from '@mui/material/Alert';
-import { IFlight } from '../types/flight';
+import { IFlight, FlightStatus, PendingFlightAction } from '../types/flight';
+import { FlightSortKey, ISortCriterion, toggleSortCriterion } from '../utils/flightSort';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import { useRovingRows } from '../hooks/useRovingRows';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+import { useTranslation } from '../hooks/useTranslation';
+import { useGateConflictMap } from '../hooks/useGateConflicts';
+import { languages, MessageKey } from '../i18n';
+import { formatInTimeZone, getTimeZoneAbbreviation } from '../utils/timeZone';
+import { visuallyHidden } from '../utils/visuallyHidden';
 import FlightRow from './FlightRow';
 
 interface FlightTableProps {
     flights: IFlight[];
+    statusNow: number;
     showSnackbar: (message: string, severity?: AlertProps['severity']) => void;
-    deletingId: string | null;
+    pendingActions: Record<string, PendingFlightAction>;
+    canEdit: boolean;
+    selectedIds: ReadonlySet<string>;
+    onToggleSelect: (id: string, extendRange: boolean) => void;
+    onToggleSelectAll: (selected: boolean) => void;
     onDelete: (id: string) => void;
+    onEdit: (flight: IFlight) => void;
+    onShowDetails: (flight: IFlight) => void;
+    onStatusOverride: (id: string, status: FlightStatus | null) => void;
+    sort: ISortCriterion[];
+    onSortChange: (sort: ISortCriterion[]) => void;
 }
 
-const formatDateTime = (dateTimeString: string): string => {
-    try {
-        const date = new Date(dateTimeString);
-        if (isNaN(date.getTime())) return "Invalid Date";
-        return date.toLocaleString(undefined, { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: true });
-    } catch (e) { return "Invalid Date"; }
-};
+// Starting guess for a FlightRow's height; the spacers use the measured height once rows render.
+const ESTIMATED_ROW_HEIGHT = 57;
+// Data and action columns; operators get an extra selection column.
+const BASE_COLUMN_COUNT = 7;
+
+const sortableColumns: { key: FlightSortKey; label: MessageKey }[] = [
+    { key: 'flightNumber', label: 'table.flightNumber' },
+    { key: 'gate', label: 'table.gate' },
+    { key: 'status', label: 'table.status' },
+    { key: 'destination', label: 'table.destination' },
+    { key: 'departureTime', label: 'table.departureTime' },
+];
 
 
 const FlightTableComponent: React.FC<FlightTableProps> = ({
     flights,
-    deletingId,
-    onDelete
+    statusNow,
+    pendingActions,
+    canEdit,
+    selectedIds,
+    onToggleSelect,
+    onToggleSelectAll,
+    onDelete,
+    onEdit,
+    onShowDetails,
+    onStatusOverride,
+    sort,
+    onSortChange
 }) => {
 
+    const { timeZone } = useDisplayTimeZone();
+    const { t, language, direction } = useTranslation();
+    const formatDateTime = useCallback(
+        (dateTimeString: string): string =>
+            formatInTimeZone(dateTimeString, timeZone, 'MMM D, YYYY, hh:mm A', languages[language].dayjsLocale) || "Invalid Date",
+        [timeZone, language]
+    );
+
+    // Checked against every loaded flight, so a clash with a row filtered off the board still shows.
+    const gateConflicts = useGateConflictMap();
+
+    const containerRef = useRef<HTMLDivElement>(null);
+    const { start, end, rowHeight, paddingTop, paddingBottom } = useVirtualRows({
+        count: flights.length,
+        estimatedRowHeight: ESTIMATED_ROW_HEIGHT,
+        containerRef,
+    });
+    const { tabbableIndex, onKeyDown, onFocus } = useRovingRows({
+        count: flights.length,
+        start,
+        end,
+        rowHeight,
+        containerRef,
+        direction,
+    });
+
     const cellSx = { padding: '12px 16px', verticalAlign: 'middle' };
-    const headCellSx = { ...cellSx, fontWeight: 'bold' };
+    const headCellSx = { ...cellSx, fontWeight: 'bold', backgroundColor: 'tableHeader' };
+    const spacerCellSx = { padding: 0, border: 0 };
+    const columnCount = canEdit ? BASE_COLUMN_COUNT + 1 : BASE_COLUMN_COUNT;
+    const selectedCount = selectedIds.size;
+
+    const handleSortClick = (key: FlightSortKey) => (event: React.MouseEvent) => {
+        onSortChange(toggleSortCriterion(sort, key, event.shiftKey));
+    };
 
     return (
         <Card variant="outlined" sx={{ mt: 3, mb: 3 }}>
             <CardContent sx={{ padding: 0, '&:last-child': { paddingBottom: 0 } }}>
-                <TableContainer>
-                    <Table sx={{ minWidth: 650 }} aria-label="enhanced flight table">
+                <TableContainer ref={containerRef} sx={{ maxHeight: '70vh' }}>
+                    <Box id="flight-table-hint" sx={visuallyHidden}>{t('table.keyboardHint')}</Box>
+                    <Table stickyHeader sx={{ minWidth: 650 }} aria-label={t('table.label')} aria-describedby="flight-table-hint">
                         <TableHead>
-                            <MuiTableRow sx={{ backgroundColor: '#f5f5f5', borderBottom: '2px solid', borderColor: 'divider' }}>
-                                <TableCell sx={headCellSx}>Flight No.</TableCell>
-                                <TableCell sx={headCellSx}>Gate</TableCell>
-                                <TableCell sx={headCellSx}>Status</TableCell>
-                                <TableCell sx={headCellSx}>Destination</TableCell>
-                                <TableCell sx={headCellSx}>Departure Time</TableCell>
+                            <MuiTableRow sx={{ borderBottom: '2px solid', borderColor: 'divider' }}>
+                                {canEdit && (
+                                    <TableCell padding="checkbox" sx={{ backgroundColor: headCellSx.backgroundColor }}>
+                                        <Checkbox
+                                            indeterminate={selectedCount > 0 && selectedCount < flights.length}
+                                            checked={flights.length > 0 && selectedCount === flights.length}
+                                            onChange={(e) => onToggleSelectAll(e.target.checked)}
+                                            slotProps={{ input: { 'aria-label': t('table.selectAll') } }}
+                                        />
+                                    </TableCell>
+                                )}
+                                {sortableColumns.map(({ key, label }) => {
+                                    const sortIndex = sort.findIndex(c => c.key === key);
+                                    const criterion = sort[sortIndex];
+                                    return (
+                                        <TableCell
+                                            key={key}
+                                            sx={headCellSx}
+                                            sortDirection={criterion?.direction ?? false}
+                                        >
+                                            <TableSortLabel
+                                                active={!!criterion}
+                                                direction={criterion?.direction ?? 'asc'}
+                                                onClick={handleSortClick(key)}
+                                                title={t('table.sortHint')}
+                                            >
+                                                {t(label)}
+                                                {key === 'departureTime' && ` (${getTimeZoneAbbreviation(timeZone, statusNow)})`}
+                                                {criterion && sort.length > 1 && (
+                                                    <sup style={{ marginLeft: 2 }}>{sortIndex + 1}</sup>
+                                                )}
+                                            </TableSortLabel>
+                                        </TableCell>
+                                    );
+                                })}
+                                <TableCell sx={headCellSx}>{t('table.departs')}</TableCell>
                                 <TableCell sx={headCellSx}></TableCell>
                             </MuiTableRow>
                         </TableHead>
-                        <TableBody>
+                        <TableBody onKeyDown={onKeyDown} onFocus={onFocus}>
                             {flights.length === 0 ? (
                                 <MuiTableRow>
-                                    <TableCell colSpan={6} align="center" sx={cellSx}>
-                                        No flights to display.
+                                    <TableCell colSpan={columnCount} align="center" sx={cellSx}>
+                                        {t('table.empty')}
                                     </TableCell>
                                 </MuiTableRow>
                             ) : (
-                                flights.map((flight) => {
-                                    const isAnimating = flight.isAnimating ?? false;
-                                    const isDeleting = deletingId === flight.id;
-                                    return (
-                                        <FlightRow
-                                            key={flight.id}
-                                            flight={flight}
-                                            isAnimating={isAnimating}
-                                            isDeleting={isDeleting}
-                                            onDelete={onDelete}
-                                            formatDateTime={formatDateTime}
-                                        />
-                                    );
-                                })
+                                <>
+                                    {paddingTop > 0 && (
+                                        <MuiTableRow aria-hidden style={{ height: paddingTop }}>
+                                            <TableCell colSpan={columnCount} sx={spacerCellSx} />
+                                        </MuiTableRow>
+                                    )}
+                                    {flights.slice(start, end).map((flight, offset) => {
+                                        const isAnimating = flight.isAnimating ?? false;
+                                        const rowIndex = start + offset;
+                                        return (
+                                            <FlightRow
+                                                key={flight.id}
+                                                flight={flight}
+                                                rowIndex={rowIndex}
+                                                isTabbable={rowIndex === tabbableIndex}
+                                                statusNow={statusNow}
+                                                isAnimating={isAnimating}
+                                                isLeaving={flight.isLeaving ?? false}
+                                                pendingAction={pendingActions[flight.id]}
+                                                gateConflicts={gateConflicts[flight.id]}
+                                                canEdit={canEdit}
+                                                isSelected={selectedIds.has(flight.id)}
+                                                onToggleSelect={onToggleSelect}
+                                                onDelete={onDelete}
+                                                onEdit={onEdit}
+                                                onShowDetails={onShowDetails}
+                                                onStatusOverride={onStatusOverride}
+                                                formatDateTime={formatDateTime}
+                                                displayTimeZone={timeZone}
+                                            />
+                                        );
+                                    })}
+                                    {paddingBottom > 0 && (
+                                        <MuiTableRow aria-hidden style={{ height: paddingBottom }}>
+                                            <TableCell colSpan={columnCount} sx={spacerCellSx} />
+                                        </MuiTableRow>
+                                    )}
+                                </>
                             )}
                         </TableBody>
                     </Table>
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Alert, Box, Chip, Checkbox, FormControlLabel } from '@mui/material';
+import { IFlight } from '../types/flight';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+import { useTranslation } from '../hooks/useTranslation';
+import { formatConflictingFlights, getGateTurnaroundMinutes } from '../utils/gateConflicts';
+
+interface GateConflictNoticeProps {
+    gate: string;
+    conflicts: IFlight[];
+    suggestions: string[];
+    // Set when the operator tried to save without resolving the conflict.
+    needsConfirmation: boolean;
+    assignAnyway: boolean;
+    onAssignAnywayChange: (checked: boolean) => void;
+    onSuggestionSelect: (gate: string) => void;
+    disabled?: boolean;
+}
+
+/** Warning shown under a form's Gate field while the gate clashes with another flight. */
+const GateConflictNoticeComponent: React.FC<GateConflictNoticeProps> = ({
+    gate,
+    conflicts,
+    suggestions,
+    needsConfirmation,
+    assignAnyway,
+    onAssignAnywayChange,
+    onSuggestionSelect,
+    disabled
+}) => {
+    const { timeZone } = useDisplayTimeZone();
+    const { t } = useTranslation();
+
+    if (conflicts.length === 0) return null;
+
+    return (
+        <Alert severity={needsConfirmation && !assignAnyway ? 'error' : 'warning'} role="alert">
+            {t('gate.conflict', {
+                gate,
+                minutes: getGateTurnaroundMinutes(),
+                flights: formatConflictingFlights(conflicts, timeZone, t),
+            })}
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 0.5, mt: 1 }}>
+                {suggestions.length > 0 ? t('gate.suggestions') : t('gate.noSuggestions')}
+                {suggestions.map(suggestion => (
+                    <Chip
+                        key={suggestion}
+                        label={suggestion}
+                        size="small"
+                        variant="outlined"
+                        onClick={() => onSuggestionSelect(suggestion)}
+                        aria-label={t('gate.useSuggestion', { gate: suggestion })}
+                        disabled={disabled}
+                    />
+                ))}
+            </Box>
+            <FormControlLabel
+                control={
+                    <Checkbox
+                        size="small"
+                        checked={assignAnyway}
+                        onChange={(e) => onAssignAnywayChange(e.target.checked)}
+                        disabled={disabled}
+                    />
+                }
+                label={t('gate.assignAnyway')}
+            />
+            {needsConfirmation && !assignAnyway && (
+                <Box sx={{ fontWeight: 600 }}>{t('gate.confirmRequired')}</Box>
+            )}
+        </Alert>
+    );
+};
+
+export default React.memo(GateConflictNoticeComponent);
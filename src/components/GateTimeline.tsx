@@ -0,0 +1,462 @@
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import styled, { css } from 'styled-components';
+import {
+    Box, Button, Card, CardContent, Dialog, DialogActions, DialogContent, DialogContentText, DialogTitle,
+    IconButton, Stack, Tooltip, Typography
+} from '@mui/material';
+import { Theme, ThemeProvider, useTheme } from '@mui/material/styles';
+import { CacheProvider } from '@emotion/react';
+import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
+import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+import ZoomInIcon from '@mui/icons-material/ZoomIn';
+import ZoomOutIcon from '@mui/icons-material/ZoomOut';
+import TodayIcon from '@mui/icons-material/Today';
+import { IFlight, FlightStatus, PendingFlightAction } from '../types/flight';
+import { flightStore } from '../store/flightStore';
+import { useMinuteClock } from '../hooks/useMinuteClock';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+import { useTranslation } from '../hooks/useTranslation';
+import { useGateConflictMap } from '../hooks/useGateConflicts';
+import { languages } from '../i18n';
+import { getDisplayStatus } from '../utils/statusCalculator';
+import { formatInTimeZone } from '../utils/timeZone';
+import {
+    findGateConflicts, formatConflictingFlights, getGateTurnaroundMinutes, normalizeGate
+} from '../utils/gateConflicts';
+import {
+    buildGateRows, DEFAULT_TIMELINE_ZOOM_INDEX, getGateOccupancy, getTimelineDay, snapMinutes,
+    TIMELINE_SNAP_MINUTES, timelineZoomLevels
+} from '../utils/gateTimeline';
+import { visuallyHidden } from '../utils/visuallyHidden';
+import { ltrCache } from '../utils/emotionCaches';
+
+interface GateTimelineProps {
+    flights: IFlight[];
+    statusNow: number;
+    pendingActions: Record<string, PendingFlightAction>;
+    // Viewers can look, but not drag flights around.
+    canEdit: boolean;
+    onShowDetails: (flight: IFlight) => void;
+    onMoveFlight: (flight: IFlight, gate: string, departureTime: string) => void;
+}
+
+const LABEL_WIDTH = 80;
+const HEADER_HEIGHT = 32;
+const ROW_HEIGHT = 40;
+// Pointer travel before a press on a block counts as a drag rather than a click.
+const DRAG_THRESHOLD_PX = 4;
+
+interface IDragState {
+    flightId: string;
+    pointerId: number;
+    originX: number;
+    originY: number;
+    rowIndex: number;
+    targetRowIndex: number;
+    minutes: number;
+    moved: boolean;
+}
+
+interface IPendingMove {
+    flight: IFlight;
+    gate: string;
+    departureTime: string;
+    conflicts: IFlight[];
+}
+
+interface FlightBlockProps {
+    $status: FlightStatus;
+    $isConflict: boolean;
+    $isDragging: boolean;
+    $isPending: boolean;
+    $isDraggable: boolean;
+}
+
+const FlightBlock = styled.div<FlightBlockProps>`
+    position: absolute;
+    top: 6px;
+    height: ${ROW_HEIGHT - 12}px;
+    box-sizing: border-box;
+    display: flex;
+    align-items: center;
+    gap: 2px;
+    padding: 0 6px;
+    overflow: hidden;
+    white-space: nowrap;
+    text-overflow: ellipsis;
+    border-radius: 4px;
+    font-size: 0.75rem;
+    font-weight: 600;
+    user-select: none;
+    touch-action: none;
+    background-color: ${props => props.theme.palette.flightStatus[props.$status].background};
+    color: ${props => props.theme.palette.flightStatus[props.$status].text};
+    box-shadow: inset 0 0 0 1px ${props => props.theme.palette.divider};
+    cursor: ${props => (props.$isDraggable ? 'grab' : 'pointer')};
+
+    &:focus-visible {
+        outline: 2px solid ${props => props.theme.palette.primary.main};
+        outline-offset: 1px;
+    }
+
+    & svg {
+        width: 14px;
+        height: 14px;
+        flex-shrink: 0;
+    }
+
+    ${props => props.$isConflict && css`
+        box-shadow: inset 0 0 0 2px ${props.theme.palette.warning.main};
+    `}
+
+    ${props => props.$isDragging && css`
+        z-index: 3;
+        cursor: grabbing;
+        opacity: 0.85;
+        box-shadow: ${props.theme.shadows[6]};
+    `}
+
+    ${props => props.$isPending && css`
+        opacity: 0.5;
+        cursor: progress;
+    `}
+`;
+
+/** Scrolls so `minute` of the day sits at `fraction` of the visible track width. */
+const scrollToMinute = (container: HTMLElement, pixelsPerMinute: number, minute: number, fraction: number) => {
+    const visibleWidth = container.clientWidth - LABEL_WIDTH;
+    container.scrollLeft = Math.max(0, minute * pixelsPerMinute - visibleWidth * fraction);
+};
+
+/**
+ * One row per gate with each flight drawn over the time it holds the gate
+ * (the turnaround window before departure), for one day in the board's time
+ * zone. Operators can drag a block to another gate or time, or move it with
+ * Shift and the arrow keys.
+ */
+const GateTimelineComponent: React.FC<GateTimelineProps> = ({
+    flights,
+    statusNow,
+    pendingActions,
+    canEdit,
+    onShowDetails,
+    onMoveFlight
+}) => {
+    const now = useMinuteClock();
+    const theme = useTheme();
+    const { timeZone } = useDisplayTimeZone();
+    const { t, language } = useTranslation();
+    const gateConflicts = useGateConflictMap();
+    const [dayOffset, setDayOffset] = useState<number>(0);
+    const [zoomIndex, setZoomIndex] = useState<number>(DEFAULT_TIMELINE_ZOOM_INDEX);
+    const [drag, setDrag] = useState<IDragState | null>(null);
+    const [pendingMove, setPendingMove] = useState<IPendingMove | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    // Minute of the day to keep centred across a zoom change.
+    const zoomCenterRef = useRef<number | null>(null);
+
+    const day = useMemo(() => getTimelineDay(now, timeZone, dayOffset), [now, timeZone, dayOffset]);
+    const rows = useMemo(() => buildGateRows(flights, day), [flights, day]);
+    const pixelsPerMinute = timelineZoomLevels[zoomIndex];
+    const dayMinutes = (day.end - day.start) / 60_000;
+    const trackWidth = dayMinutes * pixelsPerMinute;
+    const turnaroundMinutes = getGateTurnaroundMinutes();
+    const dayjsLocale = languages[language].dayjsLocale;
+    const toX = (time: number) => ((time - day.start) / 60_000) * pixelsPerMinute;
+    const isNowVisible = now >= day.start && now < day.end;
+    // Fewer labels when zoomed out, so they don't overlap.
+    const hourStep = pixelsPerMinute < 1 ? 3 : 1;
+    const hourTicks = Array.from({ length: Math.ceil(dayMinutes / 60) }, (_, hour) => day.start + hour * 3_600_000);
+
+    const hasRows = rows.length > 0;
+
+    // A zoom keeps the centre in place; opening a day shows the current time on today, the morning on other days.
+    useLayoutEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        if (zoomCenterRef.current !== null) {
+            scrollToMinute(container, pixelsPerMinute, zoomCenterRef.current, 0.5);
+            zoomCenterRef.current = null;
+            return;
+        }
+        scrollToMinute(container, pixelsPerMinute, dayOffset === 0 ? (Date.now() - day.start) / 60_000 : 6 * 60, 0.25);
+    }, [dayOffset, day.start, pixelsPerMinute, hasRows]);
+
+    const changeZoom = (step: number) => {
+        const container = containerRef.current;
+        if (container) {
+            zoomCenterRef.current = (container.scrollLeft + (container.clientWidth - LABEL_WIDTH) / 2) / pixelsPerMinute;
+        }
+        setZoomIndex(current => Math.min(timelineZoomLevels.length - 1, Math.max(0, current + step)));
+    };
+
+    const showNow = () => {
+        if (dayOffset !== 0) {
+            setDayOffset(0);
+            return;
+        }
+        if (containerRef.current) {
+            scrollToMinute(containerRef.current, pixelsPerMinute, (Date.now() - day.start) / 60_000, 0.25);
+        }
+    };
+
+    const requestMove = (flight: IFlight, gate: string, minutes: number) => {
+        const isSameGate = normalizeGate(gate) === normalizeGate(flight.gate);
+        if (minutes === 0 && isSameGate) return;
+        // Keep the flight's own spelling when only the time changes.
+        const targetGate = isSameGate ? flight.gate : gate;
+        const departureTime = new Date(new Date(flight.departureTime).getTime() + minutes * 60_000).toISOString();
+        const conflicts = findGateConflicts(Object.values(flightStore.getState().byId), {
+            gate: targetGate,
+            departureTime,
+            excludeId: flight.id,
+        });
+        if (conflicts.length > 0) {
+            setPendingMove({ flight, gate: targetGate, departureTime, conflicts });
+        } else {
+            onMoveFlight(flight, targetGate, departureTime);
+        }
+    };
+
+    const handlePointerDown = (flight: IFlight, rowIndex: number) => (event: React.PointerEvent<HTMLDivElement>) => {
+        if (event.button !== 0) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        setDrag({
+            flightId: flight.id,
+            pointerId: event.pointerId,
+            originX: event.clientX,
+            originY: event.clientY,
+            rowIndex,
+            targetRowIndex: rowIndex,
+            minutes: 0,
+            moved: false,
+        });
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+        if (!drag || drag.pointerId !== event.pointerId || !canEdit || pendingActions[drag.flightId]) return;
+        const dx = event.clientX - drag.originX;
+        const dy = event.clientY - drag.originY;
+        const moved = drag.moved || Math.hypot(dx, dy) > DRAG_THRESHOLD_PX;
+        if (!moved) return;
+        setDrag({
+            ...drag,
+            moved,
+            minutes: snapMinutes(dx / pixelsPerMinute),
+            targetRowIndex: Math.min(rows.length - 1, Math.max(0, drag.rowIndex + Math.round(dy / ROW_HEIGHT))),
+        });
+    };
+
+    const handlePointerUp = (flight: IFlight) => (event: React.PointerEvent<HTMLDivElement>) => {
+        if (!drag || drag.pointerId !== event.pointerId) return;
+        setDrag(null);
+        if (!drag.moved) {
+            onShowDetails(flight);
+            return;
+        }
+        requestMove(flight, rows[drag.targetRowIndex]?.gate ?? flight.gate, drag.minutes);
+    };
+
+    const handleKeyDown = (flight: IFlight, rowIndex: number) => (event: React.KeyboardEvent<HTMLDivElement>) => {
+        if (event.key === 'Enter' || event.key === ' ') {
+            event.preventDefault();
+            onShowDetails(flight);
+            return;
+        }
+        if (!event.shiftKey || !canEdit || pendingActions[flight.id]) return;
+        const moves: Record<string, [number, number]> = {
+            ArrowLeft: [-TIMELINE_SNAP_MINUTES, 0],
+            ArrowRight: [TIMELINE_SNAP_MINUTES, 0],
+            ArrowUp: [0, -1],
+            ArrowDown: [0, 1],
+        };
+        const move = moves[event.key];
+        if (!move) return;
+        event.preventDefault();
+        const targetRow = rows[rowIndex + move[1]];
+        if (!targetRow) return;
+        requestMove(flight, targetRow.gate, move[0]);
+    };
+
+    const confirmPendingMove = () => {
+        if (!pendingMove) return;
+        onMoveFlight(pendingMove.flight, pendingMove.gate, pendingMove.departureTime);
+        setPendingMove(null);
+    };
+
+    return (
+        <Card variant="outlined" sx={{ mt: 3, mb: 3 }}>
+            <CardContent sx={{ padding: 0, '&:last-child': { paddingBottom: 0 } }}>
+                <Stack direction="row" alignItems="center" spacing={1} sx={{ px: 2, py: 1, borderBottom: 1, borderColor: 'divider' }}>
+                    <IconButton size="small" aria-label={t('timeline.previousDay')} onClick={() => setDayOffset(offset => offset - 1)}>
+                        <ChevronLeftIcon sx={{ transform: theme => theme.direction === 'rtl' ? 'scaleX(-1)' : undefined }} />
+                    </IconButton>
+                    <Typography component="h2" variant="subtitle1" sx={{ minWidth: 140, textAlign: 'center', fontWeight: 600 }}>
+                        {formatInTimeZone(new Date(day.start).toISOString(), timeZone, 'ddd, MMM D', dayjsLocale)}
+                    </Typography>
+                    <IconButton size="small" aria-label={t('timeline.nextDay')} onClick={() => setDayOffset(offset => offset + 1)}>
+                        <ChevronRightIcon sx={{ transform: theme => theme.direction === 'rtl' ? 'scaleX(-1)' : undefined }} />
+                    </IconButton>
+                    <Button size="small" startIcon={<TodayIcon />} onClick={showNow}>{t('timeline.now')}</Button>
+                    <Box sx={{ flexGrow: 1 }} />
+                    <IconButton size="small" aria-label={t('timeline.zoomOut')} onClick={() => changeZoom(-1)} disabled={zoomIndex === 0}>
+                        <ZoomOutIcon />
+                    </IconButton>
+                    <IconButton
+                        size="small"
+                        aria-label={t('timeline.zoomIn')}
+                        onClick={() => changeZoom(1)}
+                        disabled={zoomIndex === timelineZoomLevels.length - 1}
+                    >
+                        <ZoomInIcon />
+                    </IconButton>
+                </Stack>
+
+                {!hasRows ? (
+                    <Typography align="center" sx={{ my: 3 }}>{t('timeline.empty')}</Typography>
+                ) : (
+                    // Time runs left to right in both languages, like the printed schedules. The LTR cache and
+                    // theme keep the RTL stylis plugin from mirroring the `left` offsets that drag maths relies on.
+                    <CacheProvider value={ltrCache}>
+                        <ThemeProvider theme={(outer: Theme): Theme => ({ ...outer, direction: 'ltr' })}>
+                            <Box ref={containerRef} dir="ltr" sx={{ overflow: 'auto', maxHeight: '70vh', position: 'relative' }}>
+                                <Box id="gate-timeline-hint" sx={visuallyHidden}>
+                                    {t('timeline.keyboardHint', { minutes: TIMELINE_SNAP_MINUTES })}
+                                </Box>
+                                <Box sx={{ width: LABEL_WIDTH + trackWidth, position: 'relative' }} role="group" aria-label={t('timeline.label')}>
+                                    <Box sx={{ display: 'flex', position: 'sticky', top: 0, zIndex: 4, height: HEADER_HEIGHT, bgcolor: 'tableHeader' }}>
+                                        <Box sx={{
+                                            width: LABEL_WIDTH, flexShrink: 0, position: 'sticky', left: 0, zIndex: 1, px: 1,
+                                            display: 'flex', alignItems: 'center', fontWeight: 'bold', bgcolor: 'tableHeader',
+                                            borderBottom: 1, borderColor: 'divider',
+                                        }}>
+                                            {t('timeline.gate')}
+                                        </Box>
+                                        <Box sx={{ position: 'relative', width: trackWidth, borderBottom: 1, borderColor: 'divider' }} aria-hidden>
+                                            {hourTicks.map((tick, hour) => (
+                                                <Box
+                                                    key={tick}
+                                                    sx={{
+                                                        position: 'absolute', left: toX(tick), top: 0, bottom: 0, pl: 0.5,
+                                                        borderLeft: 1, borderColor: 'divider', fontSize: '0.75rem',
+                                                        color: 'text.secondary', lineHeight: `${HEADER_HEIGHT}px`,
+                                                    }}
+                                                >
+                                                    {hour % hourStep === 0 && formatInTimeZone(new Date(tick).toISOString(), timeZone, 'HH:mm')}
+                                                </Box>
+                                            ))}
+                                        </Box>
+                                    </Box>
+
+                                    {/* Clip blocks that run past midnight without creating a scroll container, so the labels stay sticky. */}
+                                    <Box sx={{ overflowX: 'clip', position: 'relative' }}>
+                                        {rows.map((row, rowIndex) => (
+                                            <Box key={row.key} sx={{ display: 'flex', height: ROW_HEIGHT }}>
+                                                <Box
+                                                    component="span"
+                                                    sx={{
+                                                        width: LABEL_WIDTH, flexShrink: 0, position: 'sticky', left: 0, zIndex: 2, px: 1,
+                                                        display: 'flex', alignItems: 'center', fontWeight: 600,
+                                                        bgcolor: 'background.paper', borderBottom: 1, borderRight: 1, borderColor: 'divider',
+                                                        ...(drag?.moved && drag.targetRowIndex === rowIndex && { bgcolor: 'action.selected' }),
+                                                    }}
+                                                >
+                                                    {row.gate}
+                                                </Box>
+                                                <Box sx={{ position: 'relative', width: trackWidth, borderBottom: 1, borderColor: 'divider' }}>
+                                                    {row.flights.map(flight => {
+                                                        const occupancy = getGateOccupancy(flight);
+                                                        const status = getDisplayStatus(flight, statusNow);
+                                                        const Icon = theme.statusIcons[status];
+                                                        const isDragging = drag?.flightId === flight.id && drag.moved;
+                                                        const isPending = pendingActions[flight.id] !== undefined;
+                                                        const conflicts = gateConflicts[flight.id];
+                                                        const label = t('timeline.block', {
+                                                            flightNumber: flight.flightNumber,
+                                                            destination: flight.destination,
+                                                            time: formatInTimeZone(flight.departureTime, timeZone, 'HH:mm'),
+                                                            status: t(`status.${status}`),
+                                                        });
+                                                        const conflictText = conflicts && t('gate.badgeDetails', {
+                                                            gate: flight.gate,
+                                                            minutes: turnaroundMinutes,
+                                                            flights: formatConflictingFlights(conflicts, timeZone, t),
+                                                        });
+                                                        return (
+                                                            <Tooltip
+                                                                key={flight.id}
+                                                                title={conflictText ? `${label}. ${conflictText}` : label}
+                                                                disableHoverListener={drag !== null}
+                                                            >
+                                                                <FlightBlock
+                                                                    role="button"
+                                                                    tabIndex={0}
+                                                                    aria-label={conflictText ? `${label}. ${conflictText}` : label}
+                                                                    aria-describedby="gate-timeline-hint"
+                                                                    aria-disabled={isPending || undefined}
+                                                                    $status={status}
+                                                                    $isConflict={!!conflicts}
+                                                                    $isDragging={isDragging}
+                                                                    $isPending={isPending}
+                                                                    $isDraggable={canEdit && !isPending}
+                                                                    style={{
+                                                                        left: toX(occupancy.start) + (isDragging ? drag.minutes * pixelsPerMinute : 0),
+                                                                        width: turnaroundMinutes * pixelsPerMinute,
+                                                                        transform: isDragging
+                                                                            ? `translateY(${(drag.targetRowIndex - drag.rowIndex) * ROW_HEIGHT}px)`
+                                                                            : undefined,
+                                                                    }}
+                                                                    onPointerDown={handlePointerDown(flight, rowIndex)}
+                                                                    onPointerMove={handlePointerMove}
+                                                                    onPointerUp={handlePointerUp(flight)}
+                                                                    onPointerCancel={() => setDrag(null)}
+                                                                    onKeyDown={handleKeyDown(flight, rowIndex)}
+                                                                >
+                                                                    {Icon && <Icon />}
+                                                                    {flight.flightNumber}
+                                                                </FlightBlock>
+                                                            </Tooltip>
+                                                        );
+                                                    })}
+                                                </Box>
+                                            </Box>
+                                        ))}
+                                    </Box>
+
+                                    {isNowVisible && (
+                                        <Box
+                                            aria-hidden
+                                            sx={{
+                                                position: 'absolute', top: 0, bottom: 0, left: LABEL_WIDTH + toX(now), width: 2,
+                                                bgcolor: 'error.main', zIndex: 1, pointerEvents: 'none',
+                                            }}
+                                        />
+                                    )}
+                                </Box>
+                            </Box>
+                        </ThemeProvider>
+                    </CacheProvider>
+                )}
+            </CardContent>
+
+            <Dialog open={pendingMove !== null} onClose={() => setPendingMove(null)} maxWidth="xs" fullWidth>
+                <DialogTitle>{t('timeline.moveConflictTitle', { flightNumber: pendingMove ? `#${pendingMove.flight.flightNumber}` : '' })}</DialogTitle>
+                <DialogContent>
+                    <DialogContentText>
+                        {pendingMove && t('gate.conflict', {
+                            gate: pendingMove.gate,
+                            minutes: turnaroundMinutes,
+                            flights: formatConflictingFlights(pendingMove.conflicts, timeZone, t),
+                        })}
+                    </DialogContentText>
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={() => setPendingMove(null)}>{t('common.cancel')}</Button>
+                    <Button variant="contained" color="warning" onClick={confirmPendingMove}>{t('gate.assignAnyway')}</Button>
+                </DialogActions>
+            </Dialog>
+        </Card>
+    );
+};
+
+export default React.memo(GateTimelineComponent);
@@ -0,0 +1,309 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import styled, { createGlobalStyle, keyframes } from 'styled-components';
+import dayjs from 'dayjs';
+import { IFlight, IFlightFilters } from '../types/flight';
+import { useFlightsData } from '../hooks/useFlightsData';
+import { useLiveFlightFeed } from '../hooks/useLiveFlightFeed';
+import { useConnectionStatus } from '../hooks/useConnectionStatus';
+import { ConnectionStatus } from '../services/signalrService';
+import { getDisplayStatus } from '../utils/statusCalculator';
+import { matchesFlightFilters } from '../utils/flightFilters';
+import { IKioskConfig, KioskTheme, parseKioskConfig } from '../utils/kioskConfig';
+import { statusPalettes } from '../utils/appTheme';
+import SplitFlapText from './SplitFlapText';
+import { getAirportTimeZone } from '../utils/timeZone';
+import { setKioskToken } from '../services/authService';
+import { useTranslation } from '../hooks/useTranslation';
+import { MessageKey } from '../i18n';
+
+interface KioskPalette {
+  background: string;
+  header: string;
+  rowAlt: string;
+  text: string;
+  muted: string;
+  accent: string;
+}
+
+const palettes: Record<KioskTheme, KioskPalette> = {
+  dark: { background: '#0b0f19', header: '#1f2937', rowAlt: '#111827', text: '#f9fafb', muted: '#9ca3af', accent: '#ffc107' },
+  light: { background: '#ffffff', header: '#e5e7eb', rowAlt: '#f3f4f6', text: '#111827', muted: '#4b5563', accent: '#0d47a1' },
+};
+
+// The kiosk always loads the whole board; shown statuses are applied client-side
+// because computed statuses change over time without a refetch.
+const ALL_FLIGHTS: IFlightFilters = {};
+
+const KioskGlobalStyle = createGlobalStyle<{ $palette: KioskPalette }>`
+  body {
+    background-color: ${props => props.$palette.background};
+    overflow: hidden;
+    cursor: none;
+  }
+`;
+
+const Screen = styled.div<{ $palette: KioskPalette }>`
+  display: flex;
+  flex-direction: column;
+  height: 100vh;
+  color: ${props => props.$palette.text};
+  background-color: ${props => props.$palette.background};
+  font-family: 'Roboto Mono', 'Consolas', monospace;
+`;
+
+const Header = styled.header<{ $palette: KioskPalette }>`
+  display: flex;
+  align-items: baseline;
+  justify-content: space-between;
+  padding: 1.5vh 2vw;
+  background-color: ${props => props.$palette.header};
+
+  h1 {
+    margin: 0;
+    font-size: 5vh;
+    letter-spacing: 0.1em;
+    color: ${props => props.$palette.accent};
+  }
+`;
+
+const Clock = styled.div`
+  font-size: 5vh;
+  font-variant-numeric: tabular-nums;
+
+  small {
+    font-size: 2.4vh;
+    margin-inline-start: 1vw;
+    opacity: 0.75;
+  }
+`;
+
+const Board = styled.div<{ $rows: number; $palette: KioskPalette }>`
+  flex: 1;
+  display: grid;
+  grid-template-columns: 1.1fr 1.4fr 3fr 1fr 2fr;
+  grid-template-rows: auto repeat(${props => props.$rows}, 1fr);
+  font-size: ${props => `min(${Math.round(60 / props.$rows * 10) / 10}vh, 3.4vw)`};
+  perspective: 600px;
+
+  > div {
+    display: flex;
+    align-items: center;
+    padding: 0 1vw;
+    overflow: hidden;
+    white-space: nowrap;
+  }
+
+  .head {
+    font-size: 2.2vh;
+    text-transform: uppercase;
+    letter-spacing: 0.08em;
+    color: ${props => props.$palette.muted};
+    padding-top: 1vh;
+    padding-bottom: 1vh;
+  }
+
+  .alt {
+    background-color: ${props => props.$palette.rowAlt};
+  }
+`;
+
+const SetupNotice = styled.div<{ $palette: KioskPalette }>`
+  flex: 1;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  justify-content: center;
+  gap: 2vh;
+  padding: 0 6vw;
+  text-align: center;
+  font-size: 3.4vh;
+
+  small {
+    font-size: 2.4vh;
+    color: ${props => props.$palette.muted};
+  }
+`;
+
+const StatusText = styled.span<{ $background: string; $color: string }>`
+  padding: 0.1em 0.4em;
+  border-radius: 0.2em;
+  background-color: ${props => props.$background};
+  color: ${props => props.$color};
+`;
+
+const Footer = styled.footer<{ $palette: KioskPalette }>`
+  display: flex;
+  align-items: center;
+  gap: 2vw;
+  padding: 1vh 2vw;
+  font-size: 2.4vh;
+  background-color: ${props => props.$palette.header};
+  color: ${props => props.$palette.muted};
+  min-height: 5vh;
+`;
+
+const tickerScroll = keyframes`
+  from { transform: translateX(0); }
+  to { transform: translateX(-50%); }
+`;
+
+const Ticker = styled.div<{ $palette: KioskPalette; $durationSeconds: number }>`
+  flex: 1;
+  overflow: hidden;
+  white-space: nowrap;
+  color: ${props => props.$palette.accent};
+
+  span {
+    display: inline-block;
+    padding-right: 4vw;
+    animation: ${tickerScroll} ${props => props.$durationSeconds}s linear infinite;
+
+    @media (prefers-reduced-motion: reduce) {
+      animation: none;
+    }
+  }
+`;
+
+const connectionLabels: Record<ConnectionStatus, MessageKey | null> = {
+  connecting: 'connection.connecting',
+  live: null,
+  reconnecting: 'connection.reconnecting',
+  offline: 'kiosk.offline',
+};
+
+// A public display always shows the airport's own clock, wherever the browser thinks it is.
+const airportNow = () => dayjs().tz(getAirportTimeZone());
+
+const KioskClock: React.FC = () => {
+  const [now, setNow] = useState(airportNow);
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(airportNow()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  return (
+    <Clock>
+      {now.format('HH:mm:ss')}
+      <small>{now.format('ddd D MMM')}</small>
+    </Clock>
+  );
+};
+
+const DelayedFlightsTicker: React.FC<{ flights: IFlight[]; palette: KioskPalette }> = ({ flights, palette }) => {
+  const { t } = useTranslation();
+  if (flights.length === 0) {
+    return <div style={{ flex: 1 }} />;
+  }
+  const text = flights
+    .map(f => t('kiosk.delayedFlight', {
+      flightNumber: f.flightNumber,
+      destination: f.destination.toUpperCase(),
+      time: dayjs(f.departureTime).tz(getAirportTimeZone()).format('HH:mm'),
+      gate: f.gate,
+    }))
+    .join('  •  ');
+  const message = `${t('kiosk.delayed')}:  ${text}  •  `;
+  // Keep a constant reading speed regardless of how many flights are delayed.
+  const durationSeconds = Math.max(15, message.length * 0.25);
+
+  return (
+    <Ticker $palette={palette} $durationSeconds={durationSeconds} aria-live="off">
+      <span>{message}{message}</span>
+    </Ticker>
+  );
+};
+
+const KioskBoard: React.FC<{ config?: IKioskConfig }> = ({ config: configProp }) => {
+  const config = useMemo(() => configProp ?? parseKioskConfig(window.location.search), [configProp]);
+  const palette = palettes[config.theme];
+  const { t } = useTranslation();
+
+  // Declared before the data hooks so the token is in place for their first request and hub handshake.
+  useEffect(() => {
+    setKioskToken(config.token);
+    return () => setKioskToken(undefined);
+  }, [config.token]);
+
+  const { flights, loading, error, errorKey, refetchFlights, statusNow } = useFlightsData(ALL_FLIGHTS);
+  // No sign-in in this browser and no valid kiosk token: explain the setup instead of an empty board.
+  const isUnauthorized = !loading && errorKey === 'flights.unauthorized';
+  useLiveFlightFeed(() => refetchFlights({ background: true }));
+  const connectionStatus = useConnectionStatus();
+  const connectionLabel = connectionLabels[connectionStatus];
+
+  const shownFlights = useMemo(
+    () => flights.filter(f => matchesFlightFilters(f, { statuses: config.statuses }, statusNow)),
+    [flights, config.statuses, statusNow]
+  );
+  const delayedFlights = useMemo(
+    () => flights.filter(f => getDisplayStatus(f, statusNow) === 'Delayed'),
+    [flights, statusNow]
+  );
+
+  const pageCount = Math.max(1, Math.ceil(shownFlights.length / config.pageSize));
+  const [pageIndex, setPageIndex] = useState<number>(0);
+
+  useEffect(() => {
+    if (pageCount <= 1) return;
+    const intervalId = setInterval(() => setPageIndex(index => (index + 1) % pageCount), config.pageIntervalSeconds * 1000);
+    return () => clearInterval(intervalId);
+  }, [pageCount, config.pageIntervalSeconds]);
+
+  const currentPage = pageIndex % pageCount;
+  const pageFlights = shownFlights.slice(currentPage * config.pageSize, (currentPage + 1) * config.pageSize);
+
+  return (
+    <Screen $palette={palette}>
+      <KioskGlobalStyle $palette={palette} />
+      <Header $palette={palette}>
+        <h1>{t('kiosk.title')}</h1>
+        <KioskClock />
+      </Header>
+
+      {isUnauthorized ? (
+        <SetupNotice $palette={palette} role="alert">
+          {t('kiosk.unauthorized')}
+          <small>{t('kiosk.unauthorizedHint')}</small>
+        </SetupNotice>
+      ) : (
+        <Board $rows={config.pageSize} $palette={palette} role="table" aria-label={t('kiosk.label')}>
+          <div className="head" role="columnheader">{t('kiosk.time')}</div>
+          <div className="head" role="columnheader">{t('kiosk.flight')}</div>
+          <div className="head" role="columnheader">{t('table.destination')}</div>
+          <div className="head" role="columnheader">{t('table.gate')}</div>
+          <div className="head" role="columnheader">{t('table.status')}</div>
+
+          {pageFlights.map((flight, index) => {
+            const status = getDisplayStatus(flight, statusNow);
+            const colors = statusPalettes[config.theme][status];
+            const rowClass = index % 2 === 1 ? 'alt' : undefined;
+            return (
+              <React.Fragment key={flight.id}>
+                <div className={rowClass}>{dayjs(flight.departureTime).tz(getAirportTimeZone()).format('HH:mm')}</div>
+                <div className={rowClass}>{flight.flightNumber}</div>
+                <div className={rowClass}>{flight.destination.toUpperCase()}</div>
+                <div className={rowClass}><SplitFlapText value={flight.gate} minLength={4} /></div>
+                <div className={rowClass}>
+                  <StatusText $background={colors.background} $color={colors.text}>
+                    <SplitFlapText value={t(`status.${status}`)} minLength={9} />
+                  </StatusText>
+                </div>
+              </React.Fragment>
+            );
+          })}
+        </Board>
+      )}
+
+      <Footer $palette={palette}>
+        <DelayedFlightsTicker flights={delayedFlights} palette={palette} />
+        {loading && <span>{t('kiosk.loading')}</span>}
+        {!loading && error && !isUnauthorized && <span>{error}</span>}
+        {connectionLabel && <span>{t(connectionLabel)}</span>}
+        {pageCount > 1 && <span>{t('kiosk.page', { page: currentPage + 1, count: pageCount })}</span>}
+      </Footer>
+    </Screen>
+  );
+};
+
+export default KioskBoard;
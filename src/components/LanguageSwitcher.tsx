@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import { Button, Menu, MenuItem } from '@mui/material';
+import TranslateIcon from '@mui/icons-material/Translate';
+import { useTranslation } from '../hooks/useTranslation';
+import { Language, languages } from '../i18n';
+
+const LanguageSwitcherComponent: React.FC<{ color?: 'inherit' | 'primary' }> = ({ color = 'inherit' }) => {
+    const { t, language, setLanguage } = useTranslation();
+    const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+    const handleSelect = (next: Language) => {
+        setAnchorEl(null);
+        setLanguage(next);
+    };
+
+    return (
+        <>
+            <Button
+                color={color}
+                size="small"
+                startIcon={<TranslateIcon />}
+                onClick={(e) => setAnchorEl(e.currentTarget)}
+                aria-haspopup="menu"
+                aria-label={t('app.language')}
+            >
+                {languages[language].label}
+            </Button>
+            <Menu anchorEl={anchorEl} open={anchorEl !== null} onClose={() => setAnchorEl(null)}>
+                {(Object.keys(languages) as Language[]).map(code => (
+                    <MenuItem key={code} lang={code} selected={code === language} onClick={() => handleSelect(code)}>
+                        {languages[code].label}
+                    </MenuItem>
+                ))}
+            </Menu>
+        </>
+    );
+};
+
+export default React.memo(LanguageSwitcherComponent);
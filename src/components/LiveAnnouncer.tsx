@@ -0,0 +1,24 @@
+import React from 'react';
+import { Box } from '@mui/material';
+import { useAnnouncement } from '../hooks/useAnnouncement';
+import { useTranslation } from '../hooks/useTranslation';
+import { visuallyHidden } from '../utils/visuallyHidden';
+
+/** Polite live region that reads queued board announcements to screen-reader users. */
+const LiveAnnouncerComponent: React.FC = () => {
+    const announcement = useAnnouncement();
+    const { t } = useTranslation();
+
+    return (
+        <Box role="status" aria-live="polite" aria-atomic="true" sx={visuallyHidden}>
+            {announcement && (
+                <span key={announcement.id}>
+                    {announcement.messages.join(' ')}
+                    {announcement.overflow > 0 && ` ${t('announce.more', { count: announcement.overflow })}`}
+                </span>
+            )}
+        </Box>
+    );
+};
+
+export default React.memo(LiveAnnouncerComponent);
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import {
+  Box, Card, CardContent, TextField, Button, Typography, Alert, CircularProgress
+} from '@mui/material';
+import FlightTakeoffIcon from '@mui/icons-material/FlightTakeoff';
+import { login } from '../services/authService';
+import { useTranslation } from '../hooks/useTranslation';
+import LanguageSwitcher from './LanguageSwitcher';
+import ThemeToggle from './ThemeToggle';
+
+interface LoginPageProps {
+  sessionExpired?: boolean;
+}
+
+const LoginPage: React.FC<LoginPageProps> = ({ sessionExpired = false }) => {
+  const [username, setUsername] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const { t } = useTranslation();
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setErrorMessage(null);
+    try {
+      await login({ username: username.trim(), password });
+    } catch (error: unknown) {
+      let userMessage = t('login.failed');
+      if (axios.isAxiosError(error)) {
+        if (error.response) {
+          const status = error.response.status;
+          if (status === 400 || status === 401) userMessage = t('login.invalidCredentials');
+          else if (status === 403) userMessage = t('login.forbidden');
+          else if (status === 429) userMessage = t('login.tooManyAttempts');
+          else if (status >= 500) userMessage = t('login.serverError');
+        } else if (error.request) {
+          userMessage = t('error.network');
+        }
+      }
+      setErrorMessage(userMessage);
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Box display="flex" alignItems="center" justifyContent="center" minHeight="100vh" sx={{ backgroundColor: 'action.hover' }}>
+      <Card sx={{ width: '100%', maxWidth: 380 }}>
+        <CardContent component="form" onSubmit={handleSubmit} noValidate sx={{ p: 4 }}>
+          <Box display="flex" alignItems="center" gap={1} mb={3}>
+            <FlightTakeoffIcon color="primary" />
+            <Typography variant="h5" component="h1" sx={{ flexGrow: 1 }}>{t('app.title')}</Typography>
+            <ThemeToggle color="primary" />
+            <LanguageSwitcher color="primary" />
+          </Box>
+
+          {sessionExpired && !errorMessage && (
+            <Alert severity="info" sx={{ mb: 2 }}>{t('login.sessionExpired')}</Alert>
+          )}
+          {errorMessage && <Alert severity="error" sx={{ mb: 2 }}>{errorMessage}</Alert>}
+
+          <TextField
+            fullWidth
+            required
+            autoFocus
+            margin="normal"
+            label={t('login.username')}
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            disabled={isSubmitting}
+          />
+          <TextField
+            fullWidth
+            required
+            margin="normal"
+            type="password"
+            label={t('login.password')}
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            disabled={isSubmitting}
+          />
+          <Button
+            fullWidth
+            type="submit"
+            variant="contained"
+            sx={{ mt: 2, height: '40px' }}
+            disabled={isSubmitting || !username.trim() || !password}
+          >
+            {isSubmitting ? <CircularProgress size={24} color="inherit" /> : t('login.submit')}
+          </Button>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default LoginPage;
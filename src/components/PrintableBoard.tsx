@@ -0,0 +1,106 @@
+import React from 'react';
+import styled from 'styled-components';
+import { IFlight, IFlightFilters } from '../types/flight';
+import { describeFlightFilters, toExportedFlights } from '../utils/flightExport';
+import { formatInTimeZone, getTimeZoneAbbreviation } from '../utils/timeZone';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface PrintableBoardProps {
+  flights: IFlight[];
+  filters: IFlightFilters;
+  statusNow: number;
+}
+
+// Plain black-on-white table: the on-screen table is virtualized and styled for monitors, not paper.
+const PrintRoot = styled.section`
+  font-family: Arial, Helvetica, sans-serif;
+  color: #000;
+
+  h1 {
+    font-size: 20pt;
+    margin: 0 0 4pt;
+  }
+
+  p {
+    font-size: 10pt;
+    margin: 0 0 10pt;
+  }
+
+  table {
+    width: 100%;
+    border-collapse: collapse;
+    font-size: 13pt;
+  }
+
+  thead {
+    display: table-header-group;
+  }
+
+  th, td {
+    border-bottom: 1px solid #000;
+    padding: 5pt 6pt;
+    text-align: start;
+  }
+
+  th {
+    border-bottom-width: 2px;
+    font-size: 10pt;
+    text-transform: uppercase;
+  }
+
+  tr {
+    break-inside: avoid;
+  }
+
+  .flight, .gate {
+    font-weight: bold;
+  }
+
+  .manual {
+    font-style: italic;
+  }
+`;
+
+const PrintableBoardComponent: React.FC<PrintableBoardProps> = ({ flights, filters, statusNow }) => {
+  const rows = toExportedFlights(flights, statusNow);
+  const { timeZone } = useDisplayTimeZone();
+  const { t } = useTranslation();
+
+  return (
+    <PrintRoot className="print-only">
+      <h1>{t('print.title')}</h1>
+      <p>
+        {t('print.summary', {
+          filters: describeFlightFilters(filters, timeZone, t),
+          count: rows.length,
+          printedAt: formatInTimeZone(new Date().toISOString(), timeZone, 'YYYY-MM-DD HH:mm'),
+        })}
+      </p>
+      <table>
+        <thead>
+          <tr>
+            <th>{t('print.time', { zone: getTimeZoneAbbreviation(timeZone, statusNow) })}</th>
+            <th>{t('print.flight')}</th>
+            <th>{t('table.destination')}</th>
+            <th>{t('table.gate')}</th>
+            <th>{t('table.status')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={`${row.flightNumber}-${index}`}>
+              <td>{formatInTimeZone(row.departureTime, timeZone, 'HH:mm')}<br /><small>{formatInTimeZone(row.departureTime, timeZone, 'ddd D MMM')}</small></td>
+              <td className="flight">{row.flightNumber}</td>
+              <td>{row.destination}</td>
+              <td className="gate">{row.gate}</td>
+              <td className={row.isStatusManual ? 'manual' : undefined}>{t(`status.${row.status}`)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </PrintRoot>
+  );
+};
+
+export default React.memo(PrintableBoardComponent);
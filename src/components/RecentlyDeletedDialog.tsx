@@ -0,0 +1,85 @@
+import React from 'react';
+import {
+    Dialog, DialogTitle, DialogContent, DialogActions, Button, List, ListItem, ListItemText,
+    Typography, FormControlLabel, Switch, CircularProgress, Box
+} from '@mui/material';
+import RestoreIcon from '@mui/icons-material/Restore';
+import { IDeletedFlight } from '../services/recentlyDeletedStorage';
+import { useRecentlyDeleted } from '../hooks/useRecentlyDeleted';
+import { usePreferences } from '../hooks/usePreferences';
+import { useTranslation } from '../hooks/useTranslation';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+import { formatInTimeZone } from '../utils/timeZone';
+
+interface RecentlyDeletedDialogProps {
+    open: boolean;
+    restoringIds: ReadonlySet<string>;
+    onClose: () => void;
+    onRestore: (entry: IDeletedFlight) => void;
+}
+
+const RecentlyDeletedDialogComponent: React.FC<RecentlyDeletedDialogProps> = ({ open, restoringIds, onClose, onRestore }) => {
+    const deletedFlights = useRecentlyDeleted();
+    const [preferences, updatePreferences] = usePreferences();
+    const { t } = useTranslation();
+    const { timeZone } = useDisplayTimeZone();
+
+    return (
+        <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+            <DialogTitle>{t('recentlyDeleted.title')}</DialogTitle>
+            <DialogContent dividers>
+                {deletedFlights.length === 0 ? (
+                    <Typography color="text.secondary">{t('recentlyDeleted.empty')}</Typography>
+                ) : (
+                    <List dense disablePadding>
+                        {deletedFlights.map(entry => {
+                            const { flight } = entry;
+                            const isRestoring = restoringIds.has(flight.id);
+                            return (
+                                <ListItem
+                                    key={flight.id}
+                                    disableGutters
+                                    secondaryAction={
+                                        <Button
+                                            size="small"
+                                            startIcon={isRestoring ? <CircularProgress size={16} color="inherit" /> : <RestoreIcon />}
+                                            onClick={() => onRestore(entry)}
+                                            disabled={isRestoring}
+                                        >
+                                            {t('recentlyDeleted.restore')}
+                                        </Button>
+                                    }
+                                >
+                                    <ListItemText
+                                        primary={t('recentlyDeleted.flight', { flightNumber: flight.flightNumber, destination: flight.destination, gate: flight.gate })}
+                                        secondary={t(entry.deletedBy ? 'recentlyDeleted.detailsBy' : 'recentlyDeleted.details', {
+                                            departure: formatInTimeZone(flight.departureTime, timeZone, 'D MMM HH:mm'),
+                                            deletedAt: formatInTimeZone(entry.deletedAt, timeZone, 'HH:mm'),
+                                            user: entry.deletedBy ?? '',
+                                        })}
+                                    />
+                                </ListItem>
+                            );
+                        })}
+                    </List>
+                )}
+            </DialogContent>
+            <DialogActions sx={{ justifyContent: 'space-between' }}>
+                <Box sx={{ pl: 1 }}>
+                    <FormControlLabel
+                        control={
+                            <Switch
+                                checked={preferences.confirmDeletes}
+                                onChange={(e) => updatePreferences({ confirmDeletes: e.target.checked })}
+                            />
+                        }
+                        label={t('recentlyDeleted.askBeforeDeleting')}
+                    />
+                </Box>
+                <Button onClick={onClose}>{t('common.close')}</Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default React.memo(RecentlyDeletedDialogComponent);
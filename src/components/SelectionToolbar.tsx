@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import {
+    Toolbar, Typography, Button, Box, LinearProgress, Alert, AlertTitle,
+    Dialog, DialogTitle, DialogContent, DialogContentText, DialogActions, TextField
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import MeetingRoomIcon from '@mui/icons-material/MeetingRoom';
+import ClearIcon from '@mui/icons-material/Clear';
+import { addFlightSchema } from '../utils/flightValidation';
+import { useTranslation } from '../hooks/useTranslation';
+import { translateMessage } from '../i18n';
+
+export type BulkAction = 'delete' | 'reassignGate';
+
+export interface IBulkProgress {
+    action: BulkAction;
+    completed: number;
+    total: number;
+}
+
+export interface IBulkResult {
+    action: BulkAction;
+    succeeded: number;
+    failures: { flightId: string; flightNumber: string; message: string }[];
+}
+
+interface SelectionToolbarProps {
+    selectedCount: number;
+    progress: IBulkProgress | null;
+    result: IBulkResult | null;
+    onDelete: () => void;
+    onReassignGate: (gate: string) => void;
+    onClearSelection: () => void;
+    onDismissResult: () => void;
+}
+
+const SelectionToolbarComponent: React.FC<SelectionToolbarProps> = ({
+    selectedCount,
+    progress,
+    result,
+    onDelete,
+    onReassignGate,
+    onClearSelection,
+    onDismissResult
+}) => {
+    const [isConfirmingDelete, setIsConfirmingDelete] = useState<boolean>(false);
+    const [isGateDialogOpen, setIsGateDialogOpen] = useState<boolean>(false);
+    const [gate, setGate] = useState<string>('');
+    const [gateError, setGateError] = useState<string | null>(null);
+    const { t } = useTranslation();
+
+    useEffect(() => {
+        if (isGateDialogOpen) {
+            setGate('');
+            setGateError(null);
+        }
+    }, [isGateDialogOpen]);
+
+    const isRunning = progress !== null;
+
+    const handleConfirmDelete = () => {
+        setIsConfirmingDelete(false);
+        onDelete();
+    };
+
+    const handleSubmitGate = (event: React.FormEvent) => {
+        event.preventDefault();
+        const parsed = addFlightSchema.shape.gate.safeParse(gate.trim());
+        if (!parsed.success) {
+            const message = parsed.error.issues[0]?.message;
+            setGateError(message ? translateMessage(t, message) : t('selection.invalidGate'));
+            return;
+        }
+        setIsGateDialogOpen(false);
+        onReassignGate(parsed.data);
+    };
+
+    return (
+        <Box sx={{ mb: 1 }}>
+            {(selectedCount > 0 || isRunning) && (
+                <Toolbar
+                    variant="dense"
+                    sx={{ bgcolor: 'action.selected', borderRadius: 1, gap: 1, flexWrap: 'wrap' }}
+                >
+                    <Typography sx={{ flex: '1 1 auto' }} variant="subtitle1" component="div">
+                        {isRunning
+                            ? t(`selection.running.${progress.action}`, { count: progress.total, completed: progress.completed })
+                            : t('selection.count', { count: selectedCount })}
+                    </Typography>
+                    <Button
+                        size="small"
+                        startIcon={<MeetingRoomIcon />}
+                        onClick={() => setIsGateDialogOpen(true)}
+                        disabled={isRunning}
+                    >
+                        {t('selection.reassignGate')}
+                    </Button>
+                    <Button
+                        size="small"
+                        color="error"
+                        startIcon={<DeleteIcon />}
+                        onClick={() => setIsConfirmingDelete(true)}
+                        disabled={isRunning}
+                    >
+                        {t('common.delete')}
+                    </Button>
+                    <Button size="small" startIcon={<ClearIcon />} onClick={onClearSelection} disabled={isRunning}>
+                        {t('common.clear')}
+                    </Button>
+                </Toolbar>
+            )}
+            {isRunning && (
+                <LinearProgress
+                    variant="determinate"
+                    value={progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}
+                    aria-label={t('selection.progress')}
+                />
+            )}
+
+            {result && !isRunning && (
+                <Alert
+                    severity={result.failures.length === 0 ? 'success' : result.succeeded > 0 ? 'warning' : 'error'}
+                    onClose={onDismissResult}
+                    sx={{ mt: 1 }}
+                >
+                    <AlertTitle>
+                        {t(`selection.done.${result.action}`, { count: result.succeeded })}
+                        {result.failures.length > 0 && t('selection.failed', { count: result.failures.length })}
+                    </AlertTitle>
+                    {result.failures.length > 0 && (
+                        <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                            {result.failures.map(failure => (
+                                <li key={failure.flightId}>#{failure.flightNumber}: {failure.message}</li>
+                            ))}
+                        </Box>
+                    )}
+                </Alert>
+            )}
+
+            <Dialog open={isConfirmingDelete} onClose={() => setIsConfirmingDelete(false)} maxWidth="xs" fullWidth>
+                <DialogTitle>{t('selection.confirmDelete.title', { count: selectedCount })}</DialogTitle>
+                <DialogContent>
+                    <DialogContentText>
+                        {t('selection.confirmDelete.text')}
+                    </DialogContentText>
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={() => setIsConfirmingDelete(false)}>{t('common.cancel')}</Button>
+                    <Button color="error" variant="contained" onClick={handleConfirmDelete} autoFocus>
+                        {t('common.delete')}
+                    </Button>
+                </DialogActions>
+            </Dialog>
+
+            <Dialog open={isGateDialogOpen} onClose={() => setIsGateDialogOpen(false)} maxWidth="xs" fullWidth>
+                <Box component="form" onSubmit={handleSubmitGate} noValidate>
+                    <DialogTitle>{t('selection.reassignGate')}</DialogTitle>
+                    <DialogContent>
+                        <DialogContentText sx={{ mb: 2 }}>
+                            {t('selection.gateDialog.text', { count: selectedCount })}
+                        </DialogContentText>
+                        <TextField
+                            autoFocus
+                            required
+                            fullWidth
+                            size="small"
+                            label={t('form.gate')}
+                            value={gate}
+                            onChange={(e) => { setGate(e.target.value); setGateError(null); }}
+                            error={gateError !== null}
+                            helperText={gateError}
+                        />
+                    </DialogContent>
+                    <DialogActions>
+                        <Button onClick={() => setIsGateDialogOpen(false)}>{t('common.cancel')}</Button>
+                        <Button type="submit" variant="contained">{t('selection.gateDialog.submit')}</Button>
+                    </DialogActions>
+                </Box>
+            </Dialog>
+        </Box>
+    );
+};
+
+export default React.memo(SelectionToolbarComponent);
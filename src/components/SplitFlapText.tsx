@@ -0,0 +1,63 @@
+import React from 'react';
+import styled, { keyframes } from 'styled-components';
+
+interface SplitFlapTextProps {
+  value: string;
+  // Pads the value so columns keep their width while characters flip.
+  minLength?: number;
+}
+
+const flip = keyframes`
+  0% {
+    transform: rotateX(0deg);
+    filter: brightness(1);
+  }
+  45% {
+    transform: rotateX(90deg);
+    filter: brightness(0.4);
+  }
+  55% {
+    transform: rotateX(-90deg);
+    filter: brightness(0.4);
+  }
+  100% {
+    transform: rotateX(0deg);
+    filter: brightness(1);
+  }
+`;
+
+const Flap = styled.span<{ $delayMs: number }>`
+  display: inline-block;
+  min-width: 0.62em;
+  text-align: center;
+  white-space: pre;
+  transform-origin: 50% 50%;
+  backface-visibility: hidden;
+  animation: ${flip} 0.5s ease-in-out both;
+  animation-delay: ${props => props.$delayMs}ms;
+
+  @media (prefers-reduced-motion: reduce) {
+    animation: none;
+  }
+`;
+
+/**
+ * Departure-board style text: each character that changes flips into place,
+ * staggered left to right. Unchanged characters keep their React key, so
+ * they stay still.
+ */
+const SplitFlapTextComponent: React.FC<SplitFlapTextProps> = ({ value, minLength = 0 }) => {
+  const characters = Array.from(value.toUpperCase().padEnd(minLength, ' '));
+
+  return (
+    <span aria-label={value} role="text">
+      {characters.map((char, index) => (
+        <Flap key={`${index}-${char}`} $delayMs={index * 35} aria-hidden="true">
+          {char}
+        </Flap>
+      ))}
+    </span>
+  );
+};
+
+export default React.memo(SplitFlapTextComponent);
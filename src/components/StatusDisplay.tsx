@@ -1,68 +1,114 @@
-import React, { JSX } from 'react';
-import styled from 'styled-components';
-import { Chip } from '@mui/material';
-import AccessTimeIcon from '@mui/icons-material/AccessTime';
-import FlightTakeoffIcon from '@mui/icons-material/FlightTakeoff';
-import FlightLandIcon from '@mui/icons-material/FlightLand';
-import ConnectingAirportsIcon from '@mui/icons-material/ConnectingAirports';
-import WarningAmberIcon from '@mui/icons-material/WarningAmber';
+import React, { useState } from 'react';
+import styled, { css } from 'styled-components';
+import { Chip, Menu, MenuItem, ListItemIcon, ListItemText, Divider, Tooltip } from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import PushPinIcon from '@mui/icons-material/PushPin';
+import RestartAltIcon from '@mui/icons-material/RestartAlt';
 import { FlightStatus } from '../types/flight';
+import { validStatusOptions } from '../utils/constants';
+import { useTranslation } from '../hooks/useTranslation';
 
 interface StatusDisplayProps {
     displayStatus: FlightStatus;
+    isManual?: boolean;
+    // When provided, the chip opens a picker to set or clear an operator override.
+    onStatusChange?: (status: FlightStatus | null) => void;
+    disabled?: boolean;
+    // Lets a table row take the chip out of the tab order (roving tabindex).
+    tabIndex?: number;
 }
 
-const getStatusColors = (status: FlightStatus): { backgroundColor: string; color: string; } => {
-    switch (status) {
-        case "Scheduled": return { backgroundColor: '#e0e0e0', color: '#616161' };
-        case "Boarding": return { backgroundColor: '#64b5f6', color: '#ffffff' };
-        case "Departed": return { backgroundColor: '#81c784', color: '#ffffff' };
-        case "Landed": return { backgroundColor: '#ba68c8', color: '#ffffff' };
-        case "Delayed": return { backgroundColor: '#ffb74d', color: '#ffffff' };
-        default: return { backgroundColor: '#f5f5f5', color: '#bdbdbd' };
-    }
-};
-const getStatusIcon = (status: FlightStatus): JSX.Element | null => {
-    const iconStyle = { fontSize: '1rem', marginRight: '4px', paddingRight: '2px', verticalAlign: 'middle' };
-    switch (status) {
-        case "Scheduled": return <AccessTimeIcon sx={iconStyle} />;
-        case "Boarding": return <ConnectingAirportsIcon sx={iconStyle} />;
-        case "Departed": return <FlightTakeoffIcon sx={iconStyle} />;
-        case "Landed": return <FlightLandIcon sx={iconStyle} />;
-        case "Delayed": return <WarningAmberIcon sx={iconStyle} />;
-        default: return null;
-    }
-};
-
 interface StatusChipProps {
     $flightStatus: FlightStatus;
+    $isManual?: boolean;
 }
 
 const StatusChip = styled(Chip) <StatusChipProps>`
-    background-color: ${props => getStatusColors(props.$flightStatus).backgroundColor};
-    color: ${props => getStatusColors(props.$flightStatus).color};
+    background-color: ${props => props.theme.palette.flightStatus[props.$flightStatus].background};
+    color: ${props => props.theme.palette.flightStatus[props.$flightStatus].text};
     font-weight: ${props => (props.$flightStatus === 'Boarding' || props.$flightStatus === 'Delayed' ? 'bold' : 'normal')};
     transition: background-color 0.3s ease-out, color 0.3s ease-out;
+    @media (prefers-reduced-motion: reduce) {
+        transition: none;
+    }
     height: 28px;
     font-size: 0.8125rem;
     min-width: 90px;
-    padding-left: ${props => getStatusIcon(props.$flightStatus) ? '6px' : '10px'};
-    padding-right: ${props => getStatusIcon(props.$flightStatus) ? '6px' : '10px'};
+    padding-left: ${props => props.theme.statusIcons[props.$flightStatus] ? '6px' : '10px'};
+    padding-right: ${props => props.theme.statusIcons[props.$flightStatus] ? '6px' : '10px'};
     vertical-align: middle;
+    ${props => props.$isManual ? css`
+        box-shadow: inset 0 0 0 2px currentColor;
+    ` : css`
+        font-style: italic;
+    `}
 
     & .MuiChip-icon { color: inherit; margin-left: 5px; margin-right: 2px; width: 18px; height: 18px; vertical-align: middle; }
-    & .MuiChip-label { color: inherit; padding-left: ${props => getStatusIcon(props.$flightStatus) ? '0px' : '4px'}; padding-right: 8px; line-height: 1.5; display: inline-block; vertical-align: middle; }
+    & .MuiChip-label { color: inherit; padding-left: ${props => props.theme.statusIcons[props.$flightStatus] ? '0px' : '4px'}; padding-right: 8px; line-height: 1.5; display: inline-block; vertical-align: middle; }
 `;
 
+const iconStyle = { fontSize: '1rem', marginRight: '4px', paddingRight: '2px', verticalAlign: 'middle' };
+
+const StatusDisplayComponent: React.FC<StatusDisplayProps> = ({ displayStatus, isManual = false, onStatusChange, disabled = false, tabIndex }) => {
+    const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+    const { t } = useTranslation();
+    const theme = useTheme();
+    const isEditable = !!onStatusChange && !disabled;
+
+    const handleSelect = (status: FlightStatus | null) => {
+        setAnchorEl(null);
+        onStatusChange?.(status);
+    };
+
+    const tooltip = isManual
+        ? t(isEditable ? 'status.manual.editable' : 'status.manual')
+        : t(isEditable ? 'status.computed.editable' : 'status.computed');
+
+    const renderIcon = (status: FlightStatus) => {
+        const Icon = theme.statusIcons[status];
+        return Icon ? <Icon sx={iconStyle} /> : undefined;
+    };
 
-const StatusDisplayComponent: React.FC<StatusDisplayProps> = ({ displayStatus }) => {
     return (
-        <StatusChip
-            icon={getStatusIcon(displayStatus)}
-            label={displayStatus}
-            $flightStatus={displayStatus}
-            size="small"
-        />
+        <>
+            <Tooltip title={tooltip}>
+                <StatusChip
+                    icon={renderIcon(displayStatus)}
+                    label={
+                        <>
+                            {t(`status.${displayStatus}`)}
+                            {isManual && <PushPinIcon sx={{ fontSize: '0.8rem', ml: 0.5, verticalAlign: 'middle' }} aria-label={t('status.manualIcon')} />}
+                        </>
+                    }
+                    $flightStatus={displayStatus}
+                    $isManual={isManual}
+                    size="small"
+                    clickable={isEditable}
+                    tabIndex={isEditable ? tabIndex : undefined}
+                    onClick={isEditable ? (e: React.MouseEvent<HTMLDivElement>) => setAnchorEl(e.currentTarget) : undefined}
+                    aria-haspopup={isEditable ? 'menu' : undefined}
+                />
+            </Tooltip>
+            {isEditable && (
+                <Menu anchorEl={anchorEl} open={anchorEl !== null} onClose={() => setAnchorEl(null)}>
+                    {validStatusOptions.map(status => (
+                        <MenuItem
+                            key={status}
+                            selected={isManual && status === displayStatus}
+                            onClick={() => handleSelect(status)}
+                        >
+                            <ListItemIcon>{renderIcon(status)}</ListItemIcon>
+                            <ListItemText>{t(`status.${status}`)}</ListItemText>
+                        </MenuItem>
+                    ))}
+                    <Divider />
+                    <MenuItem disabled={!isManual} onClick={() => handleSelect(null)}>
+                        <ListItemIcon><RestartAltIcon fontSize="small" /></ListItemIcon>
+                        <ListItemText>{t('status.clearOverride')}</ListItemText>
+                    </MenuItem>
+                </Menu>
+            )}
+        </>
     );
 };
 
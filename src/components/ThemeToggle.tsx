@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { IconButton, Menu, MenuItem, ListItemIcon, ListItemText, Tooltip } from '@mui/material';
+import { SvgIconComponent } from '@mui/icons-material';
+import BrightnessAutoIcon from '@mui/icons-material/BrightnessAuto';
+import LightModeIcon from '@mui/icons-material/LightMode';
+import DarkModeIcon from '@mui/icons-material/DarkMode';
+import ContrastIcon from '@mui/icons-material/Contrast';
+import { useAppTheme } from '../hooks/useAppTheme';
+import { useTranslation } from '../hooks/useTranslation';
+import { ThemePreference, themePreferences } from '../utils/appTheme';
+import { MessageKey } from '../i18n';
+
+const preferenceOptions: Record<ThemePreference, { label: MessageKey; Icon: SvgIconComponent }> = {
+    system: { label: 'theme.system', Icon: BrightnessAutoIcon },
+    light: { label: 'theme.light', Icon: LightModeIcon },
+    dark: { label: 'theme.dark', Icon: DarkModeIcon },
+    highContrast: { label: 'theme.highContrast', Icon: ContrastIcon },
+};
+
+const ThemeToggleComponent: React.FC<{ color?: 'inherit' | 'primary' }> = ({ color = 'inherit' }) => {
+    const { preference, setPreference } = useAppTheme();
+    const { t } = useTranslation();
+    const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+    const { Icon: CurrentIcon } = preferenceOptions[preference] ?? preferenceOptions.system;
+
+    const handleSelect = (next: ThemePreference) => {
+        setAnchorEl(null);
+        setPreference(next);
+    };
+
+    return (
+        <>
+            <Tooltip title={t('theme.label')}>
+                <IconButton
+                    color={color}
+                    size="small"
+                    onClick={(e) => setAnchorEl(e.currentTarget)}
+                    aria-haspopup="menu"
+                    aria-label={t('theme.label')}
+                >
+                    <CurrentIcon fontSize="small" />
+                </IconButton>
+            </Tooltip>
+            <Menu anchorEl={anchorEl} open={anchorEl !== null} onClose={() => setAnchorEl(null)}>
+                {themePreferences.map(option => {
+                    const { label, Icon } = preferenceOptions[option];
+                    return (
+                        <MenuItem key={option} selected={option === preference} onClick={() => handleSelect(option)}>
+                            <ListItemIcon><Icon fontSize="small" /></ListItemIcon>
+                            <ListItemText>{t(label)}</ListItemText>
+                        </MenuItem>
+                    );
+                })}
+            </Menu>
+        </>
+    );
+};
+
+export default React.memo(ThemeToggleComponent);
@@ -0,0 +1,40 @@
+import React from 'react';
+import { ToggleButton, ToggleButtonGroup, Tooltip } from '@mui/material';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+import { useTranslation } from '../hooks/useTranslation';
+import { MessageKey } from '../i18n';
+import { getTimeZoneAbbreviation, resolveDisplayTimeZone, TimeDisplayMode, timeDisplayModes } from '../utils/timeZone';
+
+const modeLabels: Record<TimeDisplayMode, MessageKey> = {
+    airport: 'timeZone.airport',
+    utc: 'timeZone.utc',
+    local: 'timeZone.local',
+};
+
+const TimeZoneToggleComponent: React.FC = () => {
+    const { mode, setMode } = useDisplayTimeZone();
+    const { t } = useTranslation();
+
+    return (
+        <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={mode}
+            onChange={(_, next: TimeDisplayMode | null) => { if (next) setMode(next); }}
+            aria-label={t('timeZone.label')}
+        >
+            {timeDisplayModes.map(option => {
+                const timeZone = resolveDisplayTimeZone(option);
+                return (
+                    <Tooltip key={option} title={`${timeZone} (${getTimeZoneAbbreviation(timeZone)})`}>
+                        <ToggleButton value={option} sx={{ textTransform: 'none', px: 1.5 }}>
+                            {t(modeLabels[option])}
+                        </ToggleButton>
+                    </Tooltip>
+                );
+            })}
+        </ToggleButtonGroup>
+    );
+};
+
+export default React.memo(TimeZoneToggleComponent);
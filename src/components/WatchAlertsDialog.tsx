@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import {
+    Dialog, DialogTitle, DialogContent, DialogActions, Button, FormControlLabel, FormGroup,
+    FormControl, FormLabel, Checkbox, Switch, Alert, Stack
+} from '@mui/material';
+import { FlightStatus } from '../types/flight';
+import { validStatusOptions } from '../utils/constants';
+import { IWatchedFlight, updateWatchAlerts } from '../services/watchlistStorage';
+import {
+    getNotificationPermission, primeAlertSound, requestNotificationPermission
+} from '../services/watchNotifications';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface WatchAlertsDialogProps {
+    entry: IWatchedFlight | null;
+    onClose: () => void;
+}
+
+const WatchAlertsDialogComponent: React.FC<WatchAlertsDialogProps> = ({ entry, onClose }) => {
+    const { t } = useTranslation();
+    const [permission, setPermission] = useState(getNotificationPermission);
+    const isOpen = entry !== null;
+
+    // Re-read on open: the permission can be changed in the browser's site settings at any time.
+    useEffect(() => {
+        if (isOpen) setPermission(getNotificationPermission());
+    }, [isOpen]);
+
+    const alerts = entry?.alerts;
+    const flightId = entry?.flight.id;
+
+    const toggleStatus = (status: FlightStatus, checked: boolean) => {
+        if (!flightId || !alerts) return;
+        const statuses = checked
+            ? validStatusOptions.filter(s => s === status || alerts.statuses.includes(s))
+            : alerts.statuses.filter(s => s !== status);
+        updateWatchAlerts(flightId, { statuses });
+    };
+
+    const handleSoundChange = (checked: boolean) => {
+        if (!flightId) return;
+        if (checked) primeAlertSound();
+        updateWatchAlerts(flightId, { sound: checked });
+    };
+
+    const handleRequestPermission = async () => {
+        setPermission(await requestNotificationPermission());
+    };
+
+    return (
+        <Dialog open={isOpen} onClose={onClose} maxWidth="xs" fullWidth>
+            <DialogTitle>{t('watch.settingsTitle', { flightNumber: entry ? `#${entry.flight.flightNumber}` : '' })}</DialogTitle>
+            <DialogContent>
+                {alerts && (
+                    <Stack spacing={2}>
+                        {permission === 'default' && (
+                            <Button variant="outlined" onClick={handleRequestPermission}>
+                                {t('watch.permissionRequest')}
+                            </Button>
+                        )}
+                        {permission === 'denied' && <Alert severity="warning">{t('watch.permissionDenied')}</Alert>}
+                        {permission === 'unsupported' && <Alert severity="info">{t('watch.permissionUnsupported')}</Alert>}
+
+                        <FormControl component="fieldset">
+                            <FormLabel component="legend">{t('watch.alertOn')}</FormLabel>
+                            <FormGroup>
+                                {validStatusOptions.map(status => (
+                                    <FormControlLabel
+                                        key={status}
+                                        control={
+                                            <Checkbox
+                                                checked={alerts.statuses.includes(status)}
+                                                onChange={(e) => toggleStatus(status, e.target.checked)}
+                                            />
+                                        }
+                                        label={t(`status.${status}`)}
+                                    />
+                                ))}
+                            </FormGroup>
+                        </FormControl>
+                        <FormGroup>
+                            <FormControlLabel
+                                control={
+                                    <Switch
+                                        checked={alerts.deleted}
+                                        onChange={(e) => flightId && updateWatchAlerts(flightId, { deleted: e.target.checked })}
+                                    />
+                                }
+                                label={t('watch.alertDeleted')}
+                            />
+                            <FormControlLabel
+                                control={<Switch checked={alerts.sound} onChange={(e) => handleSoundChange(e.target.checked)} />}
+                                label={t('watch.sound')}
+                            />
+                        </FormGroup>
+                    </Stack>
+                )}
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={onClose}>{t('common.close')}</Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default React.memo(WatchAlertsDialogComponent);
@@ -0,0 +1,107 @@
+import React, { useMemo, useState } from 'react';
+import {
+    Card, CardContent, Typography, Table, TableBody, TableRow, TableCell, IconButton, Tooltip
+} from '@mui/material';
+import StarIcon from '@mui/icons-material/Star';
+import HistoryIcon from '@mui/icons-material/History';
+import NotificationsIcon from '@mui/icons-material/Notifications';
+import CloudOffIcon from '@mui/icons-material/CloudOff';
+import { IFlight } from '../types/flight';
+import { unwatchFlight } from '../services/watchlistStorage';
+import { useWatchlist } from '../hooks/useWatchlist';
+import { useFlightStore } from '../hooks/useFlightStore';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+import { useTranslation } from '../hooks/useTranslation';
+import { languages } from '../i18n';
+import { getDisplayStatus } from '../utils/statusCalculator';
+import { formatInTimeZone } from '../utils/timeZone';
+import StatusDisplay from './StatusDisplay';
+import WatchAlertsDialog from './WatchAlertsDialog';
+
+interface WatchlistPanelProps {
+    statusNow: number;
+    onShowDetails: (flight: IFlight) => void;
+}
+
+/** Pinned "My flights" list of starred flights, shown whatever the board's filters are. */
+const WatchlistPanelComponent: React.FC<WatchlistPanelProps> = ({ statusNow, onShowDetails }) => {
+    const watchlist = useWatchlist();
+    const byId = useFlightStore(state => state.byId);
+    const { timeZone } = useDisplayTimeZone();
+    const { t, language } = useTranslation();
+    const [settingsFlightId, setSettingsFlightId] = useState<string | null>(null);
+
+    // Live details when the flight is on the board, else the last known ones.
+    const rows = useMemo(
+        () => Object.values(watchlist)
+            .map(entry => ({ flight: byId[entry.flight.id] ?? entry.flight, isOnBoard: byId[entry.flight.id] !== undefined }))
+            .sort((a, b) => a.flight.departureTime.localeCompare(b.flight.departureTime)),
+        [watchlist, byId]
+    );
+
+    if (rows.length === 0) return null;
+
+    const cellSx = { py: 0.5 };
+
+    return (
+        <Card variant="outlined" sx={{ mt: 2 }}>
+            <CardContent sx={{ pb: 1, '&:last-child': { pb: 1 } }}>
+                <Typography variant="h6" component="h2" gutterBottom>{t('watch.title')}</Typography>
+                <Table size="small" aria-label={t('watch.title')}>
+                    <TableBody>
+                        {rows.map(({ flight, isOnBoard }) => (
+                            <TableRow key={flight.id}>
+                                <TableCell padding="checkbox" sx={cellSx}>
+                                    <IconButton
+                                        size="small"
+                                        aria-label={t('watch.remove', { flightNumber: flight.flightNumber })}
+                                        aria-pressed
+                                        onClick={() => unwatchFlight(flight.id)}
+                                        sx={{ color: 'warning.main' }}
+                                    >
+                                        <StarIcon fontSize="small" />
+                                    </IconButton>
+                                </TableCell>
+                                <TableCell component="th" scope="row" sx={{ ...cellSx, fontWeight: 600, whiteSpace: 'nowrap' }}>
+                                    {'#' + flight.flightNumber}
+                                    {!isOnBoard && (
+                                        <Tooltip title={t('watch.lastKnown')}>
+                                            <CloudOffIcon
+                                                fontSize="inherit"
+                                                sx={{ ml: 1, verticalAlign: 'middle', color: 'text.secondary' }}
+                                                aria-label={t('watch.lastKnown')}
+                                            />
+                                        </Tooltip>
+                                    )}
+                                </TableCell>
+                                <TableCell sx={cellSx}>{flight.destination}</TableCell>
+                                <TableCell sx={cellSx}>{t('table.gate')} {flight.gate}</TableCell>
+                                <TableCell sx={cellSx}>
+                                    <StatusDisplay displayStatus={getDisplayStatus(flight, statusNow)} isManual={flight.isStatusManual ?? false} />
+                                </TableCell>
+                                <TableCell sx={{ ...cellSx, whiteSpace: 'nowrap' }}>
+                                    {formatInTimeZone(flight.departureTime, timeZone, 'MMM D, HH:mm', languages[language].dayjsLocale)}
+                                </TableCell>
+                                <TableCell align="right" sx={{ ...cellSx, whiteSpace: 'nowrap' }}>
+                                    <IconButton size="small" aria-label={t('watch.settings')} onClick={() => setSettingsFlightId(flight.id)}>
+                                        <NotificationsIcon fontSize="small" />
+                                    </IconButton>
+                                    <IconButton size="small" aria-label={t('row.details')} onClick={() => onShowDetails(flight)}>
+                                        <HistoryIcon fontSize="small" />
+                                    </IconButton>
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </CardContent>
+
+            <WatchAlertsDialog
+                entry={settingsFlightId ? watchlist[settingsFlightId] ?? null : null}
+                onClose={() => setSettingsFlightId(null)}
+            />
+        </Card>
+    );
+};
+
+export default React.memo(WatchlistPanelComponent);
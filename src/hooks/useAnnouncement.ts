@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getAnnouncement, subscribeAnnouncements } from '../services/announcer';
+
+export function useAnnouncement() {
+    return useSyncExternalStore(subscribeAnnouncements, getAnnouncement);
+}
@@ -0,0 +1,23 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { usePreferences } from './usePreferences';
+import { resolveThemeName, ThemePreference } from '../utils/appTheme';
+
+const darkSchemeQuery = typeof window !== 'undefined' && window.matchMedia
+    ? window.matchMedia('(prefers-color-scheme: dark)')
+    : null;
+
+const subscribeDarkScheme = (listener: () => void): (() => void) => {
+    darkSchemeQuery?.addEventListener('change', listener);
+    return () => darkSchemeQuery?.removeEventListener('change', listener);
+};
+
+const getPrefersDark = (): boolean => darkSchemeQuery?.matches ?? false;
+
+/** The viewer's theme choice and the theme it resolves to, following the OS for 'system'. */
+export function useAppTheme() {
+    const [preferences, updatePreferences] = usePreferences();
+    const prefersDark = useSyncExternalStore(subscribeDarkScheme, getPrefersDark);
+    const preference = preferences.theme;
+    const setPreference = useCallback((next: ThemePreference) => updatePreferences({ theme: next }), [updatePreferences]);
+    return { preference, themeName: resolveThemeName(preference, prefersDark), setPreference };
+}
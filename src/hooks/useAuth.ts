@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getAuthState, subscribeAuthState, isOperator } from '../services/authService';
+
+export function useAuth() {
+    const { session, sessionExpired } = useSyncExternalStore(subscribeAuthState, getAuthState);
+    const user = session?.user ?? null;
+    return { user, isAuthenticated: user !== null, canEdit: isOperator(user), sessionExpired };
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getConnectionStatus, subscribeConnectionStatus } from '../services/signalrService';
+
+export function useConnectionStatus() {
+    return useSyncExternalStore(subscribeConnectionStatus, getConnectionStatus);
+}
@@ -0,0 +1,11 @@
+import { useCallback } from 'react';
+import { usePreferences } from './usePreferences';
+import { resolveDisplayTimeZone, TimeDisplayMode } from '../utils/timeZone';
+
+/** The zone departure times are shown and entered in, per the viewer's airport/UTC/local choice. */
+export function useDisplayTimeZone() {
+    const [preferences, updatePreferences] = usePreferences();
+    const mode = preferences.timeDisplay;
+    const setMode = useCallback((next: TimeDisplayMode) => updatePreferences({ timeDisplay: next }), [updatePreferences]);
+    return { mode, timeZone: resolveDisplayTimeZone(mode), setMode };
+}
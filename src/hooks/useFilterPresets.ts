@@ -0,0 +1,33 @@
+import { useState, useCallback } from 'react';
+import {
+    IFilterPreset, loadPresets, savePresets, mergePresets,
+    exportPresetsToJson, parsePresetsJson
+} from '../services/presetStorage';
+
+export function useFilterPresets() {
+    const [presets, setPresets] = useState<IFilterPreset[]>(loadPresets);
+
+    const persist = useCallback((next: IFilterPreset[]) => {
+        savePresets(next);
+        setPresets(next);
+    }, []);
+
+    const addPreset = useCallback((preset: IFilterPreset) => {
+        persist(mergePresets(presets, [preset]));
+    }, [presets, persist]);
+
+    const removePreset = useCallback((name: string) => {
+        persist(presets.filter(p => p.name !== name));
+    }, [presets, persist]);
+
+    /** Returns the number of presets imported; throws if the file is invalid. */
+    const importPresets = useCallback(async (file: File): Promise<number> => {
+        const incoming = parsePresetsJson(await file.text());
+        persist(mergePresets(presets, incoming));
+        return incoming.length;
+    }, [presets, persist]);
+
+    const exportPresets = useCallback(() => exportPresetsToJson(presets), [presets]);
+
+    return { presets, addPreset, removePreset, importPresets, exportPresets };
+}
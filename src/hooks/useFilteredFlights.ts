@@ -0,0 +1,72 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { IFlight, IFlightFilters } from '../types/flight';
+import { matchesFlightFilters } from '../utils/flightFilters';
+
+// Matches the row fade-out transition in FlightRow.
+export const FILTER_FADE_OUT_MS = 600;
+
+/**
+ * Applies the active filters to the store's flights. Rows that stop matching
+ * because of a live event stay briefly with `isLeaving` so they can fade out;
+ * rows that start matching simply appear. Changing the filters themselves
+ * swaps the list without fading.
+ */
+export function useFilteredFlights(flights: IFlight[], filters: IFlightFilters, now: number): IFlight[] {
+    const matching = useMemo(
+        () => flights.filter(f => matchesFlightFilters(f, filters, now)),
+        [flights, filters, now]
+    );
+
+    const [leavingIds, setLeavingIds] = useState<Record<string, true>>({});
+    const previousRef = useRef<{ filters: IFlightFilters; ids: Set<string> }>({ filters, ids: new Set() });
+    const timeoutsRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+
+    useEffect(() => {
+        const matchingIds = new Set(matching.map(f => f.id));
+        const previous = previousRef.current;
+        previousRef.current = { filters, ids: matchingIds };
+
+        const stillInStore = new Set(flights.map(f => f.id));
+        const leaving = previous.filters === filters
+            ? [...previous.ids].filter(id => !matchingIds.has(id) && stillInStore.has(id))
+            : [];
+        const returning = Object.keys(timeoutsRef.current).filter(id => matchingIds.has(id));
+
+        returning.forEach(id => {
+            clearTimeout(timeoutsRef.current[id]);
+            delete timeoutsRef.current[id];
+        });
+        leaving.forEach(id => {
+            timeoutsRef.current[id] = setTimeout(() => {
+                delete timeoutsRef.current[id];
+                setLeavingIds(current => {
+                    const next = { ...current };
+                    delete next[id];
+                    return next;
+                });
+            }, FILTER_FADE_OUT_MS);
+        });
+
+        if (leaving.length > 0 || returning.length > 0) {
+            setLeavingIds(current => {
+                const next = { ...current };
+                returning.forEach(id => delete next[id]);
+                leaving.forEach(id => { next[id] = true; });
+                return next;
+            });
+        }
+    }, [matching, flights, filters]);
+
+    useEffect(() => {
+        const timeouts = timeoutsRef.current;
+        return () => Object.values(timeouts).forEach(clearTimeout);
+    }, []);
+
+    return useMemo(() => {
+        if (Object.keys(leavingIds).length === 0) return matching;
+        const matchingIds = new Set(matching.map(f => f.id));
+        return flights
+            .filter(f => matchingIds.has(f.id) || leavingIds[f.id])
+            .map(f => (leavingIds[f.id] && !matchingIds.has(f.id) ? { ...f, isLeaving: true } : f));
+    }, [flights, matching, leavingIds]);
+}
@@ -0,0 +1,66 @@
+import { useState, useEffect } from 'react';
+import { getFlightHistory } from '../services/apiService';
+import { getLocalHistory, subscribeHistory } from '../services/historyStorage';
+import { IFlightHistoryEntry } from '../types/history';
+import { useTranslation } from './useTranslation';
+
+export type FlightHistorySource = 'server' | 'local';
+
+/**
+ * History for one flight, oldest first. Prefers the backend audit log and
+ * appends any locally recorded events newer than its last entry, so the
+ * timeline stays live; falls back to the local log when the server has none.
+ */
+export function useFlightHistory(flightId: string | null) {
+    const [entries, setEntries] = useState<IFlightHistoryEntry[]>([]);
+    const [source, setSource] = useState<FlightHistorySource>('local');
+    const [loading, setLoading] = useState<boolean>(false);
+    const [serverFailed, setServerFailed] = useState<boolean>(false);
+    const { t } = useTranslation();
+
+    useEffect(() => {
+        if (!flightId) {
+            setEntries([]);
+            return;
+        }
+        let isMounted = true;
+        let serverEntries: IFlightHistoryEntry[] | null = null;
+
+        const refreshLocal = async () => {
+            const local = await getLocalHistory(flightId);
+            if (!isMounted) return;
+            if (serverEntries) {
+                const lastServerAt = serverEntries[serverEntries.length - 1]?.at ?? '';
+                setEntries([...serverEntries, ...local.filter(entry => entry.at > lastServerAt)]);
+            } else {
+                setEntries(local);
+            }
+        };
+
+        const load = async () => {
+            setLoading(true);
+            setServerFailed(false);
+            try {
+                serverEntries = await getFlightHistory(flightId);
+            } catch {
+                serverEntries = null;
+                if (isMounted) setServerFailed(true);
+            }
+            if (!isMounted) return;
+            setSource(serverEntries ? 'server' : 'local');
+            await refreshLocal();
+            if (isMounted) setLoading(false);
+        };
+
+        load();
+        const unsubscribe = subscribeHistory(changedId => {
+            if (changedId === flightId) refreshLocal();
+        });
+        return () => {
+            isMounted = false;
+            unsubscribe();
+        };
+    }, [flightId]);
+
+    return { entries, source, loading, error: serverFailed ? t('history.serverError') : null };
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { flightStore, FlightStoreState } from '../store/flightStore';
+
+/** Reads from the shared flight store. Selectors must return stable references for unchanged state. */
+export function useFlightStore<T>(selector: (state: FlightStoreState) => T): T {
+    return useSyncExternalStore(flightStore.subscribe, () => selector(flightStore.getState()));
+}
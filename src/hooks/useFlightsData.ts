@@ -1,23 +1,46 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import axios from 'axios';
-import { IFlight } from '../types/flight';
+import { IFlightFilters } from '../types/flight';
 import { getFlights } from '../services/apiService';
+import { flightStore, selectFlights } from '../store/flightStore';
+import { useFlightStore } from './useFlightStore';
+import { useStatusScheduler } from './useStatusScheduler';
+import { useTranslation } from './useTranslation';
+import { MessageKey, MessageParams } from '../i18n';
 
-export function useFlightsData(destination?: string, status?: string) {
-    const [flights, setFlights] = useState<IFlight[]>([]);
+// Kept untranslated so a shown error follows language changes.
+interface IFetchError {
+    key: MessageKey;
+    params?: MessageParams;
+}
+
+export function useFlightsData(filters: IFlightFilters) {
+    const flights = useFlightStore(selectFlights);
     const [loading, setLoading] = useState<boolean>(true);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<IFetchError | null>(null);
+    const { t } = useTranslation();
+    const statusNow = useStatusScheduler(flights);
+    // Only the latest fetch may touch the store: an older one answering last would show the previous filters' flights.
+    const latestRequestIdRef = useRef(0);
 
-    const fetchData = useCallback(async () => {
-        setLoading(true);
+    // `background` keeps the current rows on screen (no spinner, no clearing on failure), for resyncs.
+    const fetchData = useCallback(async (options?: { background?: boolean }) => {
+        const background = options?.background ?? false;
+        if (!background) {
+            setLoading(true);
+        }
         setError(null);
+        const requestedAt = Date.now();
+        const requestId = ++latestRequestIdRef.current;
+        const isLatest = () => requestId === latestRequestIdRef.current;
         try {
-            const data = await getFlights(destination, status);
-            data.sort((a, b) => new Date(a.departureTime).getTime() - new Date(b.departureTime).getTime());
-            setFlights(data);
+            const data = await getFlights(filters);
+            if (!isLatest()) return;
+            flightStore.dispatch({ type: 'snapshotLoaded', flights: data, requestedAt });
         } catch (err: any) {
+            if (!isLatest()) return;
             console.error("Failed to fetch flights:", err);
-            let errorMsg: string | null = "Failed to load flight data. Please try again later.";
+            let errorMsg: IFetchError | null = { key: 'flights.loadFailed' };
 
             if (axios.isAxiosError(err)) {
                 if (err.response) {
@@ -27,40 +50,44 @@ export function useFlightsData(destination?: string, status?: string) {
 
                     if (status === 404) {
                         errorMsg = null;
-                        setFlights([]);
+                        flightStore.dispatch({ type: 'snapshotLoaded', flights: [], requestedAt });
                     } else if (status === 401 || status === 403) {
-                        errorMsg = "Authorization failed. Please check your login or permissions.";
+                        errorMsg = { key: 'flights.unauthorized' };
                     } else if (status >= 500) {
-                        errorMsg = "Server Error: Unable to fetch flight data at this time.";
+                        errorMsg = { key: 'flights.serverError' };
                     } else {
-                        errorMsg = responseData?.title || `Error fetching flights (${status}).`;
+                        errorMsg = responseData?.title
+                            ? { key: 'flights.requestFailed', params: { details: responseData.title } }
+                            : { key: 'flights.statusError', params: { status } };
                     }
                 } else if (err.request) {
-                    errorMsg = "Network Error: Unable to connect to the server.";
+                    errorMsg = { key: 'flights.networkError' };
                     console.error("Network Error Fetching Flights:", err.request);
                 } else {
-                    errorMsg = `Request Setup Error: ${err.message}`;
+                    errorMsg = { key: 'error.requestSetup', params: { message: err.message } };
                     console.error("Axios Setup Error Fetching Flights:", err.message);
                 }
             } else {
-                errorMsg = "An unexpected client-side error occurred while fetching data.";
+                errorMsg = { key: 'flights.unexpected' };
                 console.error("Non-API Error Fetching Flights:", err);
             }
 
             setError(errorMsg);
 
-            if (errorMsg !== null) {
-                setFlights([]);
+            if (errorMsg !== null && !background) {
+                flightStore.dispatch({ type: 'snapshotLoaded', flights: [], requestedAt });
             }
 
         } finally {
-            setLoading(false);
+            if (isLatest()) {
+                setLoading(false);
+            }
         }
-    }, [destination, status]);
+    }, [filters]);
 
     useEffect(() => {
         fetchData();
     }, [fetchData]);
 
-    return { flights, loading, error, setFlights, refetchFlights: fetchData };
+    return { flights, loading, error: error && t(error.key, error.params), errorKey: error?.key ?? null, refetchFlights: fetchData, statusNow };
 }
\ No newline at end of file
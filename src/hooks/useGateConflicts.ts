@@ -0,0 +1,21 @@
+import { useMemo } from 'react';
+import { useFlightStore } from './useFlightStore';
+import { findAllGateConflicts, findGateConflicts, IGateRequest, suggestFreeGates } from '../utils/gateConflicts';
+
+/** Conflicts for a gate being entered in a form, checked against the loaded flights, with free alternatives. */
+export function useGateCheck({ gate, departureTime, excludeId }: IGateRequest) {
+    const byId = useFlightStore(state => state.byId);
+    return useMemo(() => {
+        const flights = Object.values(byId);
+        const request = { gate, departureTime, excludeId };
+        const conflicts = findGateConflicts(flights, request);
+        const suggestions = conflicts.length > 0 ? suggestFreeGates(flights, request) : [];
+        return { conflicts, suggestions };
+    }, [byId, gate, departureTime, excludeId]);
+}
+
+/** Conflicts already on the board, keyed by flight ID. */
+export function useGateConflictMap() {
+    const byId = useFlightStore(state => state.byId);
+    return useMemo(() => findAllGateConflicts(Object.values(byId)), [byId]);
+}
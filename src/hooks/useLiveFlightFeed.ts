@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react';
+import {
+    startSignalRConnection, stopSignalRConnection,
+    onFlightAdded, offFlightAdded,
+    onFlightDeleted, offFlightDeleted,
+    onFlightStatusChanged, offFlightStatusChanged,
+    onFlightUpdated, offFlightUpdated,
+    onConnectionRestored, offConnectionRestored
+} from '../services/signalrService';
+import { flightStore } from '../store/flightStore';
+import { IFlight, FlightStatus } from '../types/flight';
+
+/**
+ * Feeds hub events straight into the shared flight store, for read-only
+ * views that need live data without the operator dashboard's notifications.
+ * `onConnectionRestored` should reload the snapshot to cover missed events.
+ */
+export function useLiveFlightFeed(onConnectionRestoredCallback: () => void) {
+    const restoredCallbackRef = useRef(onConnectionRestoredCallback);
+    useEffect(() => {
+        restoredCallbackRef.current = onConnectionRestoredCallback;
+    }, [onConnectionRestoredCallback]);
+
+    useEffect(() => {
+        const handleFlightAdded = (flight: IFlight) => {
+            flightStore.dispatch({ type: 'flightAdded', flight, receivedAt: Date.now() });
+        };
+        const handleFlightDeleted = (flight: IFlight) => {
+            flightStore.dispatch({ type: 'flightDeleted', flightId: flight.id, sequence: flight.sequence, receivedAt: Date.now() });
+        };
+        const handleFlightStatusChanged = (flightId: string, newStatus: FlightStatus | null, isManual: boolean, sequence?: number) => {
+            flightStore.dispatch({
+                type: 'flightStatusChanged', flightId, newStatus: newStatus ?? undefined, isManual, sequence, receivedAt: Date.now()
+            });
+        };
+        const handleFlightUpdated = (flight: IFlight) => {
+            flightStore.dispatch({ type: 'flightUpdated', flight, receivedAt: Date.now() });
+        };
+        const handleConnectionRestored = () => restoredCallbackRef.current();
+
+        onFlightAdded(handleFlightAdded);
+        onFlightDeleted(handleFlightDeleted);
+        onFlightStatusChanged(handleFlightStatusChanged);
+        onFlightUpdated(handleFlightUpdated);
+        onConnectionRestored(handleConnectionRestored);
+
+        startSignalRConnection().catch(err => console.error("SignalR Connection Error:", err));
+
+        return () => {
+            offFlightAdded(handleFlightAdded);
+            offFlightDeleted(handleFlightDeleted);
+            offFlightStatusChanged(handleFlightStatusChanged);
+            offFlightUpdated(handleFlightUpdated);
+            offConnectionRestored(handleConnectionRestored);
+            stopSignalRConnection();
+        };
+    }, []);
+}
@@ -0,0 +1,37 @@
+import { useSyncExternalStore } from 'react';
+
+// One timer for the whole app, aligned to wall-clock minutes, shared by every subscriber.
+let currentMinute = Date.now();
+let timeoutId: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+const scheduleTick = () => {
+    const msToNextMinute = 60000 - (Date.now() % 60000);
+    timeoutId = setTimeout(() => {
+        currentMinute = Date.now();
+        listeners.forEach(listener => listener());
+        scheduleTick();
+    }, msToNextMinute);
+};
+
+const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    if (listeners.size === 1) {
+        currentMinute = Date.now();
+        scheduleTick();
+    }
+    return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && timeoutId !== null) {
+            clearTimeout(timeoutId);
+            timeoutId = null;
+        }
+    };
+};
+
+const getSnapshot = () => currentMinute;
+
+/** Current time, refreshed at the start of every minute. For countdown labels. */
+export function useMinuteClock() {
+    return useSyncExternalStore(subscribe, getSnapshot);
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getPreferences, subscribePreferences, updatePreferences } from '../services/preferences';
+
+export function usePreferences() {
+    const preferences = useSyncExternalStore(subscribePreferences, getPreferences);
+    return [preferences, updatePreferences] as const;
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { flushSync } from 'react-dom';
+
+/**
+ * True while the browser is printing, whether started from the UI or with
+ * Ctrl+P. The state is flushed synchronously in `beforeprint` so print-only
+ * content is in the DOM before the page is laid out for paper.
+ */
+export function usePrintMode() {
+    const [isPrinting, setIsPrinting] = useState<boolean>(false);
+
+    useEffect(() => {
+        const handleBeforePrint = () => flushSync(() => setIsPrinting(true));
+        const handleAfterPrint = () => setIsPrinting(false);
+        window.addEventListener('beforeprint', handleBeforePrint);
+        window.addEventListener('afterprint', handleAfterPrint);
+        return () => {
+            window.removeEventListener('beforeprint', handleBeforePrint);
+            window.removeEventListener('afterprint', handleAfterPrint);
+        };
+    }, []);
+
+    return isPrinting;
+}
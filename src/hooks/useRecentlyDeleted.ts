@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getDeletedFlights, subscribeDeletedFlights } from '../services/recentlyDeletedStorage';
+
+export function useRecentlyDeleted() {
+    return useSyncExternalStore(subscribeDeletedFlights, getDeletedFlights);
+}
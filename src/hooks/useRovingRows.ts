@@ -0,0 +1,97 @@
+import React, { useCallback, useEffect, useRef, useState, RefObject } from 'react';
+
+interface RovingRowsOptions {
+    count: number;
+    // Rendered window, as returned by useVirtualRows.
+    start: number;
+    end: number;
+    rowHeight: number;
+    containerRef: RefObject<HTMLElement | null>;
+    direction: 'ltr' | 'rtl';
+}
+
+const ROW_SELECTOR = '[data-row-index]';
+const CONTROL_SELECTOR = 'button:not([disabled]), input:not([disabled]), [role="button"]:not([aria-disabled="true"])';
+
+/**
+ * Roving tabindex for a virtualized table: a single row is the table's tab
+ * stop, Up/Down/PageUp/PageDown/Home/End move between rows and Left/Right
+ * between a row and its controls. Rows must carry `data-row-index`; attach
+ * the returned handlers to the table body.
+ */
+export function useRovingRows({ count, start, end, rowHeight, containerRef, direction }: RovingRowsOptions) {
+    const [activeIndex, setActiveIndex] = useState<number>(0);
+    // Row to focus once scrolling has brought it into the rendered window.
+    const pendingFocusRef = useRef<number | null>(null);
+
+    // Falls back to the first rendered row when the active one has been scrolled out of the window.
+    const tabbableIndex = activeIndex >= start && activeIndex < end ? activeIndex : start;
+
+    const findRow = useCallback(
+        (index: number) => containerRef.current?.querySelector<HTMLElement>(`[data-row-index="${index}"]`) ?? null,
+        [containerRef]
+    );
+
+    const focusRow = useCallback((index: number) => {
+        if (count === 0) return;
+        const target = Math.min(Math.max(index, 0), count - 1);
+        setActiveIndex(target);
+        const row = findRow(target);
+        if (row) {
+            row.focus();
+            row.scrollIntoView({ block: 'nearest' });
+            return;
+        }
+        pendingFocusRef.current = target;
+        if (containerRef.current) containerRef.current.scrollTop = target * rowHeight;
+    }, [count, findRow, containerRef, rowHeight]);
+
+    useEffect(() => {
+        if (pendingFocusRef.current === null) return;
+        const row = findRow(pendingFocusRef.current);
+        if (row) {
+            pendingFocusRef.current = null;
+            row.focus();
+            row.scrollIntoView({ block: 'nearest' });
+        }
+    }, [start, end, findRow]);
+
+    const onKeyDown = useCallback((event: React.KeyboardEvent<HTMLElement>) => {
+        const target = event.target as HTMLElement;
+        // Keys from menus portalled out of a row still bubble here through React; leave them alone.
+        if (!event.currentTarget.contains(target)) return;
+        const row = target.closest<HTMLElement>(ROW_SELECTOR);
+        if (!row) return;
+        const index = Number(row.dataset.rowIndex);
+        const pageSize = Math.max(1, Math.floor((containerRef.current?.clientHeight ?? rowHeight) / rowHeight) - 1);
+
+        switch (event.key) {
+            case 'ArrowDown': focusRow(index + 1); break;
+            case 'ArrowUp': focusRow(index - 1); break;
+            case 'PageDown': focusRow(index + pageSize); break;
+            case 'PageUp': focusRow(index - pageSize); break;
+            case 'Home': focusRow(0); break;
+            case 'End': focusRow(count - 1); break;
+            case 'ArrowLeft':
+            case 'ArrowRight': {
+                const forward = (event.key === 'ArrowRight') === (direction === 'ltr');
+                const stops = [row, ...row.querySelectorAll<HTMLElement>(CONTROL_SELECTOR)];
+                const position = stops.indexOf(target);
+                if (position === -1) return;
+                stops[position + (forward ? 1 : -1)]?.focus();
+                break;
+            }
+            default: return;
+        }
+        event.preventDefault();
+    }, [focusRow, count, direction, containerRef, rowHeight]);
+
+    const onFocus = useCallback((event: React.FocusEvent<HTMLElement>) => {
+        const target = event.target as HTMLElement;
+        if (!event.currentTarget.contains(target)) return;
+        const row = target.closest<HTMLElement>(ROW_SELECTOR);
+        if (row) setActiveIndex(Number(row.dataset.rowIndex));
+    }, []);
+
+    return { tabbableIndex, onKeyDown, onFocus };
+}
@@ -0,0 +1,60 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+
+/**
+ * Checkbox selection over an ordered list of ids. Shift+click selects the
+ * range from the last clicked row (the anchor) to the clicked row, in display
+ * order. Ids that leave the list (deleted, filtered out) drop out of the
+ * selection for good, so they don't come back selected when the filters are
+ * cleared and bulk actions never touch rows the operator can't see.
+ */
+export function useRowSelection(orderedIds: string[]) {
+    const [rawSelection, setRawSelection] = useState<ReadonlySet<string>>(() => new Set());
+    const anchorIdRef = useRef<string | null>(null);
+
+    const selectedIds = useMemo<ReadonlySet<string>>(() => {
+        const visible = new Set(orderedIds);
+        const next = new Set([...rawSelection].filter(id => visible.has(id)));
+        return next.size === rawSelection.size ? rawSelection : next;
+    }, [rawSelection, orderedIds]);
+
+    // `selectedIds` already hides them for this render; this forgets them.
+    useEffect(() => {
+        setRawSelection(current => (current === selectedIds ? current : selectedIds));
+    }, [selectedIds]);
+
+    const toggle = useCallback((id: string, extendRange: boolean) => {
+        const anchorId = anchorIdRef.current;
+        setRawSelection(current => {
+            const next = new Set(current);
+            const anchorIndex = anchorId ? orderedIds.indexOf(anchorId) : -1;
+            const targetIndex = orderedIds.indexOf(id);
+            if (extendRange && anchorIndex !== -1 && targetIndex !== -1) {
+                // The range takes the state the anchor row ended up with.
+                const select = current.has(anchorId!);
+                const [from, to] = anchorIndex < targetIndex ? [anchorIndex, targetIndex] : [targetIndex, anchorIndex];
+                orderedIds.slice(from, to + 1).forEach(rangeId => (select ? next.add(rangeId) : next.delete(rangeId)));
+            } else if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+        anchorIdRef.current = id;
+    }, [orderedIds]);
+
+    const setAll = useCallback((selected: boolean) => {
+        setRawSelection(selected ? new Set(orderedIds) : new Set());
+        anchorIdRef.current = null;
+    }, [orderedIds]);
+
+    const deselect = useCallback((ids: string[]) => {
+        setRawSelection(current => {
+            const next = new Set(current);
+            ids.forEach(id => next.delete(id));
+            return next;
+        });
+    }, []);
+
+    return { selectedIds, toggle, setAll, deselect };
+}
@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import { IFlight } from '../types/flight';
+import { getNextStatusChangeForFlights } from '../utils/statusCalculator';
+
+// setTimeout overflows above ~24.8 days; anything further out is re-planned on wake.
+const MAX_TIMEOUT_MS = 2147483647;
+// Wake slightly after the boundary so [from, until) evaluation lands on the new status.
+const WAKE_MARGIN_MS = 50;
+
+/**
+ * Returns the instant computed statuses should be evaluated at. It only
+ * advances when some flight (without a server/manual status) crosses a
+ * status-rule boundary, so the board re-renders exactly when a status flips.
+ */
+export function useStatusScheduler(flights: IFlight[]) {
+    const [now, setNow] = useState<number>(() => Date.now());
+
+    useEffect(() => {
+        // Planned from `now`, not the wall clock: a flight added or edited since the last tick that is
+        // already past a boundary gets a zero delay, while unrelated store changes just re-arm the same wake-up.
+        const computedFlights = flights.filter(f => !f.currentStatus);
+        const nextChangeAt = getNextStatusChangeForFlights(computedFlights, now);
+        if (nextChangeAt === null) return;
+
+        const delay = Math.min(Math.max(nextChangeAt - Date.now() + WAKE_MARGIN_MS, 0), MAX_TIMEOUT_MS);
+        const timeoutId = setTimeout(() => setNow(Date.now()), delay);
+        return () => clearTimeout(timeoutId);
+    }, [flights, now]);
+
+    useEffect(() => {
+        // Timers are throttled in background tabs; catch up as soon as the board is visible again.
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'visible') {
+                setNow(Date.now());
+            }
+        };
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+    }, []);
+
+    return now;
+}
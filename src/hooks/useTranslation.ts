@@ -0,0 +1,12 @@
+import { useCallback } from 'react';
+import { usePreferences } from './usePreferences';
+import { isLanguage, languages, translate, Language, MessageKey, MessageParams } from '../i18n';
+
+/** `t` for the selected language; components re-render when the language changes. */
+export function useTranslation() {
+    const [preferences, updatePreferences] = usePreferences();
+    const language: Language = isLanguage(preferences.language) ? preferences.language : 'en';
+    const t = useCallback((key: MessageKey, params?: MessageParams) => translate(language, key, params), [language]);
+    const setLanguage = useCallback((next: Language) => updatePreferences({ language: next }), [updatePreferences]);
+    return { t, language, direction: languages[language].direction, setLanguage };
+}
@@ -0,0 +1,67 @@
+import { useState, useEffect, RefObject } from 'react';
+
+interface VirtualRowsOptions {
+    count: number;
+    // Used until rows have been rendered and measured.
+    estimatedRowHeight: number;
+    containerRef: RefObject<HTMLElement | null>;
+    overscan?: number;
+}
+
+/**
+ * Computes which rows of a list are inside the scroll container's viewport.
+ * Callers render only `start..end`, marking each row with `data-row-index`,
+ * and pad the rest with `paddingTop`/`paddingBottom` so the scrollbar keeps
+ * its full size. Off-screen rows are assumed to be as tall as the average
+ * rendered row, re-measured whenever rendered rows resize.
+ */
+export function useVirtualRows({ count, estimatedRowHeight, containerRef, overscan = 10 }: VirtualRowsOptions) {
+    const [scrollTop, setScrollTop] = useState<number>(0);
+    const [viewportHeight, setViewportHeight] = useState<number>(800);
+    const [rowHeight, setRowHeight] = useState<number>(estimatedRowHeight);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        const handleScroll = () => setScrollTop(container.scrollTop);
+        const resizeObserver = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+
+        container.addEventListener('scroll', handleScroll, { passive: true });
+        resizeObserver.observe(container);
+        setViewportHeight(container.clientHeight);
+        return () => {
+            container.removeEventListener('scroll', handleScroll);
+            resizeObserver.disconnect();
+        };
+    }, [containerRef]);
+
+    const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+    const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const rows = Array.from(container.querySelectorAll<HTMLElement>('[data-row-index]'));
+        if (rows.length === 0) return;
+
+        const measure = () => {
+            const total = rows.reduce((sum, row) => sum + row.getBoundingClientRect().height, 0);
+            const average = total / rows.length;
+            // Ignore sub-pixel jitter, which would otherwise re-render on every measurement.
+            if (average > 0) setRowHeight(current => (Math.abs(current - average) < 0.5 ? current : average));
+        };
+        const resizeObserver = new ResizeObserver(measure);
+        rows.forEach(row => resizeObserver.observe(row));
+        measure();
+        return () => resizeObserver.disconnect();
+    }, [containerRef, start, end, count]);
+
+    return {
+        start,
+        end,
+        rowHeight,
+        paddingTop: start * rowHeight,
+        paddingBottom: Math.max(0, (count - end) * rowHeight),
+    };
+}
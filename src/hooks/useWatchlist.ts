@@ -0,0 +1,24 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { IFlight } from '../types/flight';
+import { getWatchlist, subscribeWatchlist, unwatchFlight, watchFlight } from '../services/watchlistStorage';
+import { primeAlertSound, requestNotificationPermission } from '../services/watchNotifications';
+
+export function useWatchlist() {
+    return useSyncExternalStore(subscribeWatchlist, getWatchlist);
+}
+
+/** Whether one flight is starred, and a toggle that also sets up notifications on first use. */
+export function useWatchToggle(flight: IFlight) {
+    const isWatched = useSyncExternalStore(subscribeWatchlist, () => getWatchlist()[flight.id] !== undefined);
+    const toggle = useCallback(() => {
+        if (getWatchlist()[flight.id]) {
+            unwatchFlight(flight.id);
+            return;
+        }
+        watchFlight(flight);
+        // Both need the click that starred the flight; later alerts can then reach a background tab.
+        primeAlertSound();
+        requestNotificationPermission();
+    }, [flight]);
+    return { isWatched, toggle };
+}
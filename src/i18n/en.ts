@@ -0,0 +1,377 @@
+/**
+ * English messages; this catalog defines the set of message keys. `{name}`
+ * is replaced by the matching parameter. A `_one` variant, when present, is
+ * used instead of the base key for `count === 1`.
+ */
+export const en = {
+    'app.title': "Flight Deck",
+    'app.signOut': "Sign out",
+    'app.language': "Language",
+    'theme.label': "Theme",
+    'theme.system': "Match system",
+    'theme.light': "Light",
+    'theme.dark': "Dark",
+    'theme.highContrast': "High contrast",
+    'role.operator': "Operator",
+    'role.viewer': "Viewer",
+
+    'common.cancel': "Cancel",
+    'common.close': "Close",
+    'common.save': "Save",
+    'common.delete': "Delete",
+    'common.clear': "Clear",
+    'common.done': "Done",
+    'common.invalidJson': "The file is not valid JSON.",
+
+    'error.network': "Network Error: Could not connect to the server.",
+    'error.unauthorized': "Authorization Error: You might need to log in or lack permissions.",
+    'error.server': "Server Error: Something went wrong on our end. Please try again later.",
+    'error.client': "Client Error: {status}",
+    'error.requestSetup': "Request Setup Error: {message}",
+    'error.unexpected': "An unexpected client-side error occurred.",
+    'error.permissionDenied': "Permission denied.",
+
+    'validation.required': "Required",
+    'validation.max10Chars': "Max 10 chars",
+    'validation.max100Chars': "Max 100 chars",
+    'validation.departureRequired': "Departure time is required.",
+    'validation.departureInFuture': "Departure time must be in the future.",
+    'validation.invalidInput': "Invalid input",
+    'flights.loadFailed': "Failed to load flight data. Please try again later.",
+    'flights.unauthorized': "Authorization failed. Please check your login or permissions.",
+    'flights.serverError': "Server Error: Unable to fetch flight data at this time.",
+    'flights.statusError': "Error fetching flights ({status}).",
+    'flights.requestFailed': "Error fetching flights: {details}",
+    'flights.networkError': "Network Error: Unable to connect to the server.",
+    'flights.unexpected': "An unexpected client-side error occurred while fetching data.",
+
+    'login.username': "Username",
+    'login.password': "Password",
+    'login.submit': "Sign in",
+    'login.sessionExpired': "Your session expired. Please sign in again.",
+    'login.failed': "Sign-in failed. Please try again.",
+    'login.invalidCredentials': "Invalid username or password.",
+    'login.forbidden': "This account is not allowed to use Flight Deck.",
+    'login.tooManyAttempts': "Too many attempts. Please wait a moment and try again.",
+    'login.serverError': "Server Error: Unable to sign in right now.",
+
+    'connection.connecting': "Connecting…",
+    'connection.connecting.description': "Connecting to the live update server.",
+    'connection.live': "Live",
+    'connection.live.description': "Receiving live updates.",
+    'connection.reconnecting': "Reconnecting…",
+    'connection.reconnecting.description': "Connection lost. Updates will resume and the board will resync once reconnected.",
+    'connection.offline': "Offline",
+    'connection.offline.description': "Not receiving live updates. Retrying automatically.",
+
+    'status.Scheduled': "Scheduled",
+    'status.Boarding': "Boarding",
+    'status.Departed': "Departed",
+    'status.Landed': "Landed",
+    'status.Delayed': "Delayed",
+    'status.Unknown': "Unknown",
+    'status.manual': "Manual override",
+    'status.manual.editable': "Manual override - click to change or clear",
+    'status.computed': "Computed from departure time",
+    'status.computed.editable': "Computed from departure time - click to override",
+    'status.clearOverride': "Clear override (use computed)",
+    'status.manualIcon': "manual override",
+
+    'time.departsNow': "departs now",
+    'time.departsIn': "departs in {duration}",
+    'time.leftAgo': "left {duration} ago",
+    'time.minutes': "{minutes} min",
+    'time.hours': "{hours} h",
+    'time.hoursMinutes': "{hours} h {minutes} min",
+    'timeZone.airport': "Airport",
+    'timeZone.utc': "UTC",
+    'timeZone.local': "My time",
+    'timeZone.label': "time zone for departure times",
+
+    'table.label': "flights",
+    'table.flightNumber': "Flight No.",
+    'table.gate': "Gate",
+    'table.status': "Status",
+    'table.destination': "Destination",
+    'table.departureTime': "Departure Time",
+    'table.departs': "Departs",
+    'table.sortHint': "Click to sort, Shift+click to add as a secondary sort",
+    'table.selectAll': "select all flights",
+    'table.empty': "No flights to display.",
+    'table.keyboardHint': "Use the arrow keys to move between flights and their actions. Enter opens the flight details.",
+    'row.select': "select flight {flightNumber}",
+    'row.details': "view flight details and history",
+    'row.edit': "edit flight",
+    'row.delete': "delete flight",
+    'row.destinationTime': "{time} {zone} in {city}",
+
+    'filter.flightNumberPrefix': "Flight No. starts with",
+    'filter.destination': "Destination",
+    'filter.gate': "Gate / Terminal",
+    'filter.gatePlaceholder': "B, C12 or B1-B20",
+    'filter.status': "Status",
+    'filter.departsFrom': "Departs from",
+    'filter.departsUntil': "Departs until",
+    'filter.nextTwoHours': "Next 2 h",
+    'filter.apply': "Filter",
+
+    'form.flightNumber': "Flight Number",
+    'form.destination': "Destination",
+    'form.departureTime': "Departure Time *",
+    'form.gate': "Gate",
+    'form.add': "Add",
+    'form.invalidDate': "Invalid date.",
+    'form.invalidData': "Invalid data submitted.",
+    'form.fixHighlighted': "Please correct the highlighted errors.",
+    'form.validationError': "Validation Error: {details}",
+    'form.checkInput': "Please check your input.",
+    'add.success': "Flight {flightNumber} added!",
+    'add.failed': "Failed to add flight. Please try again.",
+    'add.invalidTime': "Invalid departure time selected.",
+    'add.conflict': "Conflict: {details}",
+    'add.conflictDefault': "Flight number might already exist.",
+    'edit.title': "Edit Flight {flightNumber}",
+    'edit.success': "Flight {flightNumber} updated!",
+    'edit.failed': "Failed to update flight. Please try again.",
+    'edit.deletedMeanwhile': "Someone else deleted this flight while you were editing it.",
+    'edit.conflictReloaded': "Someone else changed this flight while you were editing it. The form now shows their version; review it and save again to apply your changes.",
+    'edit.conflictReopen': "Someone else changed this flight while you were editing it. Close this dialog and reopen it to load the latest details.",
+    'edit.notFound': "This flight no longer exists. It may have been deleted by another operator.",
+
+    'dashboard.addTitle': "Add New Flight",
+    'dashboard.import': "Import CSV / JSON",
+    'dashboard.filterTitle': "Filter Flights",
+    'dashboard.boardTitle': "Live Flight Information",
+    'dashboard.recentlyDeleted': "Recently deleted",
+    'dashboard.noFlights': "No flights match the current criteria.",
+    'dashboard.flightAdded': "Flight {flightNumber} Added",
+    'dashboard.flightDeleted': "Flight {flightNumber} Deleted",
+    'dashboard.hubError': "Could not connect to real-time server. Retrying in the background.",
+
+    'delete.failed': "Error deleting flight. Please try again.",
+    'delete.notFound': "Flight not found (already deleted?).",
+    'delete.serverError': "Server error deleting flight.",
+    'delete.statusError': "Error deleting ({status}).",
+    'delete.networkError': "Network error deleting flight.",
+    'delete.unexpected': "Unexpected error during deletion.",
+    'delete.cancelled': "Deletion of flight {flightNumber} cancelled",
+    'undo.pending': "Deleting flight {flightNumber}…",
+    'undo.deleted': "Flight {flightNumber} deleted",
+    'undo.action': "Undo",
+    'restore.success': "Flight {flightNumber} restored",
+    'restore.failed': "Error restoring flight. Please try again.",
+    'restore.exists': "Flight {flightNumber} already exists on the board.",
+    'restore.invalid': "Cannot restore: {details}",
+    'restore.invalidDefault': "the flight details are no longer valid.",
+    'restore.serverError': "Server error restoring flight.",
+    'restore.statusError': "Error restoring ({status}).",
+    'restore.networkError': "Network error restoring flight.",
+    'override.cleared': "Flight {flightNumber} status override cleared",
+    'override.set': "Flight {flightNumber} set to {status}",
+    'override.failed': "Error updating flight status. Please try again.",
+    'override.notFound': "Flight not found (deleted?).",
+    'override.serverError': "Server error updating flight status.",
+    'override.statusError': "Error updating status ({status}).",
+    'override.networkError': "Network error updating flight status.",
+
+    'confirmDelete.title': "Delete flight {flightNumber}?",
+    'confirmDelete.details': "{destination}, gate {gate}, departing {departure}.",
+    'confirmDelete.undoHint': "You can undo for a few seconds, and restore it later from \"Recently deleted\".",
+    'confirmDelete.dontAskAgain': "Don't ask again",
+    'recentlyDeleted.title': "Recently deleted",
+    'recentlyDeleted.empty': "No flights deleted in the last 24 hours.",
+    'recentlyDeleted.restore': "Restore",
+    'recentlyDeleted.flight': "#{flightNumber} → {destination}, gate {gate}",
+    'recentlyDeleted.details': "Departs {departure} · deleted {deletedAt}",
+    'recentlyDeleted.detailsBy': "Departs {departure} · deleted {deletedAt} by {user}",
+    'recentlyDeleted.askBeforeDeleting': "Ask before deleting",
+
+    'selection.count': "{count} selected",
+    'selection.reassignGate': "Reassign gate",
+    'selection.progress': "bulk action progress",
+    'selection.running.delete': "Deleting {count} flights… {completed}/{count}",
+    'selection.running.delete_one': "Deleting {count} flight… {completed}/{count}",
+    'selection.running.reassignGate': "Reassigning gate for {count} flights… {completed}/{count}",
+    'selection.running.reassignGate_one': "Reassigning gate for {count} flight… {completed}/{count}",
+    'selection.done.delete': "{count} flights deleted",
+    'selection.done.delete_one': "{count} flight deleted",
+    'selection.done.reassignGate': "{count} flights moved",
+    'selection.done.reassignGate_one': "{count} flight moved",
+    'selection.failed': ", {count} failed",
+    'selection.confirmDelete.title': "Delete {count} flights?",
+    'selection.confirmDelete.title_one': "Delete {count} flight?",
+    'selection.confirmDelete.text': "The selected flights are deleted right away. You can restore them later from \"Recently deleted\".",
+    'selection.gateDialog.text': "Move {count} selected flights to:",
+    'selection.gateDialog.text_one': "Move {count} selected flight to:",
+    'selection.gateDialog.submit': "Reassign",
+    'selection.invalidGate': "Invalid gate",
+    'bulk.notFound': "Flight not found (already deleted?).",
+    'bulk.conflict': "Changed by someone else; reload and try again.",
+    'bulk.invalid': "Invalid data.",
+    'bulk.serverError': "Server error.",
+    'bulk.statusError': "Request failed ({status}).",
+    'bulk.networkError': "Network error.",
+    'bulk.unexpected': "Unexpected error.",
+
+    'announce.status': "Flight {flightNumber} now {status} at gate {gate}.",
+    'announce.gate': "Flight {flightNumber} moved to gate {gate}.",
+    'announce.updated': "Flight {flightNumber} details changed.",
+    'announce.more': "And {count} more updates.",
+    'announce.more_one': "And {count} more update.",
+
+    'watch.add': "watch flight {flightNumber}",
+    'watch.remove': "stop watching flight {flightNumber}",
+    'watch.title': "My flights",
+    'watch.lastKnown': "Not on the current board; last known details",
+    'watch.settings': "alert settings",
+    'watch.settingsTitle': "Alerts for flight {flightNumber}",
+    'watch.alertOn': "Notify me when the status becomes",
+    'watch.alertDeleted': "Notify me when the flight is deleted",
+    'watch.sound': "Play a sound",
+    'watch.permissionRequest': "Enable desktop notifications",
+    'watch.permissionDenied': "Desktop notifications are blocked for this site. Allow them in the browser's site settings to get alerts.",
+    'watch.permissionUnsupported': "This browser can't show desktop notifications. Sound alerts still work.",
+    'watch.notify.status': "Flight {flightNumber}: {status}",
+    'watch.notify.deleted': "Flight {flightNumber} was deleted",
+    'watch.notify.details': "{destination}, gate {gate}",
+
+    'gate.conflict': "Gate {gate} is also used within {minutes} minutes by {flights}.",
+    'gate.conflictFlight': "#{flightNumber} at {time}",
+    'gate.suggestions': "Free nearby:",
+    'gate.noSuggestions': "No free gate found nearby.",
+    'gate.useSuggestion': "Use gate {gate}",
+    'gate.assignAnyway': "Assign anyway",
+    'gate.confirmRequired': "Pick a free gate or check \"Assign anyway\" to save.",
+    'gate.badge': "Gate conflict",
+    'gate.badgeDetails': "Gate {gate} is also used within {minutes} minutes by {flights}",
+
+    'view.label': "board view",
+    'view.table': "Flight list",
+    'view.timeline': "Gate timeline",
+    'timeline.label': "Gate timeline",
+    'timeline.previousDay': "previous day",
+    'timeline.nextDay': "next day",
+    'timeline.now': "Now",
+    'timeline.zoomIn': "zoom in",
+    'timeline.zoomOut': "zoom out",
+    'timeline.gate': "Gate",
+    'timeline.empty': "No flights at any gate on this day.",
+    'timeline.block': "#{flightNumber} to {destination}, departs {time}, {status}",
+    'timeline.keyboardHint': "Press Enter for details. Operators can hold Shift and use the arrow keys to move the flight by {minutes} minutes or to the next gate.",
+    'timeline.moveConflictTitle': "Move flight {flightNumber}?",
+    'timeline.moved': "Flight {flightNumber} moved to gate {gate}.",
+    'timeline.moveFailed': "Could not move flight {flightNumber}: {details}",
+
+    'export.button': "Export",
+    'export.csv': "For spreadsheets",
+    'export.json': "For scripts",
+    'export.ics': "Calendar (.ics)",
+    'export.ics.description': "One event per departure",
+    'export.print': "Print",
+    'export.print.description': "Paper schedule for gates",
+
+    'import.title': "Import Flights",
+    'import.titleFile': "Import Flights from {fileName}",
+    'import.intro': "Choose a CSV or JSON file with one flight per row. Columns for flight number, destination, departure time and gate are detected from the header and can be adjusted before importing.",
+    'import.chooseFile': "Choose file",
+    'import.chooseAnother': "Choose another file",
+    'import.importAnother': "Import another file",
+    'import.readFailed': "Could not read the file.",
+    'import.emptyFile': "The file is empty.",
+    'import.notFlightArray': "Expected an array of flight objects (or an object with a \"flights\" array).",
+    'import.noRows': "The file has no flight rows.",
+    'import.column': "{field} column",
+    'import.notMapped': "Not mapped",
+    'import.columnNotMapped': "Column not mapped",
+    'import.unrecognizedDate': "Unrecognized date/time (use e.g. 2025-06-01 14:30 or ISO 8601).",
+    'import.validCount': "{valid} of {count} rows are valid.",
+    'import.skipHint': "Rows with errors will be skipped.",
+    'import.previewLabel': "import preview",
+    'import.row': "Row",
+    'import.valid': "Valid",
+    'import.rowSkipped': "This row will be skipped",
+    'import.rowSummary': "Row {rowNumber}: {flightNumber} → {destination}",
+    'import.noFlightNumber': "(no flight no.)",
+    'import.submit': "Import {count} flights",
+    'import.submit_one': "Import {count} flight",
+    'import.running': "Importing…",
+    'import.progress': "Importing flights… {completed} / {total}",
+    'import.done': "Imported {created} of {count} flights",
+    'import.doneWithFailures': "Imported {created} of {count} flights ({failed} failed)",
+    'import.created': "Created",
+    'import.duplicates': "Duplicates (already exist)",
+    'import.rejected': "Rejected by server validation",
+    'import.otherFailures': "Other failures",
+    'import.duplicate': "Flight number already exists.",
+    'import.invalidInput': "Invalid input",
+
+    'presets.button': "Presets",
+    'presets.empty': "No saved presets",
+    'presets.delete': "delete preset {name}",
+    'presets.saveCurrent': "Save current view…",
+    'presets.import': "Import presets…",
+    'presets.export': "Export presets",
+    'presets.saveTitle': "Save view as preset",
+    'presets.name': "Preset name",
+    'presets.namePlaceholder': "e.g. Morning bank, Terminal 3",
+    'presets.nameHint': "Saves the applied filters and sort. Departure times are kept as times of day.",
+    'presets.saved': "Preset \"{name}\" saved",
+    'presets.saveFailed': "Could not save preset. Browser storage may be full or disabled.",
+    'presets.imported': "Imported {count} presets",
+    'presets.imported_one': "Imported {count} preset",
+    'presets.importFailed': "Import failed: {details}",
+    'presets.importFailedDefault': "unknown error",
+    'presets.invalidFile': "The file is not a Flight Deck presets export.",
+
+    'details.label': "flight details",
+    'details.title': "Flight #{flightNumber}",
+    'details.titleUnknown': "Flight",
+    'details.close': "close details",
+    'details.gone': "This flight is no longer on the board.",
+    'history.title': "History",
+    'history.sourceServer': "From the server audit log",
+    'history.sourceLocal': "Changes received by this browser",
+    'history.serverError': "Could not load the server history. Showing changes recorded in this browser.",
+    'history.empty': "No changes recorded yet.",
+    'history.added': "Flight created",
+    'history.statusCleared': "Status override cleared",
+    'history.backToComputed': "Back to computed status",
+    'history.previousStatus': "Was {status}",
+    'history.statusSet': "Status set to {status} (manual)",
+    'history.statusChanged': "Status changed to {status}",
+    'history.updated': "Flight details changed",
+    'history.deleted': "Flight deleted",
+    'history.change': "Change",
+    'history.by': "by {user}",
+    'history.field.flightNumber': "Flight number",
+    'history.field.destination': "Destination",
+    'history.field.departureTime': "Departure",
+    'history.field.gate': "Gate",
+
+    'print.title': "Departures",
+    'print.summary': "{filters} · {count} flights · printed {printedAt}",
+    'print.summary_one': "{filters} · {count} flight · printed {printedAt}",
+    'print.time': "Time ({zone})",
+    'print.flight': "Flight",
+    'print.filter.all': "All flights",
+    'print.filter.flightNumber': "flight {prefix}*",
+    'print.filter.destination': "destination \"{destination}\"",
+    'print.filter.gate': "gate {gate}",
+    'print.filter.status': "status {statuses}",
+    'print.filter.from': "from {time}",
+    'print.filter.until': "until {time}",
+
+    'kiosk.title': "DEPARTURES",
+    'kiosk.label': "Departures",
+    'kiosk.time': "Time",
+    'kiosk.flight': "Flight",
+    'kiosk.offline': "Offline - showing last known information",
+    'kiosk.loading': "Loading departures…",
+    'kiosk.unauthorized': "This display is not authorized to show departures.",
+    'kiosk.unauthorizedHint': "Add the kiosk token to its address (/kiosk?token=…) or sign in to Flight Deck once in this browser.",
+    'kiosk.page': "Page {page} / {count}",
+    'kiosk.delayed': "DELAYED",
+    'kiosk.delayedFlight': "{flightNumber} {destination} {time} GATE {gate}",
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,373 @@
+import { MessageKey } from './en';
+
+/** Hebrew messages. Typed against the English keys so a missing translation fails the build. */
+export const he: Record<MessageKey, string> = {
+    'app.title': "Flight Deck",
+    'app.signOut': "התנתקות",
+    'app.language': "שפה",
+    'theme.label': "ערכת נושא",
+    'theme.system': "לפי המערכת",
+    'theme.light': "בהירה",
+    'theme.dark': "כהה",
+    'theme.highContrast': "ניגודיות גבוהה",
+    'role.operator': "מפעיל",
+    'role.viewer': "צופה",
+
+    'common.cancel': "ביטול",
+    'common.close': "סגירה",
+    'common.save': "שמירה",
+    'common.delete': "מחיקה",
+    'common.clear': "ניקוי",
+    'common.done': "סיום",
+    'common.invalidJson': "הקובץ אינו JSON תקין.",
+
+    'error.network': "שגיאת רשת: לא ניתן להתחבר לשרת.",
+    'error.unauthorized': "שגיאת הרשאה: ייתכן שיש להתחבר מחדש או שאין לך הרשאה.",
+    'error.server': "שגיאת שרת: משהו השתבש אצלנו. נסו שוב מאוחר יותר.",
+    'error.client': "שגיאת לקוח: {status}",
+    'error.requestSetup': "שגיאה בהכנת הבקשה: {message}",
+    'error.unexpected': "אירעה שגיאה לא צפויה בדפדפן.",
+    'error.permissionDenied': "אין הרשאה.",
+
+    'validation.required': "שדה חובה",
+    'validation.max10Chars': "עד 10 תווים",
+    'validation.max100Chars': "עד 100 תווים",
+    'validation.departureRequired': "יש להזין שעת המראה.",
+    'validation.departureInFuture': "שעת ההמראה חייבת להיות בעתיד.",
+    'validation.invalidInput': "קלט לא תקין",
+    'flights.loadFailed': "טעינת נתוני הטיסות נכשלה. נסו שוב מאוחר יותר.",
+    'flights.unauthorized': "ההרשאה נכשלה. בדקו את ההתחברות או את ההרשאות.",
+    'flights.serverError': "שגיאת שרת: לא ניתן לטעון את נתוני הטיסות כרגע.",
+    'flights.statusError': "שגיאה בטעינת הטיסות ({status}).",
+    'flights.requestFailed': "שגיאה בטעינת הטיסות: {details}",
+    'flights.networkError': "שגיאת רשת: לא ניתן להתחבר לשרת.",
+    'flights.unexpected': "אירעה שגיאה בלתי צפויה בטעינת הנתונים.",
+
+    'login.username': "שם משתמש",
+    'login.password': "סיסמה",
+    'login.submit': "כניסה",
+    'login.sessionExpired': "פג תוקף ההתחברות. יש להתחבר מחדש.",
+    'login.failed': "הכניסה נכשלה. נסו שוב.",
+    'login.invalidCredentials': "שם משתמש או סיסמה שגויים.",
+    'login.forbidden': "לחשבון זה אין הרשאה להשתמש ב-Flight Deck.",
+    'login.tooManyAttempts': "יותר מדי ניסיונות. המתינו רגע ונסו שוב.",
+    'login.serverError': "שגיאת שרת: לא ניתן להתחבר כרגע.",
+
+    'connection.connecting': "מתחבר…",
+    'connection.connecting.description': "מתחבר לשרת העדכונים החיים.",
+    'connection.live': "חי",
+    'connection.live.description': "מתקבלים עדכונים חיים.",
+    'connection.reconnecting': "מתחבר מחדש…",
+    'connection.reconnecting.description': "החיבור אבד. העדכונים יתחדשו והלוח יסתנכרן לאחר החיבור מחדש.",
+    'connection.offline': "מנותק",
+    'connection.offline.description': "לא מתקבלים עדכונים חיים. מנסה שוב אוטומטית.",
+
+    'status.Scheduled': "מתוכננת",
+    'status.Boarding': "עלייה למטוס",
+    'status.Departed': "המריאה",
+    'status.Landed': "נחתה",
+    'status.Delayed': "מעוכבת",
+    'status.Unknown': "לא ידוע",
+    'status.manual': "נקבע ידנית",
+    'status.manual.editable': "נקבע ידנית - לחצו כדי לשנות או לבטל",
+    'status.computed': "מחושב לפי שעת ההמראה",
+    'status.computed.editable': "מחושב לפי שעת ההמראה - לחצו כדי לקבוע ידנית",
+    'status.clearOverride': "ביטול הקביעה הידנית (חישוב אוטומטי)",
+    'status.manualIcon': "נקבע ידנית",
+
+    'time.departsNow': "ממריאה עכשיו",
+    'time.departsIn': "ממריאה בעוד {duration}",
+    'time.leftAgo': "המריאה לפני {duration}",
+    'time.minutes': "{minutes} דק׳",
+    'time.hours': "{hours} שע׳",
+    'time.hoursMinutes': "{hours} שע׳ ו-{minutes} דק׳",
+    'timeZone.airport': "שדה התעופה",
+    'timeZone.utc': "UTC",
+    'timeZone.local': "השעה שלי",
+    'timeZone.label': "אזור זמן לשעות ההמראה",
+
+    'table.label': "טיסות",
+    'table.flightNumber': "מס׳ טיסה",
+    'table.gate': "שער",
+    'table.status': "סטטוס",
+    'table.destination': "יעד",
+    'table.departureTime': "שעת המראה",
+    'table.departs': "המראה",
+    'table.sortHint': "לחצו למיון, Shift+לחיצה להוספת מיון משני",
+    'table.selectAll': "בחירת כל הטיסות",
+    'table.empty': "אין טיסות להצגה.",
+    'table.keyboardHint': "השתמשו במקשי החצים כדי לעבור בין טיסות ופעולות. Enter פותח את פרטי הטיסה.",
+    'row.select': "בחירת טיסה {flightNumber}",
+    'row.details': "פרטי הטיסה והיסטוריה",
+    'row.edit': "עריכת טיסה",
+    'row.delete': "מחיקת טיסה",
+    'row.destinationTime': "{time} {zone} ב{city}",
+
+    'filter.flightNumberPrefix': "מס׳ טיסה מתחיל ב-",
+    'filter.destination': "יעד",
+    'filter.gate': "שער / טרמינל",
+    'filter.gatePlaceholder': "B, C12 או B1-B20",
+    'filter.status': "סטטוס",
+    'filter.departsFrom': "המראה מ-",
+    'filter.departsUntil': "המראה עד",
+    'filter.nextTwoHours': "השעתיים הקרובות",
+    'filter.apply': "סינון",
+
+    'form.flightNumber': "מספר טיסה",
+    'form.destination': "יעד",
+    'form.departureTime': "שעת המראה *",
+    'form.gate': "שער",
+    'form.add': "הוספה",
+    'form.invalidDate': "תאריך לא תקין.",
+    'form.invalidData': "הנתונים שנשלחו אינם תקינים.",
+    'form.fixHighlighted': "יש לתקן את השדות המסומנים.",
+    'form.validationError': "שגיאת אימות: {details}",
+    'form.checkInput': "יש לבדוק את הנתונים.",
+    'add.success': "טיסה {flightNumber} נוספה!",
+    'add.failed': "הוספת הטיסה נכשלה. נסו שוב.",
+    'add.invalidTime': "נבחרה שעת המראה לא תקינה.",
+    'add.conflict': "התנגשות: {details}",
+    'add.conflictDefault': "ייתכן שמספר הטיסה כבר קיים.",
+    'edit.title': "עריכת טיסה {flightNumber}",
+    'edit.success': "טיסה {flightNumber} עודכנה!",
+    'edit.failed': "עדכון הטיסה נכשל. נסו שוב.",
+    'edit.deletedMeanwhile': "מישהו אחר מחק את הטיסה בזמן שערכת אותה.",
+    'edit.conflictReloaded': "מישהו אחר שינה את הטיסה בזמן שערכת אותה. הטופס מציג כעת את הגרסה שלו; בדקו אותה ושמרו שוב כדי להחיל את השינויים שלכם.",
+    'edit.conflictReopen': "מישהו אחר שינה את הטיסה בזמן שערכת אותה. סגרו את החלון ופתחו אותו מחדש כדי לטעון את הפרטים העדכניים.",
+    'edit.notFound': "הטיסה כבר לא קיימת. ייתכן שמפעיל אחר מחק אותה.",
+
+    'dashboard.addTitle': "הוספת טיסה חדשה",
+    'dashboard.import': "ייבוא CSV / JSON",
+    'dashboard.filterTitle': "סינון טיסות",
+    'dashboard.boardTitle': "מידע טיסות בזמן אמת",
+    'dashboard.recentlyDeleted': "נמחקו לאחרונה",
+    'dashboard.noFlights': "אין טיסות התואמות את הסינון.",
+    'dashboard.flightAdded': "טיסה {flightNumber} נוספה",
+    'dashboard.flightDeleted': "טיסה {flightNumber} נמחקה",
+    'dashboard.hubError': "לא ניתן להתחבר לשרת העדכונים. מנסה שוב ברקע.",
+
+    'delete.failed': "מחיקת הטיסה נכשלה. נסו שוב.",
+    'delete.notFound': "הטיסה לא נמצאה (אולי כבר נמחקה?).",
+    'delete.serverError': "שגיאת שרת במחיקת הטיסה.",
+    'delete.statusError': "שגיאה במחיקה ({status}).",
+    'delete.networkError': "שגיאת רשת במחיקת הטיסה.",
+    'delete.unexpected': "שגיאה לא צפויה במחיקה.",
+    'delete.cancelled': "מחיקת טיסה {flightNumber} בוטלה",
+    'undo.pending': "מוחק את טיסה {flightNumber}…",
+    'undo.deleted': "טיסה {flightNumber} נמחקה",
+    'undo.action': "ביטול",
+    'restore.success': "טיסה {flightNumber} שוחזרה",
+    'restore.failed': "שחזור הטיסה נכשל. נסו שוב.",
+    'restore.exists': "טיסה {flightNumber} כבר קיימת בלוח.",
+    'restore.invalid': "לא ניתן לשחזר: {details}",
+    'restore.invalidDefault': "פרטי הטיסה כבר אינם תקינים.",
+    'restore.serverError': "שגיאת שרת בשחזור הטיסה.",
+    'restore.statusError': "שגיאה בשחזור ({status}).",
+    'restore.networkError': "שגיאת רשת בשחזור הטיסה.",
+    'override.cleared': "הקביעה הידנית לטיסה {flightNumber} בוטלה",
+    'override.set': "טיסה {flightNumber} סומנה כ{status}",
+    'override.failed': "עדכון סטטוס הטיסה נכשל. נסו שוב.",
+    'override.notFound': "הטיסה לא נמצאה (אולי נמחקה?).",
+    'override.serverError': "שגיאת שרת בעדכון סטטוס הטיסה.",
+    'override.statusError': "שגיאה בעדכון הסטטוס ({status}).",
+    'override.networkError': "שגיאת רשת בעדכון סטטוס הטיסה.",
+
+    'confirmDelete.title': "למחוק את טיסה {flightNumber}?",
+    'confirmDelete.details': "{destination}, שער {gate}, המראה {departure}.",
+    'confirmDelete.undoHint': "אפשר לבטל במשך כמה שניות, ולשחזר אחר כך מ\"נמחקו לאחרונה\".",
+    'confirmDelete.dontAskAgain': "אל תשאל שוב",
+    'recentlyDeleted.title': "נמחקו לאחרונה",
+    'recentlyDeleted.empty': "לא נמחקו טיסות ב-24 השעות האחרונות.",
+    'recentlyDeleted.restore': "שחזור",
+    'recentlyDeleted.flight': "#{flightNumber} ← {destination}, שער {gate}",
+    'recentlyDeleted.details': "המראה {departure} · נמחקה {deletedAt}",
+    'recentlyDeleted.detailsBy': "המראה {departure} · נמחקה {deletedAt} על ידי {user}",
+    'recentlyDeleted.askBeforeDeleting': "לשאול לפני מחיקה",
+
+    'selection.count': "{count} נבחרו",
+    'selection.reassignGate': "העברת שער",
+    'selection.progress': "התקדמות הפעולה",
+    'selection.running.delete': "מוחק {count} טיסות… {completed}/{count}",
+    'selection.running.delete_one': "מוחק טיסה אחת… {completed}/{count}",
+    'selection.running.reassignGate': "מעביר שער ל-{count} טיסות… {completed}/{count}",
+    'selection.running.reassignGate_one': "מעביר שער לטיסה אחת… {completed}/{count}",
+    'selection.done.delete': "{count} טיסות נמחקו",
+    'selection.done.delete_one': "טיסה אחת נמחקה",
+    'selection.done.reassignGate': "{count} טיסות הועברו",
+    'selection.done.reassignGate_one': "טיסה אחת הועברה",
+    'selection.failed': ", {count} נכשלו",
+    'selection.confirmDelete.title': "למחוק {count} טיסות?",
+    'selection.confirmDelete.title_one': "למחוק טיסה אחת?",
+    'selection.confirmDelete.text': "הטיסות שנבחרו יימחקו מיד. אפשר לשחזר אותן אחר כך מ\"נמחקו לאחרונה\".",
+    'selection.gateDialog.text': "העברת {count} הטיסות שנבחרו לשער:",
+    'selection.gateDialog.text_one': "העברת הטיסה שנבחרה לשער:",
+    'selection.gateDialog.submit': "העברה",
+    'selection.invalidGate': "שער לא תקין",
+    'bulk.notFound': "הטיסה לא נמצאה (אולי כבר נמחקה?).",
+    'bulk.conflict': "שונתה על ידי מישהו אחר; טענו מחדש ונסו שוב.",
+    'bulk.invalid': "נתונים לא תקינים.",
+    'bulk.serverError': "שגיאת שרת.",
+    'bulk.statusError': "הבקשה נכשלה ({status}).",
+    'bulk.networkError': "שגיאת רשת.",
+    'bulk.unexpected': "שגיאה לא צפויה.",
+
+    'announce.status': "טיסה {flightNumber} כעת {status} בשער {gate}.",
+    'announce.gate': "טיסה {flightNumber} הועברה לשער {gate}.",
+    'announce.updated': "פרטי טיסה {flightNumber} השתנו.",
+    'announce.more': "ועוד {count} עדכונים.",
+    'announce.more_one': "ועוד עדכון אחד.",
+
+    'watch.add': "מעקב אחר טיסה {flightNumber}",
+    'watch.remove': "הפסקת מעקב אחר טיסה {flightNumber}",
+    'watch.title': "הטיסות שלי",
+    'watch.lastKnown': "לא מוצגת בלוח הנוכחי; הפרטים הידועים האחרונים",
+    'watch.settings': "הגדרות התראה",
+    'watch.settingsTitle': "התראות לטיסה {flightNumber}",
+    'watch.alertOn': "להתריע כשהסטטוס משתנה ל",
+    'watch.alertDeleted': "להתריע כשהטיסה נמחקת",
+    'watch.sound': "השמעת צליל",
+    'watch.permissionRequest': "הפעלת התראות שולחן עבודה",
+    'watch.permissionDenied': "התראות שולחן עבודה חסומות לאתר זה. אפשרו אותן בהגדרות האתר בדפדפן כדי לקבל התראות.",
+    'watch.permissionUnsupported': "דפדפן זה אינו תומך בהתראות שולחן עבודה. התראות צליל עדיין פועלות.",
+    'watch.notify.status': "טיסה {flightNumber}: {status}",
+    'watch.notify.deleted': "טיסה {flightNumber} נמחקה",
+    'watch.notify.details': "{destination}, שער {gate}",
+
+    'gate.conflict': "שער {gate} בשימוש גם בטווח של {minutes} דקות על ידי {flights}.",
+    'gate.conflictFlight': "#{flightNumber} ב-{time}",
+    'gate.suggestions': "שערים פנויים בקרבת מקום:",
+    'gate.noSuggestions': "לא נמצא שער פנוי בקרבת מקום.",
+    'gate.useSuggestion': "שימוש בשער {gate}",
+    'gate.assignAnyway': "להקצות בכל זאת",
+    'gate.confirmRequired': "יש לבחור שער פנוי או לסמן \"להקצות בכל זאת\" כדי לשמור.",
+    'gate.badge': "התנגשות שערים",
+    'gate.badgeDetails': "שער {gate} בשימוש גם בטווח של {minutes} דקות על ידי {flights}",
+
+    'view.label': "תצוגת הלוח",
+    'view.table': "רשימת טיסות",
+    'view.timeline': "ציר זמן שערים",
+    'timeline.label': "ציר זמן שערים",
+    'timeline.previousDay': "היום הקודם",
+    'timeline.nextDay': "היום הבא",
+    'timeline.now': "עכשיו",
+    'timeline.zoomIn': "הגדלה",
+    'timeline.zoomOut': "הקטנה",
+    'timeline.gate': "שער",
+    'timeline.empty': "אין טיסות בשערים ביום זה.",
+    'timeline.block': "#{flightNumber} אל {destination}, המראה ב-{time}, {status}",
+    'timeline.keyboardHint': "Enter לפרטים. מפעילים יכולים ללחוץ על Shift ועל מקשי החצים כדי להזיז את הטיסה ב-{minutes} דקות או לשער הבא.",
+    'timeline.moveConflictTitle': "להזיז את טיסה {flightNumber}?",
+    'timeline.moved': "טיסה {flightNumber} הועברה לשער {gate}.",
+    'timeline.moveFailed': "לא ניתן להזיז את טיסה {flightNumber}: {details}",
+
+    'export.button': "ייצוא",
+    'export.csv': "לגיליונות אלקטרוניים",
+    'export.json': "לסקריפטים",
+    'export.ics': "יומן (.ics)",
+    'export.ics.description': "אירוע לכל המראה",
+    'export.print': "הדפסה",
+    'export.print.description': "לוח מודפס לשערים",
+
+    'import.title': "ייבוא טיסות",
+    'import.titleFile': "ייבוא טיסות מ-{fileName}",
+    'import.intro': "בחרו קובץ CSV או JSON עם טיסה אחת בכל שורה. העמודות של מספר הטיסה, היעד, שעת ההמראה והשער מזוהות לפי הכותרת, ואפשר לשנות אותן לפני הייבוא.",
+    'import.chooseFile': "בחירת קובץ",
+    'import.chooseAnother': "בחירת קובץ אחר",
+    'import.importAnother': "ייבוא קובץ נוסף",
+    'import.readFailed': "לא ניתן לקרוא את הקובץ.",
+    'import.emptyFile': "הקובץ ריק.",
+    'import.notFlightArray': "נדרש מערך של אובייקטי טיסה (או אובייקט עם מערך \"flights\").",
+    'import.noRows': "אין בקובץ שורות טיסה.",
+    'import.column': "עמודת {field}",
+    'import.notMapped': "לא ממופה",
+    'import.columnNotMapped': "העמודה לא מופתה",
+    'import.unrecognizedDate': "תאריך או שעה לא מזוהים (למשל 2025-06-01 14:30 או ISO 8601).",
+    'import.validCount': "{valid} מתוך {count} שורות תקינות.",
+    'import.skipHint': "שורות עם שגיאות ידולגו.",
+    'import.previewLabel': "תצוגה מקדימה של הייבוא",
+    'import.row': "שורה",
+    'import.valid': "תקינה",
+    'import.rowSkipped': "שורה זו תדולג",
+    'import.rowSummary': "שורה {rowNumber}: {flightNumber} ← {destination}",
+    'import.noFlightNumber': "(ללא מספר טיסה)",
+    'import.submit': "ייבוא {count} טיסות",
+    'import.submit_one': "ייבוא טיסה אחת",
+    'import.running': "מייבא…",
+    'import.progress': "מייבא טיסות… {completed} / {total}",
+    'import.done': "יובאו {created} מתוך {count} טיסות",
+    'import.doneWithFailures': "יובאו {created} מתוך {count} טיסות ({failed} נכשלו)",
+    'import.created': "נוצרו",
+    'import.duplicates': "כפולות (כבר קיימות)",
+    'import.rejected': "נדחו באימות השרת",
+    'import.otherFailures': "כשלים אחרים",
+    'import.duplicate': "מספר הטיסה כבר קיים.",
+    'import.invalidInput': "קלט לא תקין",
+
+    'presets.button': "תצורות שמורות",
+    'presets.empty': "אין תצורות שמורות",
+    'presets.delete': "מחיקת התצורה {name}",
+    'presets.saveCurrent': "שמירת התצוגה הנוכחית…",
+    'presets.import': "ייבוא תצורות…",
+    'presets.export': "ייצוא תצורות",
+    'presets.saveTitle': "שמירת התצוגה כתצורה",
+    'presets.name': "שם התצורה",
+    'presets.namePlaceholder': "למשל גל בוקר, טרמינל 3",
+    'presets.nameHint': "שומר את הסינון והמיון שהוחלו. שעות ההמראה נשמרות כשעות ביום.",
+    'presets.saved': "התצורה \"{name}\" נשמרה",
+    'presets.saveFailed': "לא ניתן לשמור את התצורה. ייתכן שאחסון הדפדפן מלא או מושבת.",
+    'presets.imported': "יובאו {count} תצורות",
+    'presets.imported_one': "יובאה תצורה אחת",
+    'presets.importFailed': "הייבוא נכשל: {details}",
+    'presets.importFailedDefault': "שגיאה לא ידועה",
+    'presets.invalidFile': "הקובץ אינו קובץ תצורות של Flight Deck.",
+
+    'details.label': "פרטי הטיסה",
+    'details.title': "טיסה #{flightNumber}",
+    'details.titleUnknown': "טיסה",
+    'details.close': "סגירת הפרטים",
+    'details.gone': "הטיסה כבר לא מופיעה בלוח.",
+    'history.title': "היסטוריה",
+    'history.sourceServer': "מיומן הביקורת של השרת",
+    'history.sourceLocal': "שינויים שהתקבלו בדפדפן זה",
+    'history.serverError': "לא ניתן לטעון את ההיסטוריה מהשרת. מוצגים השינויים שנרשמו בדפדפן זה.",
+    'history.empty': "עדיין לא נרשמו שינויים.",
+    'history.added': "הטיסה נוצרה",
+    'history.statusCleared': "עקיפת הסטטוס בוטלה",
+    'history.backToComputed': "חזרה לסטטוס המחושב",
+    'history.previousStatus': "היה {status}",
+    'history.statusSet': "הסטטוס הוגדר ל-{status} (ידנית)",
+    'history.statusChanged': "הסטטוס השתנה ל-{status}",
+    'history.updated': "פרטי הטיסה השתנו",
+    'history.deleted': "הטיסה נמחקה",
+    'history.change': "שינוי",
+    'history.by': "על ידי {user}",
+    'history.field.flightNumber': "מספר טיסה",
+    'history.field.destination': "יעד",
+    'history.field.departureTime': "המראה",
+    'history.field.gate': "שער",
+
+    'print.title': "המראות",
+    'print.summary': "{filters} · {count} טיסות · הודפס {printedAt}",
+    'print.summary_one': "{filters} · טיסה אחת · הודפס {printedAt}",
+    'print.time': "שעה ({zone})",
+    'print.flight': "טיסה",
+    'print.filter.all': "כל הטיסות",
+    'print.filter.flightNumber': "טיסה {prefix}*",
+    'print.filter.destination': "יעד \"{destination}\"",
+    'print.filter.gate': "שער {gate}",
+    'print.filter.status': "סטטוס {statuses}",
+    'print.filter.from': "מ-{time}",
+    'print.filter.until': "עד {time}",
+
+    'kiosk.title': "המראות",
+    'kiosk.label': "המראות",
+    'kiosk.time': "שעה",
+    'kiosk.flight': "טיסה",
+    'kiosk.offline': "לא מחובר - מוצג המידע האחרון הידוע",
+    'kiosk.loading': "טוען המראות…",
+    'kiosk.unauthorized': "לתצוגה זו אין הרשאה להציג המראות.",
+    'kiosk.unauthorizedHint': "הוסיפו את אסימון הקיוסק לכתובת (/kiosk?token=…) או התחברו ל-Flight Deck פעם אחת בדפדפן זה.",
+    'kiosk.page': "עמוד {page} / {count}",
+    'kiosk.delayed': "מעוכבות",
+    'kiosk.delayedFlight': "{flightNumber} {destination} {time} שער {gate}",
+};
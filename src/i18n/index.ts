@@ -0,0 +1,51 @@
+import { en, MessageKey } from './en';
+import { he } from './he';
+
+export type { MessageKey } from './en';
+
+export type Language = 'en' | 'he';
+
+export interface ILanguageInfo {
+    label: string; // Shown in the language's own script
+    direction: 'ltr' | 'rtl';
+    dayjsLocale: string;
+}
+
+export const languages: Record<Language, ILanguageInfo> = {
+    en: { label: 'English', direction: 'ltr', dayjsLocale: 'en' },
+    he: { label: 'עברית', direction: 'rtl', dayjsLocale: 'he' },
+};
+
+const catalogs: Record<Language, Record<MessageKey, string>> = { en, he };
+
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export const isLanguage = (value: unknown): value is Language =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(languages, value);
+
+/** First supported language in the browser's preference list, else English. */
+export const detectLanguage = (): Language => {
+    const preferred = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+    const match = preferred.map(tag => tag?.split('-')[0].toLowerCase()).find(isLanguage);
+    return match ?? 'en';
+};
+
+export const isMessageKey = (value: unknown): value is MessageKey =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(en, value);
+
+export const translate = (language: Language, key: MessageKey, params?: MessageParams): string => {
+    const catalog = catalogs[language] ?? en;
+    const singularKey = params?.count === 1 ? `${key}_one` as MessageKey : null;
+    const template = (singularKey && catalog[singularKey]) || catalog[key] || en[key] || key;
+    return params
+        ? template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder))
+        : template;
+};
+
+/**
+ * Code without access to `t` (zod rules, parsers that throw) uses message keys
+ * as its messages; anything else, such as text from the server, is shown as is.
+ */
+export const translateMessage = (t: Translate, message: string): string =>
+    isMessageKey(message) ? t(message) : message;
@@ -1,24 +1,21 @@
 import ReactDOM from 'react-dom/client';
 import App from './App.tsx';
+import KioskBoard from './components/KioskBoard';
+import AppProviders from './components/AppProviders';
 import './index.css';
-import { ThemeProvider, createTheme } from '@mui/material/styles';
-import CssBaseline from '@mui/material/CssBaseline';
-import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
-import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
+import { loadStatusRules } from './utils/statusCalculator';
+import { isKioskRoute } from './utils/kioskConfig';
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
 
-const theme = createTheme();
+loadStatusRules();
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
-  <ThemeProvider theme={theme}>
-    <CssBaseline />
-    <LocalizationProvider dateAdapter={AdapterDayjs}>
-      <App />
-    </LocalizationProvider>
-  </ThemeProvider>
-);
\ No newline at end of file
+  <AppProviders>
+    {isKioskRoute(window.location.pathname) ? <KioskBoard /> : <App />}
+  </AppProviders>
+);
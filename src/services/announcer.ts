@@ -0,0 +1,46 @@
+// At most one announcement per interval; a burst is read as the first few messages plus a count.
+const ANNOUNCE_INTERVAL_MS = 2500;
+const MAX_MESSAGES_PER_ANNOUNCEMENT = 3;
+
+/** What the live region currently reads; `id` changes with every announcement so repeats are re-read. */
+export interface IAnnouncement {
+    id: number;
+    messages: string[];
+    // Messages left out of this announcement.
+    overflow: number;
+}
+
+let announcement: IAnnouncement | null = null;
+let queue: string[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+const flush = () => {
+    if (queue.length === 0) {
+        flushTimer = null;
+        return;
+    }
+    announcement = {
+        id: (announcement?.id ?? 0) + 1,
+        messages: queue.slice(0, MAX_MESSAGES_PER_ANNOUNCEMENT),
+        overflow: Math.max(0, queue.length - MAX_MESSAGES_PER_ANNOUNCEMENT),
+    };
+    queue = [];
+    listeners.forEach(listener => listener());
+    flushTimer = setTimeout(flush, ANNOUNCE_INTERVAL_MS);
+};
+
+export const getAnnouncement = (): IAnnouncement | null => announcement;
+
+/** Subscribe to announcements; returns an unsubscribe function (useSyncExternalStore-compatible). */
+export const subscribeAnnouncements = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
+
+/** Queues a message for screen readers. The first one is read at once, later ones are batched. */
+export const announce = (message: string): void => {
+    if (queue.includes(message)) return;
+    queue.push(message);
+    if (flushTimer === null) flush();
+};
@@ -1,5 +1,7 @@
-import axios from 'axios';
-import { IFlight, ICreateFlightRequest } from '../types/flight';
+import axios, { InternalAxiosRequestConfig } from 'axios';
+import { getAccessToken, getAuthState, refreshAccessToken } from './authService';
+import { IFlightHistoryEntry } from '../types/history';
+import { IFlight, ICreateFlightRequest, IUpdateFlightRequest, FlightStatus, IFlightPageRequest, IFlightFilters } from '../types/flight';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
 
@@ -14,16 +16,82 @@ const apiClient = axios.create({
     },
 });
 
-export const getFlights = async (destination?: string, status?: string): Promise<IFlight[]> => {
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _authRetried?: boolean };
+
+// Requests made while a refresh is in flight wait for it, then go out with the new token.
+apiClient.interceptors.request.use(async (config) => {
+    const token = await getAccessToken();
+    if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+    }
+    return config;
+});
+
+// A 401 with a live session means the token expired server-side: refresh once and replay the request.
+apiClient.interceptors.response.use(undefined, async (error) => {
+    const originalRequest = axios.isAxiosError(error) ? error.config as RetriableRequestConfig | undefined : undefined;
+    if (!originalRequest || error.response?.status !== 401 || originalRequest._authRetried || !getAuthState().session) {
+        throw error;
+    }
+    originalRequest._authRetried = true;
+    try {
+        await refreshAccessToken();
+    } catch {
+        throw error;
+    }
+    return apiClient(originalRequest);
+});
+
+interface IFlightQueryParams {
+    destination?: string;
+    status?: string[];
+    gate?: string;
+    flightNumber?: string;
+    departureFrom?: string;
+    departureTo?: string;
+    page?: number;
+    pageSize?: number;
+    sort?: string;
+}
+
+/**
+ * Filters are sent as query params (`status` repeated once per value). Older
+ * backends may ignore some of them, so callers must re-apply the filters
+ * client-side. `paging` is optional: when given, the server returns one page
+ * ordered by `sort` (serialized as `sort=gate:asc,departureTime:desc`).
+ */
+export const getFlights = async (filters: IFlightFilters = {}, paging?: IFlightPageRequest): Promise<IFlight[]> => {
     try {
-        const params: { destination?: string; status?: string } = {};
-        if (destination) {
-            params.destination = destination;
+        const params: IFlightQueryParams = {};
+        if (filters.destination) {
+            params.destination = filters.destination;
         }
-        if (status) {
-            params.status = status;
+        if (filters.statuses && filters.statuses.length > 0) {
+            params.status = filters.statuses;
         }
-        const response = await apiClient.get<IFlight[]>('/flights', { params });
+        if (filters.gate) {
+            params.gate = filters.gate;
+        }
+        if (filters.flightNumberPrefix) {
+            params.flightNumber = filters.flightNumberPrefix;
+        }
+        if (filters.departureFrom) {
+            params.departureFrom = filters.departureFrom;
+        }
+        if (filters.departureTo) {
+            params.departureTo = filters.departureTo;
+        }
+        if (paging) {
+            params.page = paging.page;
+            params.pageSize = paging.pageSize;
+            if (paging.sort && paging.sort.length > 0) {
+                params.sort = paging.sort.map(c => `${c.key}:${c.direction}`).join(',');
+            }
+        }
+        const response = await apiClient.get<IFlight[]>('/flights', {
+            params,
+            paramsSerializer: { indexes: null },
+        });
         return response.data;
     } catch (error) {
         console.error("Error fetching flights:", error);
@@ -44,6 +112,41 @@ export const addFlight = async (flightData: ICreateFlightRequest): Promise<IFlig
     }
 };
 
+export const updateFlight = async (id: string, flightData: IUpdateFlightRequest, version?: string): Promise<IFlight> => {
+    try {
+        const headers = version ? { 'If-Match': version } : undefined;
+        const response = await apiClient.put<IFlight>(`/flights/${id}`, flightData, { headers });
+        const etag = response.headers['etag'];
+        return { ...response.data, version: response.data.version ?? etag ?? undefined };
+    } catch (error) {
+        console.error(`Error updating flight with ID ${id}:`, error);
+        if (axios.isAxiosError(error) && error.response) {
+            console.error("Validation/API Error:", error.response.data);
+        }
+        throw error;
+    }
+};
+
+export const setFlightStatusOverride = async (id: string, status: FlightStatus): Promise<IFlight> => {
+    try {
+        const response = await apiClient.put<IFlight>(`/flights/${id}/status`, { status });
+        return response.data;
+    } catch (error) {
+        console.error(`Error overriding status of flight with ID ${id}:`, error);
+        throw error;
+    }
+};
+
+export const clearFlightStatusOverride = async (id: string): Promise<IFlight> => {
+    try {
+        const response = await apiClient.delete<IFlight>(`/flights/${id}/status`);
+        return response.data;
+    } catch (error) {
+        console.error(`Error clearing status override of flight with ID ${id}:`, error);
+        throw error;
+    }
+};
+
 export const deleteFlight = async (id: string): Promise<void> => {
     try {
         await apiClient.delete(`/flights/${id}`);
@@ -56,7 +159,7 @@ export const deleteFlight = async (id: string): Promise<void> => {
 export const getFlightById = async (id: string): Promise<IFlight | null> => {
     try {
         const response = await apiClient.get<IFlight>(`/flights/${id}`);
-        return response.data;
+        return { ...response.data, version: response.data.version ?? response.headers['etag'] ?? undefined };
     } catch (error) {
         if (axios.isAxiosError(error) && error.response?.status === 404) {
             return null;
@@ -64,4 +167,22 @@ export const getFlightById = async (id: string): Promise<IFlight | null> => {
         console.error(`Error fetching flight with ID ${id}:`, error);
         throw error;
     }
-};
\ No newline at end of file
+};
+
+/**
+ * Server-side audit log for a flight, oldest first. Returns null when the
+ * backend has no history endpoint (404/501) so callers can fall back to the
+ * locally recorded log.
+ */
+export const getFlightHistory = async (id: string): Promise<IFlightHistoryEntry[] | null> => {
+    try {
+        const response = await apiClient.get<IFlightHistoryEntry[]>(`/flights/${id}/history`);
+        return response.data.map(entry => ({ ...entry, flightId: entry.flightId ?? id }));
+    } catch (error) {
+        if (axios.isAxiosError(error) && (error.response?.status === 404 || error.response?.status === 501)) {
+            return null;
+        }
+        console.error(`Error fetching history of flight with ID ${id}:`, error);
+        throw error;
+    }
+};
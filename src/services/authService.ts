@@ -0,0 +1,173 @@
+import axios from 'axios';
+import { IAuthSession, IAuthUser, ILoginRequest, ITokenResponse, UserRole } from '../types/auth';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+const STORAGE_KEY = 'flightDeck.auth';
+// Refresh slightly early so a token doesn't expire between the check and the server receiving it.
+const EXPIRY_SKEW_MS = 30000;
+
+// Separate client without the apiService interceptors, so refresh calls can't recurse into themselves.
+const authClient = axios.create({
+    baseURL: API_BASE_URL,
+    headers: {
+        'Content-Type': 'application/json',
+    },
+});
+
+export interface AuthState {
+    session: IAuthSession | null;
+    // True after the session ended because its tokens could no longer be refreshed.
+    sessionExpired: boolean;
+}
+
+const loadSession = (): IAuthSession | null => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return null;
+        const parsed = JSON.parse(raw) as IAuthSession;
+        return parsed?.accessToken && parsed.user ? parsed : null;
+    } catch (error) {
+        console.error("Error reading auth session from localStorage:", error);
+        return null;
+    }
+};
+
+let authState: AuthState = { session: loadSession(), sessionExpired: false };
+let refreshPromise: Promise<string> | null = null;
+// Read-only token of an unattended kiosk display, from its URL; only used while nobody is signed in.
+let kioskToken: string | undefined;
+const listeners = new Set<() => void>();
+
+const setAuthState = (next: AuthState) => {
+    authState = next;
+    try {
+        if (next.session) {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(next.session));
+        } else {
+            localStorage.removeItem(STORAGE_KEY);
+        }
+    } catch (error) {
+        console.error("Error saving auth session to localStorage:", error);
+    }
+    listeners.forEach(listener => listener());
+};
+
+export const getAuthState = (): AuthState => authState;
+
+/** Subscribe to login/logout/refresh; returns an unsubscribe function (useSyncExternalStore-compatible). */
+export const subscribeAuthState = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
+
+// Unknown or missing roles get the least privilege.
+const toRole = (role?: string): UserRole => (role?.toLowerCase() === 'operator' || role?.toLowerCase() === 'admin' ? 'operator' : 'viewer');
+
+const decodeJwtExpiry = (token: string): number | undefined => {
+    try {
+        const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+        return typeof payload.exp === 'number' ? payload.exp * 1000 : undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+const toSession = (response: ITokenResponse, previousUser?: IAuthUser): IAuthSession => {
+    const user: IAuthUser | undefined = response.user
+        ? { username: response.user.username, displayName: response.user.displayName, role: toRole(response.user.role) }
+        : previousUser;
+    if (!response.accessToken || !user) {
+        throw new Error("Invalid token response from server.");
+    }
+    return {
+        user,
+        accessToken: response.accessToken,
+        refreshToken: response.refreshToken ?? authState.session?.refreshToken,
+        expiresAt: response.expiresIn !== undefined
+            ? Date.now() + response.expiresIn * 1000
+            : decodeJwtExpiry(response.accessToken),
+    };
+};
+
+export const isOperator = (user: IAuthUser | null | undefined): boolean => user?.role === 'operator';
+
+export const login = async (credentials: ILoginRequest): Promise<IAuthUser> => {
+    try {
+        const response = await authClient.post<ITokenResponse>('/auth/login', credentials);
+        const session = toSession(response.data);
+        setAuthState({ session, sessionExpired: false });
+        return session.user;
+    } catch (error) {
+        console.error("Error logging in:", error);
+        throw error;
+    }
+};
+
+export const logout = async (): Promise<void> => {
+    const refreshToken = authState.session?.refreshToken;
+    setAuthState({ session: null, sessionExpired: false });
+    if (refreshToken) {
+        // Best effort: the local session is already gone even if revoking fails.
+        await authClient.post('/auth/logout', { refreshToken })
+            .catch(error => console.warn("Error revoking refresh token:", error));
+    }
+};
+
+/** Ends the session because it can no longer be refreshed, so the login screen can explain why. */
+export const expireSession = (): void => {
+    if (authState.session) {
+        setAuthState({ session: null, sessionExpired: true });
+    }
+};
+
+const isAccessTokenExpired = (session: IAuthSession) =>
+    session.expiresAt !== undefined && session.expiresAt - EXPIRY_SKEW_MS <= Date.now();
+
+/**
+ * Exchanges the refresh token for a new access token. Concurrent callers
+ * share one request, so a burst of expired requests triggers a single refresh
+ * and all of them replay with the same new token. Ends the session on failure.
+ */
+export const refreshAccessToken = (): Promise<string> => {
+    if (refreshPromise) return refreshPromise;
+
+    const session = authState.session;
+    if (!session?.refreshToken) {
+        expireSession();
+        return Promise.reject(new Error("No refresh token available."));
+    }
+
+    refreshPromise = (async () => {
+        try {
+            const response = await authClient.post<ITokenResponse>('/auth/refresh', { refreshToken: session.refreshToken });
+            const next = toSession(response.data, session.user);
+            setAuthState({ session: next, sessionExpired: false });
+            return next.accessToken;
+        } catch (error) {
+            console.error("Error refreshing access token:", error);
+            expireSession();
+            throw error;
+        } finally {
+            refreshPromise = null;
+        }
+    })();
+    return refreshPromise;
+};
+
+/** Lets the kiosk read the board without signing in; see `parseKioskConfig`. */
+export const setKioskToken = (token: string | undefined): void => {
+    kioskToken = token;
+};
+
+/**
+ * A currently valid access token, refreshing first if it has expired, or the
+ * kiosk token (if any) when signed out. Used for API requests and the SignalR handshake.
+ */
+export const getAccessToken = async (): Promise<string | undefined> => {
+    const session = authState.session;
+    if (!session) return kioskToken;
+    if (refreshPromise || isAccessTokenExpired(session)) {
+        return refreshAccessToken();
+    }
+    return session.accessToken;
+};
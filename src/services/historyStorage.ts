@@ -0,0 +1,90 @@
+import { IFlightHistoryEntry } from '../types/history';
+
+const DB_NAME = 'flightDeck';
+const DB_VERSION = 1;
+const STORE_NAME = 'flightHistory';
+// Long enough to reconstruct any recent shift, short enough that the log doesn't grow forever.
+const RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Used when IndexedDB is unavailable (private mode, old browsers): history then lasts for the session only.
+const memoryFallback: IFlightHistoryEntry[] = [];
+const listeners = new Set<(flightId: string) => void>();
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const pruneExpired = (db: IDBDatabase) => {
+    const cutoff = new Date(Date.now() - RETENTION_MS).toISOString();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const range = IDBKeyRange.upperBound(cutoff, true);
+    const cursorRequest = tx.objectStore(STORE_NAME).index('at').openCursor(range);
+    cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+            cursor.delete();
+            cursor.continue();
+        }
+    };
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error("IndexedDB is not available."));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore(STORE_NAME, { autoIncrement: true });
+            store.createIndex('flightId', 'flightId');
+            store.createIndex('at', 'at');
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            try {
+                pruneExpired(db);
+            } catch (error) {
+                console.warn("Error pruning flight history:", error);
+            }
+            resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(error => console.warn("Flight history will not survive reloads:", error));
+    return dbPromise;
+};
+
+/** Subscribe to new entries; the listener receives the flight id that changed. */
+export const subscribeHistory = (listener: (flightId: string) => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
+
+export const appendHistoryEntry = async (entry: IFlightHistoryEntry): Promise<void> => {
+    try {
+        const db = await openDatabase();
+        const tx = db.transaction(STORE_NAME, 'readwrite');
+        await requestToPromise(tx.objectStore(STORE_NAME).add(entry));
+    } catch {
+        memoryFallback.push(entry);
+    }
+    listeners.forEach(listener => listener(entry.flightId));
+};
+
+/** Locally recorded history for one flight, oldest first. */
+export const getLocalHistory = async (flightId: string): Promise<IFlightHistoryEntry[]> => {
+    let entries: IFlightHistoryEntry[];
+    try {
+        const db = await openDatabase();
+        const tx = db.transaction(STORE_NAME, 'readonly');
+        entries = await requestToPromise(tx.objectStore(STORE_NAME).index('flightId').getAll(flightId));
+    } catch {
+        entries = memoryFallback.filter(entry => entry.flightId === flightId);
+    }
+    return [...entries].sort((a, b) => a.at.localeCompare(b.at));
+};
@@ -0,0 +1,64 @@
+import { TimeDisplayMode } from '../utils/timeZone';
+import { ThemePreference } from '../utils/appTheme';
+import { BoardView } from '../utils/gateTimeline';
+import { Language, detectLanguage } from '../i18n';
+
+const STORAGE_KEY = 'flightDeck.preferences';
+
+/** Per-browser UI preferences. Add new settings here with a default. */
+export interface IPreferences {
+    confirmDeletes: boolean;
+    timeDisplay: TimeDisplayMode;
+    language: Language;
+    theme: ThemePreference;
+    boardView: BoardView;
+}
+
+const defaultPreferences: IPreferences = {
+    confirmDeletes: true,
+    timeDisplay: 'airport',
+    language: detectLanguage(),
+    theme: 'system',
+    boardView: 'table',
+};
+
+const loadPreferences = (): IPreferences => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return raw ? { ...defaultPreferences, ...JSON.parse(raw) } : defaultPreferences;
+    } catch (error) {
+        console.error("Error reading preferences from localStorage:", error);
+        return defaultPreferences;
+    }
+};
+
+let preferences: IPreferences = loadPreferences();
+const listeners = new Set<() => void>();
+
+export const getPreferences = (): IPreferences => preferences;
+
+/** Subscribe to preference changes; returns an unsubscribe function (useSyncExternalStore-compatible). */
+export const subscribePreferences = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
+
+export const updatePreferences = (changes: Partial<IPreferences>): void => {
+    preferences = { ...preferences, ...changes };
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+    } catch (error) {
+        console.error("Error saving preferences to localStorage:", error);
+    }
+    listeners.forEach(listener => listener());
+};
+
+// Keep other tabs in sync when a preference changes there.
+if (typeof window !== 'undefined') {
+    window.addEventListener('storage', (event) => {
+        if (event.key === STORAGE_KEY) {
+            preferences = loadPreferences();
+            listeners.forEach(listener => listener());
+        }
+    });
+}
@@ -0,0 +1,127 @@
+import * as z from 'zod';
+import dayjs from 'dayjs';
+import { IFlightFilters } from '../types/flight';
+import { validStatusOptions } from '../utils/constants';
+import { normalizeFlightFilters } from '../utils/flightFilters';
+import { IBoardViewState, parseSort, serializeSort } from '../utils/viewState';
+import { formatInTimeZone } from '../utils/timeZone';
+
+const STORAGE_KEY = 'flightDeck.filterPresets';
+const EXPORT_FORMAT_VERSION = 1;
+
+/**
+ * A named, saved view. The departure window is stored as times of day
+ * ("06:00"-"10:00") so a preset like "Morning bank" means the same thing
+ * every day instead of pointing at the day it was saved. The times are
+ * wall-clock times in the display time zone the board was using.
+ */
+export interface IFilterPreset {
+    name: string;
+    filters: Omit<IFlightFilters, 'departureFrom' | 'departureTo'>;
+    departureWindow?: { from?: string; to?: string };
+    sort: string;
+}
+
+const timeOfDay = z.string().regex(/^\d{2}:\d{2}$/, "Expected HH:mm");
+
+const presetSchema = z.object({
+    name: z.string().trim().min(1).max(60),
+    filters: z.object({
+        destination: z.string().optional(),
+        statuses: z.array(z.enum(validStatusOptions as [string, ...string[]])).optional(),
+        gate: z.string().optional(),
+        flightNumberPrefix: z.string().optional(),
+    }),
+    departureWindow: z.object({ from: timeOfDay.optional(), to: timeOfDay.optional() }).optional(),
+    sort: z.string().default(''),
+});
+
+const exportFileSchema = z.object({
+    version: z.literal(EXPORT_FORMAT_VERSION),
+    presets: z.array(presetSchema),
+});
+
+export const loadPresets = (): IFilterPreset[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return [];
+        const parsed = z.array(presetSchema).safeParse(JSON.parse(raw));
+        if (!parsed.success) {
+            console.warn("Ignoring invalid saved filter presets:", parsed.error.issues);
+            return [];
+        }
+        return parsed.data as IFilterPreset[];
+    } catch (error) {
+        console.error("Error reading filter presets from localStorage:", error);
+        return [];
+    }
+};
+
+export const savePresets = (presets: IFilterPreset[]): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+    } catch (error) {
+        console.error("Error saving filter presets to localStorage:", error);
+        throw error;
+    }
+};
+
+export const createPreset = (name: string, view: IBoardViewState, timeZone: string): IFilterPreset => {
+    const { departureFrom, departureTo, ...filters } = view.filters;
+    const preset: IFilterPreset = { name: name.trim(), filters, sort: serializeSort(view.sort) };
+    if (departureFrom || departureTo) {
+        preset.departureWindow = {
+            from: departureFrom ? formatInTimeZone(departureFrom, timeZone, 'HH:mm') : undefined,
+            to: departureTo ? formatInTimeZone(departureTo, timeZone, 'HH:mm') : undefined,
+        };
+    }
+    return preset;
+};
+
+/**
+ * Resolves a preset to a concrete view for today in `timeZone` (an end time
+ * before the start time rolls over to tomorrow).
+ */
+export const presetToViewState = (preset: IFilterPreset, timeZone: string, now: number = Date.now()): IBoardViewState => {
+    const today = dayjs(now).tz(timeZone);
+    const atTime = (hhmm: string, day: dayjs.Dayjs) => dayjs.tz(`${day.format('YYYY-MM-DD')} ${hhmm}`, timeZone);
+    const { from: fromTime, to: toTime } = preset.departureWindow ?? {};
+    const from = fromTime ? atTime(fromTime, today) : undefined;
+    let to = toTime ? atTime(toTime, today) : undefined;
+    if (from && to && toTime && to.isBefore(from)) {
+        to = atTime(toTime, today.add(1, 'day'));
+    }
+
+    return {
+        filters: normalizeFlightFilters({
+            ...preset.filters,
+            departureFrom: from?.toISOString(),
+            departureTo: to?.toISOString(),
+        }),
+        sort: parseSort(preset.sort),
+    };
+};
+
+export const exportPresetsToJson = (presets: IFilterPreset[]): string =>
+    JSON.stringify({ version: EXPORT_FORMAT_VERSION, presets }, null, 2);
+
+/** Parses an exported presets file. Throws with an i18n key as the message if the file is not a valid export. */
+export const parsePresetsJson = (json: string): IFilterPreset[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('common.invalidJson');
+    }
+    const parsed = exportFileSchema.safeParse(data);
+    if (!parsed.success) {
+        throw new Error('presets.invalidFile');
+    }
+    return parsed.data.presets as IFilterPreset[];
+};
+
+/** Imported presets replace existing ones with the same name (case-insensitive). */
+export const mergePresets = (existing: IFilterPreset[], incoming: IFilterPreset[]): IFilterPreset[] => {
+    const incomingNames = new Set(incoming.map(p => p.name.toLowerCase()));
+    return [...existing.filter(p => !incomingNames.has(p.name.toLowerCase())), ...incoming];
+};
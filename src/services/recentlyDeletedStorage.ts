@@ -0,0 +1,56 @@
+import { IFlight } from '../types/flight';
+
+const STORAGE_KEY = 'flightDeck.recentlyDeleted';
+const MAX_ENTRIES = 50;
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/** A deleted flight as it was on the board just before deletion, kept so it can be re-created. */
+export interface IDeletedFlight {
+    flight: IFlight;
+    deletedAt: string;
+    deletedBy?: string;
+}
+
+const isRecent = (entry: IDeletedFlight) => Date.now() - new Date(entry.deletedAt).getTime() < RETENTION_MS;
+
+const loadDeletedFlights = (): IDeletedFlight[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed.filter(entry => entry?.flight?.id && entry.deletedAt && isRecent(entry)) : [];
+    } catch (error) {
+        console.error("Error reading recently deleted flights from localStorage:", error);
+        return [];
+    }
+};
+
+let deletedFlights: IDeletedFlight[] = loadDeletedFlights();
+const listeners = new Set<() => void>();
+
+const setDeletedFlights = (next: IDeletedFlight[]) => {
+    deletedFlights = next;
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+        console.error("Error saving recently deleted flights to localStorage:", error);
+    }
+    listeners.forEach(listener => listener());
+};
+
+/** Newest first. */
+export const getDeletedFlights = (): IDeletedFlight[] => deletedFlights;
+
+export const subscribeDeletedFlights = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
+
+export const addDeletedFlight = (flight: IFlight, deletedBy?: string): void => {
+    const snapshot: IFlight = { ...flight, isAnimating: undefined, isLeaving: undefined };
+    const entry: IDeletedFlight = { flight: snapshot, deletedAt: new Date().toISOString(), deletedBy };
+    setDeletedFlights([entry, ...deletedFlights.filter(e => e.flight.id !== flight.id && isRecent(e))].slice(0, MAX_ENTRIES));
+};
+
+export const removeDeletedFlight = (flightId: string): void => {
+    setDeletedFlights(deletedFlights.filter(e => e.flight.id !== flightId));
+};
@@ -1,5 +1,6 @@
 import * as signalR from "@microsoft/signalr";
 import { IFlight, FlightStatus, IFlightStatusUpdatePayload } from "../types/flight";
+import { getAccessToken } from "./authService";
 
 const SIGNALR_HUB_URL = import.meta.env.VITE_SIGNALR_HUB_URL;
 
@@ -7,83 +8,209 @@ if (!SIGNALR_HUB_URL) {
     console.error("Error: VITE_SIGNALR_HUB_URL environment variable is not set.");
 }
 
+export type ConnectionStatus = "connecting" | "live" | "reconnecting" | "offline";
+
+// Delays between attempts to restart a connection that closed for good (automatic reconnect gave up).
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+
 let connection: signalR.HubConnection | null = null;
+let startPromise: Promise<signalR.HubConnection> | null = null;
+let stopPromise: Promise<void> | null = null;
+let shouldBeConnected = false;
+let needsResync = false;
+let retryAttempt = 0;
+let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+
+let connectionStatus: ConnectionStatus = "offline";
+const statusListeners = new Set<() => void>();
+const restoredListeners = new Set<() => void>();
+
+const setConnectionStatus = (status: ConnectionStatus) => {
+    if (connectionStatus === status) return;
+    connectionStatus = status;
+    statusListeners.forEach(listener => listener());
+};
 
-export const startSignalRConnection = async (): Promise<signalR.HubConnection> => {
-    if (connection && connection.state === signalR.HubConnectionState.Connected) {
-        return connection;
-    }
+export const getConnectionStatus = (): ConnectionStatus => connectionStatus;
 
-    if (!SIGNALR_HUB_URL) {
-        throw new Error("SignalR Hub URL is not configured in environment variables.");
+/** Subscribe to connection status changes; returns an unsubscribe function (useSyncExternalStore-compatible). */
+export const subscribeConnectionStatus = (listener: () => void): (() => void) => {
+    statusListeners.add(listener);
+    return () => statusListeners.delete(listener);
+};
+
+/**
+ * Called whenever the hub comes back after an outage (automatic reconnect or
+ * a backoff restart). Hub events sent while disconnected are lost, so
+ * listeners should resync their state from the API.
+ */
+export const onConnectionRestored = (callback: () => void) => {
+    restoredListeners.add(callback);
+};
+
+export const offConnectionRestored = (callback: () => void) => {
+    restoredListeners.delete(callback);
+};
+
+const markLive = () => {
+    retryAttempt = 0;
+    setConnectionStatus("live");
+    if (needsResync) {
+        needsResync = false;
+        restoredListeners.forEach(listener => listener());
     }
+};
+
+const scheduleRetry = () => {
+    if (!shouldBeConnected || retryTimeout !== null) return;
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** retryAttempt, RETRY_MAX_DELAY_MS);
+    retryAttempt++;
+    console.warn(`SignalR connection offline. Retrying in ${Math.round(delay / 1000)}s (attempt ${retryAttempt})...`);
+    retryTimeout = setTimeout(() => {
+        retryTimeout = null;
+        startSignalRConnection().catch(() => {
+            // Failure already logged and the next retry scheduled by startSignalRConnection.
+        });
+    }, delay);
+};
+
+const getOrCreateConnection = (): signalR.HubConnection | null => {
+    if (connection) return connection;
+    if (!SIGNALR_HUB_URL) return null;
 
     connection = new signalR.HubConnectionBuilder()
-        .withUrl(SIGNALR_HUB_URL)
+        // Called on every (re)connect, so a refreshed token is picked up automatically.
+        .withUrl(SIGNALR_HUB_URL, { accessTokenFactory: async () => (await getAccessToken()) ?? '' })
         .withAutomaticReconnect()
         .configureLogging(signalR.LogLevel.Information)
         .build();
 
     connection.onreconnecting((error) => {
         console.warn(`SignalR connection lost. Attempting to reconnect... Error: ${error?.message}`);
+        needsResync = true;
+        setConnectionStatus("reconnecting");
+    });
+
+    connection.onreconnected(() => {
+        markLive();
     });
 
     connection.onclose((error) => {
-        console.error(`SignalR connection closed. Error: ${error?.message}`);
-        connection = null;
+        setConnectionStatus("offline");
+        if (shouldBeConnected) {
+            console.error(`SignalR connection closed. Error: ${error?.message}`);
+            needsResync = true;
+            scheduleRetry();
+        }
     });
 
-    try {
-        await connection.start();
-        return connection;
-    } catch (err) {
-        console.error("Error starting SignalR connection:", err);
-        connection = null;
-        throw err;
-    }
+    return connection;
 };
 
-export const stopSignalRConnection = async (): Promise<void> => {
-    if (connection && connection.state === signalR.HubConnectionState.Connected) {
+export const startSignalRConnection = async (): Promise<signalR.HubConnection> => {
+    shouldBeConnected = true;
+    const hub = getOrCreateConnection();
+    if (!hub) {
+        throw new Error("SignalR Hub URL is not configured in environment variables.");
+    }
+
+    if (stopPromise) {
+        await stopPromise;
+    }
+    if (hub.state === signalR.HubConnectionState.Connected || hub.state === signalR.HubConnectionState.Reconnecting) {
+        return hub;
+    }
+    if (startPromise) {
+        return startPromise;
+    }
+
+    startPromise = (async () => {
+        setConnectionStatus(retryAttempt > 0 ? "reconnecting" : "connecting");
         try {
-            await connection.stop();
+            await hub.start();
+            markLive();
+            return hub;
         } catch (err) {
-            console.error("Error stopping SignalR connection:", err);
+            console.error("Error starting SignalR connection:", err);
+            setConnectionStatus("offline");
+            needsResync = true;
+            scheduleRetry();
+            throw err;
         } finally {
-            connection = null;
+            startPromise = null;
         }
+    })();
+    return startPromise;
+};
+
+export const stopSignalRConnection = async (): Promise<void> => {
+    shouldBeConnected = false;
+    if (retryTimeout !== null) {
+        clearTimeout(retryTimeout);
+        retryTimeout = null;
+    }
+    retryAttempt = 0;
+    needsResync = false;
+
+    if (connection && connection.state !== signalR.HubConnectionState.Disconnected) {
+        const hub = connection;
+        stopPromise = hub.stop()
+            .catch(err => console.error("Error stopping SignalR connection:", err))
+            .finally(() => { stopPromise = null; });
+        await stopPromise;
     }
+    setConnectionStatus("offline");
 };
 
 export const onFlightAdded = (callback: (flight: IFlight) => void) => {
-    if (!connection) {
-        console.error("SignalR connection not established. Cannot register 'FlightAdded' listener.");
+    const hub = getOrCreateConnection();
+    if (!hub) {
+        console.error("SignalR connection not configured. Cannot register 'FlightAdded' listener.");
         return;
     }
-    connection.on("FlightAdded", callback);
+    hub.on("FlightAdded", callback);
 };
 
 export const onFlightDeleted = (callback: (deletedFlight: IFlight) => void) => {
-    if (!connection) {
-        console.error("SignalR connection not established. Cannot register 'FlightDeleted' listener.");
+    const hub = getOrCreateConnection();
+    if (!hub) {
+        console.error("SignalR connection not configured. Cannot register 'FlightDeleted' listener.");
         return;
     }
-    connection.on("FlightDeleted", callback);
+    hub.on("FlightDeleted", callback);
 };
 
-export const onFlightStatusChanged = (callback: (flightId: string, newStatus: FlightStatus) => void) => {
-    if (!connection) {
-        console.error("SignalR not connected: onFlightStatusChanged");
+export type FlightStatusChangedCallback = (flightId: string, newStatus: FlightStatus | null, isManual: boolean, sequence?: number, actor?: string) => void;
+
+// Hub handlers wrap the callback for payload validation; keep the wrapper so `off` can remove it.
+const statusChangedHandlers = new Map<FlightStatusChangedCallback, (payload: IFlightStatusUpdatePayload) => void>();
+
+export const onFlightStatusChanged = (callback: FlightStatusChangedCallback) => {
+    const hub = getOrCreateConnection();
+    if (!hub) {
+        console.error("SignalR not configured: onFlightStatusChanged");
         return;
     }
 
-    connection.on("FlightStatusChanged", (payload: IFlightStatusUpdatePayload) => {
-        if (payload && typeof payload.flightId === 'string' && typeof payload.newStatus === 'string') {
-            callback(payload.flightId, payload.newStatus);
+    const handler = (payload: IFlightStatusUpdatePayload) => {
+        if (payload && typeof payload.flightId === 'string' && (typeof payload.newStatus === 'string' || payload.newStatus === null)) {
+            callback(payload.flightId, payload.newStatus, payload.isManual ?? false, payload.sequence, payload.actor);
         } else {
             console.warn("Invalid FlightStatusChanged payload received in service:", payload);
         }
-    });
+    };
+    statusChangedHandlers.set(callback, handler);
+    hub.on("FlightStatusChanged", handler);
+};
+
+export const onFlightUpdated = (callback: (flight: IFlight) => void) => {
+    const hub = getOrCreateConnection();
+    if (!hub) {
+        console.error("SignalR connection not configured. Cannot register 'FlightUpdated' listener.");
+        return;
+    }
+    hub.on("FlightUpdated", callback);
 };
 
 export const offFlightAdded = (callback: (flight: IFlight) => void) => {
@@ -96,7 +223,14 @@ export const offFlightDeleted = (callback: (deletedFlight: IFlight) => void) =>
     connection.off("FlightDeleted", callback);
 };
 
-export const offFlightStatusChanged = (callback: (flightId: string, newStatus: FlightStatus) => void) => {
-    if (!connection) return;
-    connection.off("FlightStatusChanged", callback);
+export const offFlightStatusChanged = (callback: FlightStatusChangedCallback) => {
+    const handler = statusChangedHandlers.get(callback);
+    if (!connection || !handler) return;
+    connection.off("FlightStatusChanged", handler);
+    statusChangedHandlers.delete(callback);
 };
+
+export const offFlightUpdated = (callback: (flight: IFlight) => void) => {
+    if (!connection) return;
+    connection.off("FlightUpdated", callback);
+};
\ No newline at end of file
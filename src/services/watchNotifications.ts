@@ -0,0 +1,79 @@
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+const isSupported = (): boolean => typeof window !== 'undefined' && 'Notification' in window;
+
+export const getNotificationPermission = (): NotificationPermissionState =>
+    isSupported() ? Notification.permission : 'unsupported';
+
+/** Asks once; browsers only allow this from a user gesture, such as starring a flight. */
+export const requestNotificationPermission = async (): Promise<NotificationPermissionState> => {
+    if (!isSupported()) return 'unsupported';
+    if (Notification.permission !== 'default') return Notification.permission;
+    try {
+        return await Notification.requestPermission();
+    } catch (error) {
+        console.error("Error requesting notification permission:", error);
+        return Notification.permission;
+    }
+};
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Creates the audio context during a user gesture, so later alerts may play
+ * sound while the tab is in the background.
+ */
+export const primeAlertSound = (): void => {
+    if (audioContext || typeof AudioContext === 'undefined') return;
+    try {
+        audioContext = new AudioContext();
+    } catch (error) {
+        console.error("Error creating audio context:", error);
+    }
+};
+
+// After a reload the context is gone; the first interaction with the page sets it up again.
+if (typeof window !== 'undefined') {
+    window.addEventListener('pointerdown', primeAlertSound, { once: true });
+    window.addEventListener('keydown', primeAlertSound, { once: true });
+}
+
+// Two short tones, generated so no audio file has to be shipped.
+const playAlertSound = (): void => {
+    const context = audioContext;
+    if (!context) return;
+    if (context.state === 'suspended') context.resume().catch(() => undefined);
+    const start = context.currentTime;
+    [0, 0.25].forEach(offset => {
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        oscillator.frequency.value = 880;
+        gain.gain.setValueAtTime(0.2, start + offset);
+        gain.gain.exponentialRampToValueAtTime(0.001, start + offset + 0.2);
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.start(start + offset);
+        oscillator.stop(start + offset + 0.2);
+    });
+};
+
+export interface IWatchNotification {
+    // Notifications with the same tag replace each other, so a flight shows only its latest alert.
+    tag: string;
+    title: string;
+    body: string;
+    sound: boolean;
+}
+
+export const notifyWatchedFlight = ({ tag, title, body, sound }: IWatchNotification): void => {
+    if (sound) playAlertSound();
+    if (getNotificationPermission() !== 'granted') return;
+    try {
+        const notification = new Notification(title, { tag, body });
+        notification.onclick = () => {
+            window.focus();
+            notification.close();
+        };
+    } catch (error) {
+        console.error("Error showing notification:", error);
+    }
+};
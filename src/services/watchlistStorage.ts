@@ -0,0 +1,108 @@
+import { IFlight, FlightStatus } from '../types/flight';
+
+const STORAGE_KEY = 'flightDeck.watchlist';
+
+/** Which changes to a watched flight raise a desktop notification. */
+export interface IWatchAlertSettings {
+    // Alert when the displayed status changes to one of these.
+    statuses: FlightStatus[];
+    deleted: boolean;
+    sound: boolean;
+}
+
+/** A starred flight, with its last known details so it can be shown even when it's filtered off the board. */
+export interface IWatchedFlight {
+    flight: IFlight;
+    alerts: IWatchAlertSettings;
+    watchedAt: string;
+}
+
+export const defaultWatchAlerts: IWatchAlertSettings = {
+    statuses: ['Boarding', 'Departed', 'Delayed'],
+    deleted: true,
+    sound: false,
+};
+
+const toSnapshot = (flight: IFlight): IFlight => ({ ...flight, isAnimating: undefined, isLeaving: undefined });
+
+const loadWatchlist = (): Record<string, IWatchedFlight> => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : {};
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+        return Object.fromEntries(
+            Object.entries(parsed as Record<string, IWatchedFlight>)
+                .filter(([id, entry]) => entry?.flight?.id === id)
+                .map(([id, entry]) => [id, { ...entry, alerts: { ...defaultWatchAlerts, ...entry.alerts } }])
+        );
+    } catch (error) {
+        console.error("Error reading watchlist from localStorage:", error);
+        return {};
+    }
+};
+
+let watchlist: Record<string, IWatchedFlight> = loadWatchlist();
+const listeners = new Set<() => void>();
+
+const setWatchlist = (next: Record<string, IWatchedFlight>) => {
+    watchlist = next;
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+        console.error("Error saving watchlist to localStorage:", error);
+    }
+    listeners.forEach(listener => listener());
+};
+
+/** Keyed by flight ID. */
+export const getWatchlist = (): Record<string, IWatchedFlight> => watchlist;
+
+export const subscribeWatchlist = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
+
+export const watchFlight = (flight: IFlight): void => {
+    if (watchlist[flight.id]) return;
+    setWatchlist({
+        ...watchlist,
+        [flight.id]: { flight: toSnapshot(flight), alerts: defaultWatchAlerts, watchedAt: new Date().toISOString() },
+    });
+};
+
+export const unwatchFlight = (flightId: string): void => {
+    if (!watchlist[flightId]) return;
+    const next = { ...watchlist };
+    delete next[flightId];
+    setWatchlist(next);
+};
+
+export const updateWatchAlerts = (flightId: string, changes: Partial<IWatchAlertSettings>): void => {
+    const entry = watchlist[flightId];
+    if (!entry) return;
+    setWatchlist({ ...watchlist, [flightId]: { ...entry, alerts: { ...entry.alerts, ...changes } } });
+};
+
+/** Refreshes the stored details of any watched flights among `flights`; unwatched ones are ignored. */
+export const refreshWatchedFlights = (flights: IFlight[]): void => {
+    const changed = flights.filter(flight => {
+        const entry = watchlist[flight.id];
+        return entry && JSON.stringify(entry.flight) !== JSON.stringify(toSnapshot(flight));
+    });
+    if (changed.length === 0) return;
+    const next = { ...watchlist };
+    changed.forEach(flight => {
+        next[flight.id] = { ...next[flight.id], flight: toSnapshot(flight) };
+    });
+    setWatchlist(next);
+};
+
+// Keep other tabs in sync when the watchlist changes there.
+if (typeof window !== 'undefined') {
+    window.addEventListener('storage', (event) => {
+        if (event.key === STORAGE_KEY) {
+            watchlist = loadWatchlist();
+            listeners.forEach(listener => listener());
+        }
+    });
+}
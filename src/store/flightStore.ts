@@ -0,0 +1,207 @@
+import { IFlight, FlightStatus } from '../types/flight';
+
+/**
+ * Normalized flight state. Every change to the board goes through
+ * `flightReducer`, so ordering, deduplication and the race between the
+ * initial fetch and live hub events are handled in one place.
+ */
+export interface FlightStoreState {
+    byId: Record<string, IFlight>;
+    // Highest server sequence applied per flight (including deleted ones), to drop duplicates and stale events.
+    sequences: Record<string, number>;
+    // Client receive time of the last event applied per flight, to reconcile snapshots that were in flight.
+    touchedAt: Record<string, number>;
+    // Flights deleted since the last snapshot, so late or replayed events can't resurrect them.
+    tombstones: Record<string, true>;
+}
+
+interface EventMeta {
+    receivedAt: number;
+    sequence?: number;
+}
+
+export type FlightStoreEvent =
+    | { type: 'snapshotLoaded'; flights: IFlight[]; requestedAt: number }
+    | ({ type: 'flightAdded'; flight: IFlight } & EventMeta)
+    | ({ type: 'flightDeleted'; flightId: string } & EventMeta)
+    | ({ type: 'flightStatusChanged'; flightId: string; newStatus: FlightStatus | undefined; isManual: boolean } & EventMeta)
+    | ({ type: 'flightUpdated'; flight: IFlight } & EventMeta)
+    | { type: 'highlightSet'; flightIds: string[]; isAnimating: boolean };
+
+export const initialFlightStoreState: FlightStoreState = {
+    byId: {},
+    sequences: {},
+    touchedAt: {},
+    tombstones: {},
+};
+
+const isStale = (state: FlightStoreState, flightId: string, sequence?: number) =>
+    sequence !== undefined && state.sequences[flightId] !== undefined && sequence <= state.sequences[flightId];
+
+const recordEvent = (state: FlightStoreState, flightId: string, meta: EventMeta): Pick<FlightStoreState, 'sequences' | 'touchedAt'> => ({
+    sequences: meta.sequence !== undefined ? { ...state.sequences, [flightId]: meta.sequence } : state.sequences,
+    touchedAt: { ...state.touchedAt, [flightId]: meta.receivedAt },
+});
+
+const reconcileSnapshot = (state: FlightStoreState, flights: IFlight[], requestedAt: number): FlightStoreState => {
+    // Anything an event touched after the request went out is newer than the snapshot: keep the store's view.
+    const touchedSinceRequest = (id: string) => (state.touchedAt[id] ?? -Infinity) > requestedAt;
+
+    const byId: Record<string, IFlight> = {};
+    const sequences: Record<string, number> = {};
+    const touchedAt: Record<string, number> = {};
+    const tombstones: Record<string, true> = {};
+
+    for (const flight of flights) {
+        const knownSequence = state.sequences[flight.id];
+        const snapshotIsOlder = flight.sequence !== undefined && knownSequence !== undefined && flight.sequence < knownSequence;
+        if (touchedSinceRequest(flight.id) || snapshotIsOlder) {
+            if (state.tombstones[flight.id]) continue;
+            const existing = state.byId[flight.id];
+            if (existing) byId[flight.id] = existing;
+        } else {
+            byId[flight.id] = { ...flight, isAnimating: state.byId[flight.id]?.isAnimating };
+        }
+        const sequence = Math.max(flight.sequence ?? -Infinity, knownSequence ?? -Infinity);
+        if (isFinite(sequence)) sequences[flight.id] = sequence;
+    }
+
+    for (const id of Object.keys(state.touchedAt)) {
+        if (!touchedSinceRequest(id)) continue;
+        touchedAt[id] = state.touchedAt[id];
+        if (state.sequences[id] !== undefined) sequences[id] = Math.max(sequences[id] ?? -Infinity, state.sequences[id]);
+        if (state.tombstones[id]) {
+            tombstones[id] = true;
+        } else if (state.byId[id] && !byId[id]) {
+            byId[id] = state.byId[id];
+        }
+    }
+
+    return { byId, sequences, touchedAt, tombstones };
+};
+
+export const flightReducer = (state: FlightStoreState, event: FlightStoreEvent): FlightStoreState => {
+    switch (event.type) {
+        case 'snapshotLoaded':
+            return reconcileSnapshot(state, event.flights, event.requestedAt);
+
+        case 'flightAdded': {
+            const { flight } = event;
+            const sequence = event.sequence ?? flight.sequence;
+            if (state.byId[flight.id] || state.tombstones[flight.id] || isStale(state, flight.id, sequence)) {
+                return state;
+            }
+            return {
+                ...state,
+                ...recordEvent(state, flight.id, { ...event, sequence }),
+                byId: { ...state.byId, [flight.id]: { ...flight, isAnimating: true } },
+            };
+        }
+
+        case 'flightDeleted': {
+            const { flightId } = event;
+            if (state.tombstones[flightId] || isStale(state, flightId, event.sequence)) {
+                return state;
+            }
+            const byId = { ...state.byId };
+            delete byId[flightId];
+            return {
+                ...state,
+                ...recordEvent(state, flightId, event),
+                byId,
+                tombstones: { ...state.tombstones, [flightId]: true },
+            };
+        }
+
+        case 'flightStatusChanged': {
+            const existing = state.byId[event.flightId];
+            if (!existing || isStale(state, event.flightId, event.sequence)) {
+                return state;
+            }
+            if (existing.currentStatus === event.newStatus && (existing.isStatusManual ?? false) === event.isManual) {
+                return state;
+            }
+            return {
+                ...state,
+                ...recordEvent(state, event.flightId, event),
+                byId: {
+                    ...state.byId,
+                    [event.flightId]: { ...existing, currentStatus: event.newStatus, isStatusManual: event.isManual, isAnimating: true },
+                },
+            };
+        }
+
+        case 'flightUpdated': {
+            const { flight } = event;
+            const sequence = event.sequence ?? flight.sequence;
+            const existing = state.byId[flight.id];
+            if (!existing || isStale(state, flight.id, sequence)) {
+                return state;
+            }
+            return {
+                ...state,
+                ...recordEvent(state, flight.id, { ...event, sequence }),
+                byId: { ...state.byId, [flight.id]: { ...existing, ...flight, isAnimating: true } },
+            };
+        }
+
+        case 'highlightSet': {
+            const targets = event.flightIds.filter(id => state.byId[id] && (state.byId[id].isAnimating ?? false) !== event.isAnimating);
+            if (targets.length === 0) {
+                return state;
+            }
+            const byId = { ...state.byId };
+            targets.forEach(id => { byId[id] = { ...byId[id], isAnimating: event.isAnimating }; });
+            return { ...state, byId };
+        }
+
+        default:
+            return state;
+    }
+};
+
+const compareByDeparture = (a: IFlight, b: IFlight) =>
+    new Date(a.departureTime).getTime() - new Date(b.departureTime).getTime()
+    || a.flightNumber.localeCompare(b.flightNumber);
+
+let sortedCache: { byId: Record<string, IFlight>; flights: IFlight[] } | null = null;
+
+/** All flights ordered by departure time. Memoized on `byId` so it's safe as a useSyncExternalStore selector. */
+export const selectFlights = (state: FlightStoreState): IFlight[] => {
+    if (sortedCache?.byId !== state.byId) {
+        sortedCache = { byId: state.byId, flights: Object.values(state.byId).sort(compareByDeparture) };
+    }
+    return sortedCache.flights;
+};
+
+export const selectFlightById = (state: FlightStoreState, id: string): IFlight | undefined => state.byId[id];
+
+export interface FlightStore {
+    getState: () => FlightStoreState;
+    /** Applies an event; returns true if it changed the state (i.e. was not a duplicate or stale). */
+    dispatch: (event: FlightStoreEvent) => boolean;
+    subscribe: (listener: () => void) => () => void;
+}
+
+export const createFlightStore = (initialState: FlightStoreState = initialFlightStoreState): FlightStore => {
+    let state = initialState;
+    const listeners = new Set<() => void>();
+
+    return {
+        getState: () => state,
+        dispatch: (event) => {
+            const next = flightReducer(state, event);
+            if (next === state) return false;
+            state = next;
+            listeners.forEach(listener => listener());
+            return true;
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+    };
+};
+
+/** App-wide store shared by every view of the board. */
+export const flightStore = createFlightStore();
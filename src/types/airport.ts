@@ -0,0 +1,9 @@
+/** An entry of the bundled airport reference data (src/config/airports.json). */
+export interface IAirport {
+    iata: string;
+    name: string;
+    city: string;
+    country: string; // ISO 3166-1 alpha-2, e.g. "GB"
+    timeZone: string; // IANA zone, e.g. "Europe/London"
+    aliases?: string[]; // Metropolitan codes and alternative spellings, e.g. "NYC", "München"
+}
@@ -0,0 +1,31 @@
+export type UserRole = "viewer" | "operator";
+
+export interface IAuthUser {
+    username: string;
+    displayName?: string;
+    role: UserRole;
+}
+
+export interface IAuthSession {
+    user: IAuthUser;
+    accessToken: string;
+    refreshToken?: string;
+    expiresAt?: number; // Epoch ms when the access token expires, if known
+}
+
+export interface ILoginRequest {
+    username: string;
+    password: string;
+}
+
+// Shape returned by POST /auth/login and POST /auth/refresh.
+export interface ITokenResponse {
+    accessToken: string;
+    refreshToken?: string;
+    expiresIn?: number; // Seconds
+    user?: {
+        username: string;
+        displayName?: string;
+        role?: string;
+    };
+}
@@ -7,8 +7,16 @@ export interface IFlight {
     departureTime: string; // ISO format from backend
     gate: string;
     currentStatus?: FlightStatus;
+    isStatusManual?: boolean; // True when currentStatus is an operator override rather than computed
+    version?: string; // Concurrency token (row version / ETag) from backend
+    sequence?: number; // Server change counter, used to order and dedupe live events
+    actor?: string; // On hub events: who made the change, if the server reports it
     isAnimating?: boolean;
+    isLeaving?: boolean; // UI-only: fading out after it stopped matching the active filters
 }
+// UI-only: a request in flight for a row (single or bulk), which disables its actions meanwhile.
+export type PendingFlightAction = "deleting" | "updating" | "statusUpdating";
+
 export interface ICreateFlightRequest {
     flightNumber: string;
     destination: string;
@@ -16,7 +24,27 @@ export interface ICreateFlightRequest {
     gate: string;
 }
 
+export type IUpdateFlightRequest = ICreateFlightRequest;
+
 export interface IFlightStatusUpdatePayload {
     flightId: string;
-    newStatus: FlightStatus;
+    newStatus: FlightStatus | null; // null when an override is cleared and no server status applies
+    isManual?: boolean;
+    sequence?: number;
+    actor?: string;
+}
+
+export interface IFlightPageRequest {
+    page: number; // 1-based
+    pageSize: number;
+    sort?: { key: string; direction: 'asc' | 'desc' }[];
+}
+
+export interface IFlightFilters {
+    destination?: string;
+    statuses?: FlightStatus[];
+    gate?: string; // Exact gate ("B4"), terminal prefix ("B") or range ("B1-B20")
+    flightNumberPrefix?: string;
+    departureFrom?: string; // ISO, inclusive
+    departureTo?: string; // ISO, inclusive
 }
@@ -0,0 +1,17 @@
+import { FlightStatus } from './flight';
+
+export type FlightHistoryEventType = "added" | "statusChanged" | "updated" | "deleted";
+
+export type FlightHistoryField = "flightNumber" | "destination" | "departureTime" | "gate";
+
+export interface IFlightHistoryEntry {
+    flightId: string;
+    type: FlightHistoryEventType;
+    at: string; // ISO time the change was received (client log) or made (server history)
+    flightNumber?: string;
+    actor?: string; // Who made the change, when the server reports it
+    status?: FlightStatus | null; // New status for statusChanged; null when an override was cleared
+    isManual?: boolean;
+    previousStatus?: FlightStatus;
+    changes?: Partial<Record<FlightHistoryField, { from: string; to: string }>>;
+}
@@ -0,0 +1,24 @@
+import { FlightStatus } from './flight';
+
+/**
+ * A status that applies while the current time is inside [from, until),
+ * measured in minutes relative to departure (negative = before departure).
+ * An omitted bound is open-ended.
+ */
+export interface IStatusRule {
+    status: FlightStatus;
+    from?: number;
+    until?: number;
+}
+
+/** Replaces the default rules for flights matching every given field (case-insensitive). */
+export interface IStatusRuleOverride {
+    destination?: string;
+    gate?: string;
+    rules: IStatusRule[];
+}
+
+export interface IStatusRulesConfig {
+    rules: IStatusRule[];
+    overrides: IStatusRuleOverride[];
+}
@@ -0,0 +1,125 @@
+import { IAirport } from '../types/airport';
+import airportsJson from '../config/airports.json';
+
+/** Bundled reference data. Within a city, the main airport comes first and wins city-name matches. */
+export const airports: IAirport[] = airportsJson;
+
+// Lowercase, no accents, punctuation folded to spaces: "São Paulo" and "sao-paulo" compare equal.
+const toKey = (value: string) => value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const byCode = new Map<string, IAirport>(airports.map(airport => [airport.iata, airport]));
+
+// City names, airport names and aliases; first airport registered for a key wins.
+const byName = new Map<string, IAirport>();
+airports.forEach(airport => {
+    [airport.city, airport.name, `${airport.city} ${airport.name}`, ...(airport.aliases ?? [])].forEach(name => {
+        const key = toKey(name);
+        if (key && !byName.has(key)) byName.set(key, airport);
+    });
+});
+
+const levenshtein = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+// Typos allowed for a fuzzy match: none for short names (too many false hits), then 1, then 2.
+const maxTypos = (key: string) => (key.length < 4 ? 0 : key.length < 8 ? 1 : 2);
+
+const findClosestName = (key: string): IAirport | null => {
+    const allowed = maxTypos(key);
+    if (allowed === 0) return null;
+    let best: { airport: IAirport; distance: number } | null = null;
+    for (const [name, airport] of byName) {
+        if (Math.abs(name.length - key.length) > allowed) continue;
+        const distance = levenshtein(key, name);
+        if (distance <= allowed && (!best || distance < best.distance)) {
+            best = { airport, distance };
+        }
+    }
+    return best?.airport ?? null;
+};
+
+export const findAirportByCode = (code: string): IAirport | null => byCode.get(code.trim().toUpperCase()) ?? null;
+
+/** Canonical destination value stored for an airport, e.g. "New York (JFK)". */
+export const formatAirport = (airport: IAirport): string => `${airport.city} (${airport.iata})`;
+
+const resolveCache = new Map<string, IAirport | null>();
+
+/**
+ * Best-effort airport for a free-text destination: a canonical value
+ * ("London (LHR)"), an IATA or metro code ("nyc"), a city, airport name or
+ * alias in any case or accents, or one of those with a small typo
+ * ("Frankfrut"). Returns null when nothing matches closely enough.
+ */
+export const resolveAirport = (destination: string): IAirport | null => {
+    const cached = resolveCache.get(destination);
+    if (cached !== undefined) return cached;
+
+    const text = destination.trim();
+    const codeInParens = /\(([a-z]{3})\)\s*$/i.exec(text);
+    const key = toKey(text);
+    const airport = (codeInParens && findAirportByCode(codeInParens[1]))
+        || (/^[a-z]{3}$/i.test(text) && findAirportByCode(text))
+        || byName.get(key)
+        || findClosestName(key);
+
+    resolveCache.set(destination, airport || null);
+    return airport || null;
+};
+
+/** The canonical form of a destination when it can be resolved, otherwise the trimmed input. */
+export const normalizeDestination = (destination: string): string => {
+    const airport = resolveAirport(destination);
+    return airport ? formatAirport(airport) : destination.trim();
+};
+
+/**
+ * Destination filter match: same text, or both sides resolve to the same
+ * airport. A filter naming only a city ("London") matches all its airports.
+ */
+export const matchesDestination = (destination: string, filter: string): boolean => {
+    if (toKey(destination) === toKey(filter)) return true;
+    const target = resolveAirport(filter);
+    const actual = resolveAirport(destination);
+    if (!target || !actual) return false;
+    if (actual.iata === target.iata) return true;
+    return toKey(filter) === toKey(target.city) && actual.city === target.city && actual.country === target.country;
+};
+
+/** Autocomplete ranking: code match, then city/name prefix, then substring anywhere. */
+export const searchAirports = (query: string, limit = 10): IAirport[] => {
+    const key = toKey(query);
+    if (!key) return airports.slice(0, limit);
+    const code = key.toUpperCase();
+
+    const scored = airports.flatMap(airport => {
+        const names = [airport.city, airport.name, ...(airport.aliases ?? [])].map(toKey);
+        let score: number | null = null;
+        if (airport.iata === code) score = 0;
+        else if (names.some(name => name.startsWith(key))) score = 1;
+        else if (airport.iata.startsWith(code) || names.some(name => name.includes(key)) || toKey(airport.country) === key) score = 2;
+        return score === null ? [] : [{ airport, score }];
+    });
+    return scored
+        .sort((a, b) => a.score - b.score)
+        .slice(0, limit)
+        .map(({ airport }) => airport);
+};
@@ -0,0 +1,140 @@
+import { createTheme, Theme } from '@mui/material/styles';
+import { SvgIconComponent } from '@mui/icons-material';
+import AccessTimeIcon from '@mui/icons-material/AccessTime';
+import FlightTakeoffIcon from '@mui/icons-material/FlightTakeoff';
+import FlightLandIcon from '@mui/icons-material/FlightLand';
+import ConnectingAirportsIcon from '@mui/icons-material/ConnectingAirports';
+import WarningAmberIcon from '@mui/icons-material/WarningAmber';
+import { FlightStatus } from '../types/flight';
+
+export type ThemeName = 'light' | 'dark' | 'highContrast';
+// 'system' follows the OS light/dark setting.
+export type ThemePreference = ThemeName | 'system';
+
+export const themePreferences: ThemePreference[] = ['system', 'light', 'dark', 'highContrast'];
+
+export interface IStatusAppearance {
+    background: string;
+    text: string;
+}
+
+declare module '@mui/material/styles' {
+    interface Palette {
+        flightStatus: Record<FlightStatus, IStatusAppearance>;
+        rowHighlight: string;
+        tableHeader: string;
+    }
+    interface PaletteOptions {
+        flightStatus?: Record<FlightStatus, IStatusAppearance>;
+        rowHighlight?: string;
+        tableHeader?: string;
+    }
+    interface Theme {
+        statusIcons: Record<FlightStatus, SvgIconComponent | null>;
+    }
+    interface ThemeOptions {
+        statusIcons?: Record<FlightStatus, SvgIconComponent | null>;
+    }
+}
+
+// styled-components receive the MUI theme too (see AppProviders).
+declare module 'styled-components' {
+    // eslint-disable-next-line @typescript-eslint/no-empty-object-type
+    interface DefaultTheme extends Theme {}
+}
+
+/**
+ * Chip colors per theme. Every pair has at least 4.5:1 contrast (WCAG AA for
+ * normal-size text), so dark text is used on the light fills.
+ */
+export const statusPalettes: Record<ThemeName, Record<FlightStatus, IStatusAppearance>> = {
+    light: {
+        Scheduled: { background: '#e0e0e0', text: '#424242' },
+        Boarding: { background: '#1565c0', text: '#ffffff' },
+        Departed: { background: '#2e7d32', text: '#ffffff' },
+        Landed: { background: '#7b1fa2', text: '#ffffff' },
+        Delayed: { background: '#ffb74d', text: '#212121' },
+        Unknown: { background: '#f5f5f5', text: '#616161' },
+    },
+    dark: {
+        Scheduled: { background: '#424242', text: '#e0e0e0' },
+        Boarding: { background: '#90caf9', text: '#0a1929' },
+        Departed: { background: '#a5d6a7', text: '#0b2e13' },
+        Landed: { background: '#ce93d8', text: '#2a0934' },
+        Delayed: { background: '#ffb74d', text: '#212121' },
+        Unknown: { background: '#303030', text: '#bdbdbd' },
+    },
+    highContrast: {
+        Scheduled: { background: '#ffffff', text: '#000000' },
+        Boarding: { background: '#00e5ff', text: '#000000' },
+        Departed: { background: '#00e676', text: '#000000' },
+        Landed: { background: '#ea80fc', text: '#000000' },
+        Delayed: { background: '#ffea00', text: '#000000' },
+        Unknown: { background: '#000000', text: '#ffffff' },
+    },
+};
+
+const statusIcons: Record<FlightStatus, SvgIconComponent | null> = {
+    Scheduled: AccessTimeIcon,
+    Boarding: ConnectingAirportsIcon,
+    Departed: FlightTakeoffIcon,
+    Landed: FlightLandIcon,
+    Delayed: WarningAmberIcon,
+    Unknown: null,
+};
+
+const themeOptions = {
+    light: {
+        palette: {
+            mode: 'light',
+            flightStatus: statusPalettes.light,
+            rowHighlight: '#fff9c4',
+            tableHeader: '#f5f5f5',
+        },
+    },
+    dark: {
+        palette: {
+            mode: 'dark',
+            flightStatus: statusPalettes.dark,
+            rowHighlight: '#4a4418',
+            tableHeader: '#1e1e1e',
+        },
+    },
+    highContrast: {
+        palette: {
+            mode: 'dark',
+            primary: { main: '#ffff00', contrastText: '#000000' },
+            secondary: { main: '#00e5ff', contrastText: '#000000' },
+            background: { default: '#000000', paper: '#000000' },
+            text: { primary: '#ffffff', secondary: '#ffffff', disabled: '#bdbdbd' },
+            divider: '#ffffff',
+            action: { hover: 'rgba(255, 255, 255, 0.2)', selected: 'rgba(255, 255, 0, 0.3)' },
+            flightStatus: statusPalettes.highContrast,
+            rowHighlight: '#3d3d00',
+            tableHeader: '#000000',
+        },
+        components: {
+            MuiCssBaseline: {
+                styleOverrides: {
+                    '*:focus-visible': { outline: '3px solid #ffff00', outlineOffset: '2px' },
+                },
+            },
+            MuiChip: {
+                styleOverrides: { root: { border: '1px solid #ffffff' } },
+            },
+        },
+    },
+} as const;
+
+/** Resolves the stored preference against the OS setting. */
+export const resolveThemeName = (preference: ThemePreference, prefersDark: boolean): ThemeName =>
+    preference === 'system' ? (prefersDark ? 'dark' : 'light') : preference;
+
+/** `reducedMotion` (from `prefers-reduced-motion`) turns off MUI's own transitions. */
+export const createAppTheme = (name: ThemeName, direction: 'ltr' | 'rtl', reducedMotion: boolean, ...locales: object[]): Theme =>
+    createTheme({
+        ...themeOptions[name],
+        direction,
+        statusIcons,
+        ...(reducedMotion && { transitions: { create: () => 'none' } }),
+    }, ...locales);
@@ -0,0 +1,31 @@
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight, reporting
+ * progress after each item settles. Results keep the input order; a rejected
+ * worker is captured as `{ ok: false }` so one failure doesn't stop the batch.
+ */
+export const runWithConcurrency = async <T, R>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<R>,
+    onProgress?: (completed: number, total: number) => void
+): Promise<Array<{ ok: true; value: R } | { ok: false; error: unknown }>> => {
+    const results: Array<{ ok: true; value: R } | { ok: false; error: unknown }> = new Array(items.length);
+    let nextIndex = 0;
+    let completed = 0;
+
+    const runNext = async (): Promise<void> => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            try {
+                results[index] = { ok: true, value: await worker(items[index], index) };
+            } catch (error) {
+                results[index] = { ok: false, error };
+            }
+            completed++;
+            onProgress?.(completed, items.length);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, runNext));
+    return results;
+};
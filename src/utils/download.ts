@@ -0,0 +1,15 @@
+const REVOKE_DELAY_MS = 10_000;
+
+/** Triggers a browser download of generated text content. */
+export const downloadTextFile = (fileName: string, content: string, mimeType: string): void => {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoking right after click() can cancel the download in some browsers; give it time to start.
+    setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
@@ -0,0 +1,8 @@
+import createCache from '@emotion/cache';
+import { prefixer } from 'stylis';
+import rtlPlugin from 'stylis-plugin-rtl';
+
+// Separate caches so switching direction doesn't reuse styles generated for the other one.
+export const ltrCache = createCache({ key: 'mui' });
+// Mirrors physical properties (left/right, margins, padding) for right-to-left layouts.
+export const rtlCache = createCache({ key: 'muirtl', stylisPlugins: [prefixer, rtlPlugin] });
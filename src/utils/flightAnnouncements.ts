@@ -0,0 +1,25 @@
+import { IFlight } from '../types/flight';
+import { Translate } from '../i18n';
+import { getDisplayStatus } from './statusCalculator';
+
+/**
+ * One sentence describing what a live update changed, for the screen-reader
+ * live region. Status and gate changes are named, other edits are reported
+ * generically; null when nothing visible changed.
+ */
+export const describeFlightChange = (previous: IFlight, next: IFlight, now: number, t: Translate): string | null => {
+    const flightNumber = next.flightNumber;
+    const status = getDisplayStatus(next, now);
+    if (getDisplayStatus(previous, now) !== status) {
+        return t('announce.status', { flightNumber, status: t(`status.${status}`), gate: next.gate });
+    }
+    if (previous.gate !== next.gate) {
+        return t('announce.gate', { flightNumber, gate: next.gate });
+    }
+    if (previous.departureTime !== next.departureTime
+        || previous.destination !== next.destination
+        || previous.flightNumber !== next.flightNumber) {
+        return t('announce.updated', { flightNumber });
+    }
+    return null;
+};
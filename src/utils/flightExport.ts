@@ -0,0 +1,129 @@
+import dayjs from 'dayjs';
+import { IFlight, IFlightFilters, FlightStatus } from '../types/flight';
+import { getDisplayStatus } from './statusCalculator';
+import { formatInTimeZone } from './timeZone';
+import { Translate } from '../i18n';
+
+/** One exported flight, with the status exactly as the board displays it. */
+export interface IExportedFlight {
+    flightNumber: string;
+    destination: string;
+    departureTime: string;
+    gate: string;
+    status: FlightStatus;
+    isStatusManual: boolean;
+}
+
+export const toExportedFlights = (flights: IFlight[], now: number): IExportedFlight[] =>
+    flights.map(flight => ({
+        flightNumber: flight.flightNumber,
+        destination: flight.destination,
+        departureTime: flight.departureTime,
+        gate: flight.gate,
+        status: getDisplayStatus(flight, now),
+        isStatusManual: flight.isStatusManual ?? false,
+    }));
+
+/** Human-readable summary of the applied filters, e.g. for export metadata and print headers. */
+export const describeFlightFilters = (filters: IFlightFilters, timeZone: string, t: Translate): string => {
+    const parts: string[] = [];
+    if (filters.flightNumberPrefix) parts.push(t('print.filter.flightNumber', { prefix: filters.flightNumberPrefix }));
+    if (filters.destination) parts.push(t('print.filter.destination', { destination: filters.destination }));
+    if (filters.gate) parts.push(t('print.filter.gate', { gate: filters.gate }));
+    if (filters.statuses && filters.statuses.length > 0) {
+        parts.push(t('print.filter.status', { statuses: filters.statuses.map(status => t(`status.${status}`)).join('/') }));
+    }
+    if (filters.departureFrom) parts.push(t('print.filter.from', { time: formatInTimeZone(filters.departureFrom, timeZone, 'YYYY-MM-DD HH:mm') }));
+    if (filters.departureTo) parts.push(t('print.filter.until', { time: formatInTimeZone(filters.departureTo, timeZone, 'YYYY-MM-DD HH:mm') }));
+    return parts.length > 0 ? parts.join(', ') : t('print.filter.all');
+};
+
+// The local time is in the board's display zone, so the file matches the screen wherever it is exported.
+const csvColumns = (timeZone: string): { header: string; value: (f: IExportedFlight) => string }[] => [
+    { header: 'Flight Number', value: f => f.flightNumber },
+    { header: 'Destination', value: f => f.destination },
+    { header: 'Departure Time (UTC)', value: f => f.departureTime },
+    { header: `Departure Time (${timeZone})`, value: f => formatInTimeZone(f.departureTime, timeZone, 'YYYY-MM-DD HH:mm') },
+    { header: 'Gate', value: f => f.gate },
+    { header: 'Status', value: f => f.status },
+    { header: 'Status Source', value: f => (f.isStatusManual ? 'Manual' : 'Computed') },
+];
+
+const escapeCsvValue = (value: string): string => {
+    // Spreadsheets execute cells starting with these characters as formulas.
+    const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const flightsToCsv = (flights: IExportedFlight[], timeZone: string): string => {
+    const columns = csvColumns(timeZone);
+    return [columns.map(c => c.header), ...flights.map(f => columns.map(c => c.value(f)))]
+        .map(row => row.map(escapeCsvValue).join(','))
+        .join('\r\n') + '\r\n';
+};
+
+export const flightsToJson = (flights: IExportedFlight[], filters: IFlightFilters, exportedAt: number): string =>
+    JSON.stringify({
+        exportedAt: new Date(exportedAt).toISOString(),
+        filters,
+        count: flights.length,
+        flights,
+    }, null, 2);
+
+const toIcsDate = (iso: string) => dayjs(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeIcsText = (value: string) =>
+    value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545: content lines longer than 75 octets are folded with CRLF + space.
+const foldIcsLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    if (encoder.encode(line).length <= 75) return line;
+    const chunks: string[] = [];
+    let current = '';
+    for (const char of line) {
+        const limit = chunks.length === 0 ? 75 : 74;
+        if (encoder.encode(current + char).length > limit) {
+            chunks.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    chunks.push(current);
+    return chunks.join('\r\n ');
+};
+
+/** iCalendar feed with one event per departure, identified by flight id so re-imports update instead of duplicating. */
+export const flightsToIcs = (flights: IFlight[], statusNow: number, exportedAt: number): string => {
+    const stamp = toIcsDate(new Date(exportedAt).toISOString());
+    const events = flights
+        .filter(flight => dayjs(flight.departureTime).isValid())
+        .flatMap(flight => {
+            const status = getDisplayStatus(flight, statusNow);
+            return [
+                'BEGIN:VEVENT',
+                `UID:${flight.id}@flight-deck`,
+                `DTSTAMP:${stamp}`,
+                `DTSTART:${toIcsDate(flight.departureTime)}`,
+                `DTEND:${toIcsDate(flight.departureTime)}`,
+                `SUMMARY:${escapeIcsText(`${flight.flightNumber} to ${flight.destination}`)}`,
+                `LOCATION:${escapeIcsText(`Gate ${flight.gate}`)}`,
+                `DESCRIPTION:${escapeIcsText(`Status: ${status}`)}`,
+                `STATUS:${status === 'Delayed' ? 'TENTATIVE' : 'CONFIRMED'}`,
+                'END:VEVENT',
+            ];
+        });
+
+    return [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Flight Deck//Flight Board Export//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        ...events,
+        'END:VCALENDAR',
+    ].map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+/** File name stem like `flights-2025-06-01-1430`. */
+export const exportFileStem = (now: number) => `flights-${dayjs(now).format('YYYY-MM-DD-HHmm')}`;
@@ -0,0 +1,82 @@
+import { IFlight, IFlightFilters } from '../types/flight';
+import { getDisplayStatus } from './statusCalculator';
+import { matchesDestination } from './airports';
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/** Splits a gate such as "B12" into its terminal prefix (lower-cased) and number. */
+export const parseGate = (gate: string): { prefix: string; number: number } | null => {
+    const match = /^([a-z]*)\s*(\d+)$/i.exec(gate.trim());
+    return match ? { prefix: match[1].toLowerCase(), number: Number(match[2]) } : null;
+};
+
+/**
+ * Gate filter syntax: "B1-B20" is an inclusive range within one terminal,
+ * a value ending in a digit ("C12") is an exact gate, anything else ("B",
+ * "T3 ") is a terminal/prefix match. All case-insensitive.
+ */
+export const matchesGateFilter = (gate: string, filter: string): boolean => {
+    const rangeParts = filter.split('-');
+    if (rangeParts.length === 2) {
+        const from = parseGate(rangeParts[0]);
+        const to = parseGate(rangeParts[1]);
+        const actual = parseGate(gate);
+        if (from && to && actual) {
+            const prefix = from.prefix || to.prefix;
+            return actual.prefix === prefix
+                && actual.number >= Math.min(from.number, to.number)
+                && actual.number <= Math.max(from.number, to.number);
+        }
+    }
+    if (/\d$/.test(filter.trim())) {
+        return normalize(gate) === normalize(filter);
+    }
+    return normalize(gate).startsWith(normalize(filter));
+};
+
+/**
+ * Client-side mirror of the server's `/flights` filtering. Used for live
+ * events that arrive after the filtered snapshot, and as a fallback when the
+ * backend ignores some query parameters: every criterion is re-checked here.
+ * Destinations are compared by airport, so older free-text values ("new york")
+ * still match a canonical filter ("New York (JFK)").
+ */
+export const matchesFlightFilters = (flight: IFlight, filters: IFlightFilters, now: number): boolean => {
+    if (filters.destination && !matchesDestination(flight.destination, filters.destination)) {
+        return false;
+    }
+    if (filters.statuses && filters.statuses.length > 0 && !filters.statuses.includes(getDisplayStatus(flight, now))) {
+        return false;
+    }
+    if (filters.gate && !matchesGateFilter(flight.gate, filters.gate)) {
+        return false;
+    }
+    if (filters.flightNumberPrefix
+        && !normalize(flight.flightNumber).startsWith(normalize(filters.flightNumberPrefix).replace(/^#/, ''))) {
+        return false;
+    }
+    if (filters.departureFrom || filters.departureTo) {
+        const departure = new Date(flight.departureTime).getTime();
+        if (filters.departureFrom && departure < new Date(filters.departureFrom).getTime()) return false;
+        if (filters.departureTo && departure > new Date(filters.departureTo).getTime()) return false;
+    }
+    return true;
+};
+
+/** Trims text, drops empty criteria; the result is what gets applied and sent to the API. */
+export const normalizeFlightFilters = (filters: IFlightFilters): IFlightFilters => {
+    const normalized: IFlightFilters = {};
+    if (filters.destination?.trim()) normalized.destination = filters.destination.trim();
+    if (filters.statuses && filters.statuses.length > 0) normalized.statuses = [...filters.statuses];
+    if (filters.gate?.trim()) normalized.gate = filters.gate.trim();
+    if (filters.flightNumberPrefix?.trim()) normalized.flightNumberPrefix = filters.flightNumberPrefix.trim();
+    if (filters.departureFrom) normalized.departureFrom = filters.departureFrom;
+    if (filters.departureTo) normalized.departureTo = filters.departureTo;
+    return normalized;
+};
+
+export const areFlightFiltersEqual = (a: IFlightFilters, b: IFlightFilters): boolean =>
+    JSON.stringify(normalizeFlightFilters(a)) === JSON.stringify(normalizeFlightFilters(b));
+
+export const isFlightFilterEmpty = (filters: IFlightFilters): boolean =>
+    Object.keys(normalizeFlightFilters(filters)).length === 0;
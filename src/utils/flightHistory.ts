@@ -0,0 +1,73 @@
+import { IFlight, FlightStatus } from '../types/flight';
+import { FlightHistoryField, IFlightHistoryEntry } from '../types/history';
+import { MessageKey } from '../i18n';
+
+const historyFields: FlightHistoryField[] = ['flightNumber', 'destination', 'departureTime', 'gate'];
+
+export const historyFieldLabels: Record<FlightHistoryField, MessageKey> = {
+    flightNumber: 'history.field.flightNumber',
+    destination: 'history.field.destination',
+    departureTime: 'history.field.departureTime',
+    gate: 'history.field.gate',
+};
+
+const sameValue = (field: FlightHistoryField, a: string, b: string) =>
+    field === 'departureTime' ? new Date(a).getTime() === new Date(b).getTime() : a === b;
+
+export const diffFlights = (previous: IFlight, next: IFlight): IFlightHistoryEntry['changes'] => {
+    const changes: IFlightHistoryEntry['changes'] = {};
+    historyFields.forEach(field => {
+        if (!sameValue(field, previous[field], next[field])) {
+            changes[field] = { from: previous[field], to: next[field] };
+        }
+    });
+    return changes;
+};
+
+export const createAddedEntry = (flight: IFlight, at: number, actor?: string): IFlightHistoryEntry => ({
+    flightId: flight.id,
+    type: 'added',
+    at: new Date(at).toISOString(),
+    flightNumber: flight.flightNumber,
+    actor,
+    changes: Object.fromEntries(historyFields.map(field => [field, { from: '', to: flight[field] }])),
+});
+
+export const createDeletedEntry = (flightId: string, flightNumber: string | undefined, at: number, actor?: string): IFlightHistoryEntry => ({
+    flightId,
+    type: 'deleted',
+    at: new Date(at).toISOString(),
+    flightNumber,
+    actor,
+});
+
+export const createStatusChangedEntry = (
+    previous: IFlight,
+    status: FlightStatus | null,
+    isManual: boolean,
+    at: number,
+    actor?: string
+): IFlightHistoryEntry => ({
+    flightId: previous.id,
+    type: 'statusChanged',
+    at: new Date(at).toISOString(),
+    flightNumber: previous.flightNumber,
+    actor,
+    status,
+    isManual,
+    previousStatus: previous.currentStatus,
+});
+
+/** Null when nothing the timeline shows actually changed. */
+export const createUpdatedEntry = (previous: IFlight, next: IFlight, at: number, actor?: string): IFlightHistoryEntry | null => {
+    const changes = diffFlights(previous, next);
+    if (!changes || Object.keys(changes).length === 0) return null;
+    return {
+        flightId: next.id,
+        type: 'updated',
+        at: new Date(at).toISOString(),
+        flightNumber: next.flightNumber,
+        actor,
+        changes,
+    };
+};
@@ -0,0 +1,194 @@
+import dayjs, { Dayjs } from 'dayjs';
+import { ICreateFlightRequest } from '../types/flight';
+import { addFlightSchema } from './flightValidation';
+import { normalizeDestination } from './airports';
+
+export type ImportField = keyof ICreateFlightRequest;
+
+export const importFields: ImportField[] = ['flightNumber', 'destination', 'departureTime', 'gate'];
+
+/** Source column chosen for each request field (null = not mapped). */
+export type ImportColumnMapping = Record<ImportField, string | null>;
+
+export interface IImportTable {
+    columns: string[];
+    rows: Record<string, string>[];
+}
+
+export interface IImportRow {
+    rowNumber: number;
+    values: Record<ImportField, string>;
+    request: ICreateFlightRequest | null;
+    // i18n keys (see `translateMessage`).
+    errors: Partial<Record<ImportField, string>>;
+}
+
+// Header spellings seen in airline/ops exports, compared after stripping case, spaces and punctuation.
+const columnAliases: Record<ImportField, string[]> = {
+    flightNumber: ['flightnumber', 'flightno', 'flight', 'flt', 'fltno', 'number'],
+    destination: ['destination', 'dest', 'to', 'arrivalcity', 'city', 'airport'],
+    departureTime: ['departuretime', 'departure', 'departs', 'std', 'etd', 'time', 'datetime'],
+    gate: ['gate', 'gateno', 'stand'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Minimal RFC 4180 parser: quoted fields, escaped quotes (""), CRLF/LF, and `,` or `;` delimiters. */
+export const parseCsv = (text: string): string[][] => {
+    const content = text.replace(/^\uFEFF/, '');
+    const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+    const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+    return records.filter(r => r.some(value => value.trim() !== ''));
+};
+
+const csvToTable = (text: string): IImportTable => {
+    const [header, ...body] = parseCsv(text);
+    if (!header) throw new Error('import.emptyFile');
+    const columns = header.map((name, i) => name.trim() || `Column ${i + 1}`);
+    const rows = body.map(values =>
+        Object.fromEntries(columns.map((column, i) => [column, (values[i] ?? '').trim()]))
+    );
+    return { columns, rows };
+};
+
+const jsonToTable = (text: string): IImportTable => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('common.invalidJson');
+    }
+    const items = Array.isArray(parsed)
+        ? parsed
+        : (parsed as { flights?: unknown })?.flights;
+    if (!Array.isArray(items) || items.some(item => typeof item !== 'object' || item === null || Array.isArray(item))) {
+        throw new Error('import.notFlightArray');
+    }
+
+    const columns: string[] = [];
+    const rows = (items as Record<string, unknown>[]).map(item => {
+        const row: Record<string, string> = {};
+        Object.entries(item).forEach(([key, value]) => {
+            if (!columns.includes(key)) columns.push(key);
+            row[key] = value === null || value === undefined ? '' : String(value).trim();
+        });
+        return row;
+    });
+    return { columns, rows };
+};
+
+/** Reads a CSV or JSON file into a column/row table. Throws an Error whose message is an i18n key for unusable files. */
+export const parseImportFile = (fileName: string, text: string): IImportTable => {
+    const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+    const table = isJson ? jsonToTable(text) : csvToTable(text);
+    if (table.rows.length === 0) throw new Error('import.noRows');
+    return table;
+};
+
+/** Guesses which column feeds each field from its header. */
+export const detectColumnMapping = (columns: string[]): ImportColumnMapping => {
+    const mapping = {} as ImportColumnMapping;
+    const used = new Set<string>();
+    importFields.forEach(field => {
+        const aliases = columnAliases[field];
+        const match = aliases
+            .map(alias => columns.find(column => !used.has(column) && normalizeHeader(column) === alias))
+            .find(Boolean) ?? null;
+        if (match) used.add(match);
+        mapping[field] = match;
+    });
+    return mapping;
+};
+
+/**
+ * Times with a `Z` or offset are exact instants; naive ones ("2025-06-01 14:30")
+ * are read in `timeZone`, the zone the add form's date picker uses. Unparseable
+ * text gives an invalid date rather than throwing.
+ */
+export const parseImportDepartureTime = (value: string, timeZone: string): Dayjs => {
+    const text = value.trim();
+    if (/(z|[+-]\d{2}:?\d{2})$/i.test(text)) return dayjs(text);
+    // `dayjs.tz` throws a RangeError on text it cannot parse instead of returning an invalid date.
+    return dayjs(text).isValid() ? dayjs.tz(text, timeZone) : dayjs(NaN);
+};
+
+/**
+ * Maps and validates every row with the same zod rules as the add form, so
+ * the preview shows exactly what the form would reject.
+ */
+export const validateImportRows = (table: IImportTable, mapping: ImportColumnMapping, timeZone: string): IImportRow[] =>
+    table.rows.map((row, index) => {
+        const values = {} as Record<ImportField, string>;
+        importFields.forEach(field => {
+            const column = mapping[field];
+            values[field] = column ? row[column] ?? '' : '';
+        });
+
+        const departure = values.departureTime ? parseImportDepartureTime(values.departureTime, timeZone) : null;
+        const result = addFlightSchema.safeParse({ ...values, departureTime: departure });
+
+        const errors: Partial<Record<ImportField, string>> = {};
+        importFields.forEach(field => {
+            if (!mapping[field]) errors[field] = 'import.columnNotMapped';
+        });
+        if (!result.success) {
+            result.error.issues.forEach(issue => {
+                const field = issue.path[0] as ImportField;
+                if (!errors[field]) errors[field] = issue.message;
+            });
+        }
+        if (departure && !departure.isValid()) {
+            errors.departureTime = 'import.unrecognizedDate';
+        }
+
+        const isValid = Object.keys(errors).length === 0 && result.success && departure !== null;
+        return {
+            rowNumber: index + 1,
+            values,
+            errors,
+            request: isValid
+                ? {
+                    flightNumber: values.flightNumber,
+                    destination: normalizeDestination(values.destination),
+                    departureTime: departure.toISOString(),
+                    gate: values.gate,
+                }
+                : null,
+        };
+    });
@@ -0,0 +1,63 @@
+import { IFlight, FlightStatus } from '../types/flight';
+import { getDisplayStatus } from './statusCalculator';
+
+export type FlightSortKey = 'flightNumber' | 'gate' | 'status' | 'destination' | 'departureTime';
+export type SortDirection = 'asc' | 'desc';
+
+export interface ISortCriterion {
+    key: FlightSortKey;
+    direction: SortDirection;
+}
+
+export const defaultFlightSort: ISortCriterion[] = [{ key: 'departureTime', direction: 'asc' }];
+
+// Status sorts by lifecycle, not alphabetically.
+const statusOrder: Record<FlightStatus, number> = {
+    Scheduled: 0, Boarding: 1, Delayed: 2, Departed: 3, Landed: 4, Unknown: 5,
+};
+
+const naturalCompare = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+const compareBy = (key: FlightSortKey, a: IFlight, b: IFlight, now: number): number => {
+    switch (key) {
+        case 'flightNumber': return naturalCompare(a.flightNumber, b.flightNumber);
+        case 'gate': return naturalCompare(a.gate, b.gate);
+        case 'destination': return naturalCompare(a.destination, b.destination);
+        case 'status': return statusOrder[getDisplayStatus(a, now)] - statusOrder[getDisplayStatus(b, now)];
+        case 'departureTime': return new Date(a.departureTime).getTime() - new Date(b.departureTime).getTime();
+        default: return 0;
+    }
+};
+
+/** Stable multi-column sort; criteria are applied in priority order. */
+export const sortFlights = (flights: IFlight[], criteria: ISortCriterion[], now: number): IFlight[] => {
+    if (criteria.length === 0) return flights;
+    return [...flights].sort((a, b) => {
+        for (const { key, direction } of criteria) {
+            const result = compareBy(key, a, b, now);
+            if (result !== 0) return direction === 'asc' ? result : -result;
+        }
+        return 0;
+    });
+};
+
+/**
+ * Header click behaviour: a plain click sorts by that column alone (toggling
+ * direction if it is already the primary key); with `additive` (shift-click)
+ * the column is appended as a secondary key, toggled, or removed on its third click.
+ */
+export const toggleSortCriterion = (criteria: ISortCriterion[], key: FlightSortKey, additive: boolean): ISortCriterion[] => {
+    const existing = criteria.find(c => c.key === key);
+    if (!additive) {
+        const direction: SortDirection = criteria[0]?.key === key && criteria[0].direction === 'asc' ? 'desc' : 'asc';
+        return [{ key, direction }];
+    }
+    if (!existing) {
+        return [...criteria, { key, direction: 'asc' }];
+    }
+    if (existing.direction === 'asc') {
+        return criteria.map(c => (c.key === key ? { ...c, direction: 'desc' } : c));
+    }
+    const remaining = criteria.filter(c => c.key !== key);
+    return remaining.length > 0 ? remaining : defaultFlightSort;
+};
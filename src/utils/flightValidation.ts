@@ -0,0 +1,56 @@
+import * as z from 'zod';
+import dayjs, { Dayjs } from 'dayjs';
+import { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { Translate, translateMessage } from '../i18n';
+
+// Messages are i18n keys; forms and the import preview translate them with `translateMessage`.
+const departureTimeField = z.custom<Dayjs | null>(
+    (val) => val instanceof dayjs && (val as Dayjs).isValid(),
+    'validation.departureRequired'
+);
+
+export const addFlightSchema = z.object({
+    flightNumber: z.string().min(1, 'validation.required').max(10, 'validation.max10Chars'),
+    destination: z.string().min(1, 'validation.required').max(100, 'validation.max100Chars'),
+    departureTime: departureTimeField
+        .refine(val => val !== null && val.isAfter(dayjs()), {
+            message: 'validation.departureInFuture'
+        }),
+    gate: z.string().min(1, 'validation.required').max(10, 'validation.max10Chars'),
+});
+
+// Flights past departure stay on the board (delayed, boarding) and must remain editable, e.g. to change the gate.
+export const editFlightSchema = addFlightSchema.extend({
+    departureTime: departureTimeField,
+});
+
+export type AddFlightFormData = z.infer<typeof addFlightSchema>;
+
+const flightFormFields = ['flightNumber', 'destination', 'departureTime', 'gate'];
+
+/**
+ * Maps ASP.NET validation problem details (`errors: { FlightNumber: [...] }`)
+ * onto react-hook-form fields. Returns the field errors that were set, plus
+ * a text summary of any keys that did not match a form field.
+ */
+export const applyServerFieldErrors = <T extends FieldValues>(
+    apiErrors: Record<string, string[] | undefined>,
+    setError: UseFormSetError<T>,
+    t: Translate
+): { fieldErrorsSet: boolean; unmatchedText: string } => {
+    let fieldErrorsSet = false;
+    let unmatchedText = '';
+
+    Object.keys(apiErrors).forEach((key) => {
+        const fieldName = key.charAt(0).toLowerCase() + key.slice(1);
+        const message = apiErrors[key]?.[0] ?? 'validation.invalidInput';
+        if (flightFormFields.includes(fieldName)) {
+            setError(fieldName as Path<T>, { type: "server", message: message });
+            fieldErrorsSet = true;
+        } else {
+            unmatchedText += `${key}: ${translateMessage(t, message)} `;
+        }
+    });
+
+    return { fieldErrorsSet, unmatchedText };
+};
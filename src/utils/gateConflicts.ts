@@ -0,0 +1,130 @@
+import { IFlight } from '../types/flight';
+import { Translate } from '../i18n';
+import { parseGate } from './flightFilters';
+import { formatInTimeZone } from './timeZone';
+
+const DEFAULT_TURNAROUND_MINUTES = 45;
+// How far either side of the requested gate number to look for free neighbours.
+const NEIGHBOUR_RANGE = 3;
+
+let turnaroundMinutes: number | null = null;
+
+/**
+ * Minimum time between two departures from the same gate, from
+ * `VITE_GATE_TURNAROUND_MINUTES`. Defaults to 45, and warns when invalid.
+ */
+export const getGateTurnaroundMinutes = (): number => {
+    if (turnaroundMinutes !== null) return turnaroundMinutes;
+    const configured: string | undefined = import.meta.env.VITE_GATE_TURNAROUND_MINUTES?.trim();
+    const parsed = configured ? Number(configured) : NaN;
+    const isValid = Number.isFinite(parsed) && parsed > 0;
+    if (configured && !isValid) {
+        console.warn(`Invalid VITE_GATE_TURNAROUND_MINUTES "${configured}"; using ${DEFAULT_TURNAROUND_MINUTES}.`);
+    }
+    turnaroundMinutes = isValid ? parsed : DEFAULT_TURNAROUND_MINUTES;
+    return turnaroundMinutes;
+};
+
+/** Case- and space-insensitive key, so "c12", "C12" and "C 12" are the same gate. */
+export const normalizeGate = (gate: string): string => gate.trim().toLowerCase().replace(/\s+/g, '');
+
+export interface IGateRequest {
+    gate: string;
+    departureTime: string;
+    // The flight being edited, which must not conflict with itself.
+    excludeId?: string;
+}
+
+// ISO strings with different offsets or precision don't sort as text in time order.
+const departureMillis = (flight: IFlight): number => new Date(flight.departureTime).getTime();
+
+const byDeparture = (a: IFlight, b: IFlight): number => departureMillis(a) - departureMillis(b);
+
+const isWithinTurnaround = (a: number, b: number): boolean =>
+    Math.abs(a - b) < getGateTurnaroundMinutes() * 60_000;
+
+/** Flights using the same gate within the turnaround window of the requested departure, earliest first. */
+export const findGateConflicts = (flights: IFlight[], { gate, departureTime, excludeId }: IGateRequest): IFlight[] => {
+    const key = normalizeGate(gate);
+    const departure = new Date(departureTime).getTime();
+    if (!key || isNaN(departure)) return [];
+    return flights
+        .filter(flight => flight.id !== excludeId
+            && normalizeGate(flight.gate) === key
+            && isWithinTurnaround(departureMillis(flight), departure))
+        .sort(byDeparture);
+};
+
+/** Conflicts that already exist among `flights`: flight ID → the other flights it clashes with. */
+export const findAllGateConflicts = (flights: IFlight[]): Record<string, IFlight[]> => {
+    const byGate = new Map<string, IFlight[]>();
+    flights.forEach(flight => {
+        const key = normalizeGate(flight.gate);
+        if (!key || isNaN(departureMillis(flight))) return;
+        byGate.set(key, [...(byGate.get(key) ?? []), flight]);
+    });
+
+    const conflicts: Record<string, IFlight[]> = {};
+    byGate.forEach(gateFlights => {
+        if (gateFlights.length < 2) return;
+        const sorted = [...gateFlights].sort(byDeparture);
+        sorted.forEach((flight, index) => {
+            const departure = departureMillis(flight);
+            // Sorted by time, so only later flights can still be within the window.
+            for (let next = index + 1; next < sorted.length; next++) {
+                const other = sorted[next];
+                if (!isWithinTurnaround(departureMillis(other), departure)) break;
+                (conflicts[flight.id] ??= []).push(other);
+                (conflicts[other.id] ??= []).push(flight);
+            }
+        });
+    });
+    return conflicts;
+};
+
+/**
+ * Free alternatives to a conflicting gate: gates in the same terminal that are
+ * on the board or next to the requested number, nearest number first.
+ */
+export const suggestFreeGates = (flights: IFlight[], request: IGateRequest, limit = 3): string[] => {
+    const requested = parseGate(request.gate);
+    const requestedKey = normalizeGate(request.gate);
+    const candidates = new Map<string, string>();
+    const addCandidate = (gate: string) => {
+        const key = normalizeGate(gate);
+        if (key && key !== requestedKey && !candidates.has(key)) candidates.set(key, gate.trim());
+    };
+
+    if (requested) {
+        flights.forEach(flight => {
+            if (parseGate(flight.gate)?.prefix === requested.prefix) addCandidate(flight.gate);
+        });
+        // Keep the operator's spelling of the terminal ("C12" → "C11", "C13").
+        const prefix = request.gate.trim().replace(/\s*\d+$/, '');
+        for (let offset = 1; offset <= NEIGHBOUR_RANGE; offset++) {
+            if (requested.number - offset >= 1) addCandidate(`${prefix}${requested.number - offset}`);
+            addCandidate(`${prefix}${requested.number + offset}`);
+        }
+    } else {
+        flights.forEach(flight => addCandidate(flight.gate));
+    }
+
+    const distance = (gate: string) => {
+        const parsed = parseGate(gate);
+        return requested && parsed ? Math.abs(parsed.number - requested.number) : Infinity;
+    };
+
+    return [...candidates.values()]
+        .filter(gate => findGateConflicts(flights, { ...request, gate }).length === 0)
+        .sort((a, b) => distance(a) - distance(b) || a.localeCompare(b, undefined, { numeric: true }))
+        .slice(0, limit);
+};
+
+/** "#LY001 at 09:30, #BA212 at 10:05", times in the board's zone. */
+export const formatConflictingFlights = (flights: IFlight[], timeZone: string, t: Translate): string =>
+    flights
+        .map(flight => t('gate.conflictFlight', {
+            flightNumber: flight.flightNumber,
+            time: formatInTimeZone(flight.departureTime, timeZone, 'HH:mm'),
+        }))
+        .join(', ');
@@ -0,0 +1,60 @@
+import dayjs from 'dayjs';
+import { IFlight } from '../types/flight';
+import { getGateTurnaroundMinutes, normalizeGate } from './gateConflicts';
+
+export type BoardView = 'table' | 'timeline';
+
+export const boardViews: BoardView[] = ['table', 'timeline'];
+
+// Horizontal scale of the timeline, in pixels per minute; the default is the second step.
+export const timelineZoomLevels = [0.5, 1, 2, 4, 8];
+export const DEFAULT_TIMELINE_ZOOM_INDEX = 2;
+// Drag and keyboard moves snap departure times to this many minutes.
+export const TIMELINE_SNAP_MINUTES = 5;
+
+export interface IGateTimelineRow {
+    // Normalized gate, see `normalizeGate`.
+    key: string;
+    gate: string;
+    flights: IFlight[];
+}
+
+export interface ITimelineDay {
+    start: number;
+    end: number;
+}
+
+/** Midnight to midnight in `timeZone`, `dayOffset` days from the day containing `now`; 23 or 25 hours on DST changes. */
+export const getTimelineDay = (now: number, timeZone: string, dayOffset: number): ITimelineDay => {
+    const start = dayjs(now).tz(timeZone).startOf('day').add(dayOffset, 'day');
+    return { start: start.valueOf(), end: start.add(1, 'day').valueOf() };
+};
+
+/**
+ * When a flight holds its gate: the turnaround window before departure. Two
+ * flights at one gate conflict exactly when their blocks overlap.
+ */
+export const getGateOccupancy = (flight: IFlight): { start: number; end: number } => {
+    const end = new Date(flight.departureTime).getTime();
+    return { start: end - getGateTurnaroundMinutes() * 60_000, end };
+};
+
+/** One row per gate used on `day`, in natural gate order ("B2" before "B10"), each with its flights by time. */
+export const buildGateRows = (flights: IFlight[], day: ITimelineDay): IGateTimelineRow[] => {
+    const rows = new Map<string, IGateTimelineRow>();
+    flights.forEach(flight => {
+        const { start, end } = getGateOccupancy(flight);
+        const key = normalizeGate(flight.gate);
+        if (!key || isNaN(end) || end <= day.start || start >= day.end) return;
+        const row = rows.get(key) ?? { key, gate: flight.gate.trim(), flights: [] };
+        row.flights.push(flight);
+        rows.set(key, row);
+    });
+    return [...rows.values()]
+        .map(row => ({ ...row, flights: row.flights.sort((a, b) => getGateOccupancy(a).end - getGateOccupancy(b).end) }))
+        .sort((a, b) => a.gate.localeCompare(b.gate, undefined, { numeric: true, sensitivity: 'base' }));
+};
+
+/** Rounds a time shift to the snap interval. */
+export const snapMinutes = (minutes: number): number =>
+    Math.round(minutes / TIMELINE_SNAP_MINUTES) * TIMELINE_SNAP_MINUTES;
@@ -0,0 +1,46 @@
+import { FlightStatus } from '../types/flight';
+import { validStatusOptions } from './constants';
+
+export type KioskTheme = 'dark' | 'light';
+
+/** Per-screen kiosk settings, read from the URL so displays need no login or local setup. */
+export interface IKioskConfig {
+    pageSize: number;
+    pageIntervalSeconds: number;
+    theme: KioskTheme;
+    statuses: FlightStatus[];
+    // Read-only API token, so the display needs no sign-in.
+    token?: string;
+}
+
+const DEFAULT_PAGE_SIZE = 12;
+const DEFAULT_PAGE_INTERVAL_SECONDS = 10;
+
+const clampInt = (value: string | null, fallback: number, min: number, max: number): number => {
+    const parsed = value === null ? NaN : parseInt(value, 10);
+    return isNaN(parsed) ? fallback : Math.min(Math.max(parsed, min), max);
+};
+
+/** `/kiosk` (optionally under a base path, with or without a trailing slash). */
+export const isKioskRoute = (pathname: string): boolean => /\/kiosk\/?$/.test(pathname);
+
+/**
+ * Supported params: `pageSize` (4-40), `interval` seconds per page (3-120),
+ * `theme` (`dark` | `light`), `status` (repeatable or comma-separated;
+ * empty shows every status) and `token`. Invalid values fall back to defaults.
+ */
+export const parseKioskConfig = (search: string): IKioskConfig => {
+    const params = new URLSearchParams(search);
+    const statuses = params.getAll('status')
+        .flatMap(value => value.split(','))
+        .map(value => value.trim())
+        .filter((status): status is FlightStatus => validStatusOptions.includes(status as FlightStatus));
+
+    return {
+        pageSize: clampInt(params.get('pageSize'), DEFAULT_PAGE_SIZE, 4, 40),
+        pageIntervalSeconds: clampInt(params.get('interval'), DEFAULT_PAGE_INTERVAL_SECONDS, 3, 120),
+        theme: params.get('theme') === 'light' ? 'light' : 'dark',
+        statuses: Array.from(new Set(statuses)),
+        token: params.get('token')?.trim() || undefined,
+    };
+};
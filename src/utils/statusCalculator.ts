@@ -1,44 +1,54 @@
-import { FlightStatus } from "../types/flight";
-import { validStatusOptions } from "./constants";
+import { IFlight, FlightStatus } from "../types/flight";
+import { IStatusRulesConfig } from "../types/statusRules";
+import { evaluateFlightStatus, getNextStatusChangeAt, parseStatusRulesConfig } from "./statusRules";
+import statusRulesJson from "../config/statusRules.json";
 
-export const calculateFlightStatus = (departureTimeString: string): FlightStatus => {
-    try {
-        const departureTime = new Date(departureTimeString);
-        if (isNaN(departureTime.getTime())) {
-            console.error("Invalid departure time string:", departureTimeString);
-            return "Unknown";
-        }
+let activeStatusRules: IStatusRulesConfig | null = null;
 
-        const nowUtcMillis = Date.now();
-        const departureUtcMillis = departureTime.getTime();
-        const diffMinutes = (departureUtcMillis - nowUtcMillis) / 60000;
+/**
+ * Validates and activates the status rules. Called once from main.tsx so a bad
+ * config throws before the board renders; defaults to src/config/statusRules.json.
+ */
+export const loadStatusRules = (raw: unknown = statusRulesJson): IStatusRulesConfig => {
+    activeStatusRules = parseStatusRulesConfig(raw);
+    return activeStatusRules;
+};
 
-        let status: FlightStatus = "Scheduled"; // Default
+export const getStatusRules = (): IStatusRulesConfig => activeStatusRules ?? loadStatusRules();
 
-        if (diffMinutes > 30) {
-            status = "Scheduled";
-        } else if (diffMinutes > 10) {
-            status = "Boarding";
-        } else if (diffMinutes >= -60) {
-            status = "Departed";
-        }
-        if (diffMinutes < -15) {
-            status = "Delayed";
-        }
-        if (diffMinutes < -60) {
-            status = "Landed";
+export const calculateFlightStatus = (
+    flight: Pick<IFlight, 'departureTime' | 'destination' | 'gate'>,
+    now: number = Date.now()
+): FlightStatus => {
+    try {
+        const status = evaluateFlightStatus(flight, getStatusRules(), now);
+        if (status === "Unknown") {
+            console.warn("No status rule matched flight:", flight.departureTime, flight.destination, flight.gate);
         }
+        return status;
+    } catch (e) {
+        console.error("Error calculating flight status:", flight.departureTime, e);
+        return "Unknown";
+    }
+};
 
-        const validStatuses: FlightStatus[] = validStatusOptions;
 
-        if (validStatuses.includes(status)) {
-            return status;
-        } else {
-            console.warn(`Calculated status "${status}" is not a recognized FlightStatus. Defaulting to Unknown.`);
-            return "Unknown";
+/** Earliest upcoming status-threshold crossing across all flights, using the active rules. */
+export const getNextStatusChangeForFlights = (
+    flights: Pick<IFlight, 'departureTime' | 'destination' | 'gate'>[],
+    now: number = Date.now()
+): number | null => {
+    const rules = getStatusRules();
+    let next: number | null = null;
+    for (const flight of flights) {
+        const crossingAt = getNextStatusChangeAt(flight, rules, now);
+        if (crossingAt !== null && (next === null || crossingAt < next)) {
+            next = crossingAt;
         }
-    } catch (e) {
-        console.error("Error calculating flight status:", departureTimeString, e);
-        return "Unknown";
     }
-};
\ No newline at end of file
+    return next;
+};
+
+/** The status the board shows: the server/manual status if present, otherwise the computed one. */
+export const getDisplayStatus = (flight: IFlight, now: number = Date.now()): FlightStatus =>
+    flight.currentStatus ?? calculateFlightStatus(flight, now);
@@ -0,0 +1,110 @@
+import * as z from 'zod';
+import { IFlight, FlightStatus } from '../types/flight';
+import { IStatusRule, IStatusRulesConfig } from '../types/statusRules';
+import { validStatusOptions } from './constants';
+
+type StatusRuleFlight = Pick<IFlight, 'departureTime' | 'destination' | 'gate'>;
+
+const statusRuleSchema = z.object({
+    status: z.enum(validStatusOptions as [string, ...string[]]),
+    from: z.number().finite().optional(),
+    until: z.number().finite().optional(),
+}).refine(rule => rule.from === undefined || rule.until === undefined || rule.from < rule.until, {
+    message: "'from' must be less than 'until'."
+});
+
+const statusRuleSetSchema = z.array(statusRuleSchema).min(1, "At least one rule is required.")
+    .superRefine((rules, ctx) => {
+        const sorted = [...rules].sort((a, b) => (a.from ?? -Infinity) - (b.from ?? -Infinity));
+        for (let i = 1; i < sorted.length; i++) {
+            const previousUntil = sorted[i - 1].until ?? Infinity;
+            const currentFrom = sorted[i].from ?? -Infinity;
+            if (currentFrom < previousUntil) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    message: `Rules for "${sorted[i - 1].status}" and "${sorted[i].status}" overlap.`,
+                });
+            }
+        }
+    });
+
+const statusRulesConfigSchema = z.object({
+    rules: statusRuleSetSchema,
+    overrides: z.array(z.object({
+        destination: z.string().min(1).optional(),
+        gate: z.string().min(1).optional(),
+        rules: statusRuleSetSchema,
+    }).refine(o => o.destination !== undefined || o.gate !== undefined, {
+        message: "An override must match on 'destination' and/or 'gate'."
+    })).default([]),
+});
+
+/**
+ * Validates raw (e.g. JSON) rule config. Throws an Error listing every
+ * problem so a misconfigured deployment fails at startup, not mid-shift.
+ */
+export const parseStatusRulesConfig = (raw: unknown): IStatusRulesConfig => {
+    const result = statusRulesConfigSchema.safeParse(raw);
+    if (!result.success) {
+        const details = result.error.issues
+            .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+            .join('; ');
+        throw new Error(`Invalid status rules config: ${details}`);
+    }
+    return result.data as IStatusRulesConfig;
+};
+
+const equalsIgnoreCase = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** Picks the most specific override matching the flight, falling back to the default rules. */
+export const selectRulesForFlight = (flight: StatusRuleFlight, config: IStatusRulesConfig): IStatusRule[] => {
+    let best: { rules: IStatusRule[]; specificity: number } | null = null;
+    for (const override of config.overrides) {
+        if (override.destination !== undefined && !equalsIgnoreCase(override.destination, flight.destination)) continue;
+        if (override.gate !== undefined && !equalsIgnoreCase(override.gate, flight.gate)) continue;
+        const specificity = (override.gate !== undefined ? 2 : 0) + (override.destination !== undefined ? 1 : 0);
+        if (!best || specificity > best.specificity) {
+            best = { rules: override.rules, specificity };
+        }
+    }
+    return best?.rules ?? config.rules;
+};
+
+/** Minutes elapsed since departure (negative before departure), or null for an unparseable time. */
+export const minutesSinceDeparture = (departureTimeString: string, now: number): number | null => {
+    const departureMillis = new Date(departureTimeString).getTime();
+    if (isNaN(departureMillis)) return null;
+    return (now - departureMillis) / 60000;
+};
+
+/** Pure status evaluation: same flight, config and `now` always give the same status. */
+export const evaluateFlightStatus = (flight: StatusRuleFlight, config: IStatusRulesConfig, now: number): FlightStatus => {
+    const offset = minutesSinceDeparture(flight.departureTime, now);
+    if (offset === null) return "Unknown";
+
+    const rule = selectRulesForFlight(flight, config).find(r =>
+        offset >= (r.from ?? -Infinity) && offset < (r.until ?? Infinity)
+    );
+    return rule?.status ?? "Unknown";
+};
+
+/**
+ * Earliest instant (epoch ms) after `now` at which the flight crosses a rule
+ * boundary and its computed status may change, or null if it never will.
+ */
+export const getNextStatusChangeAt = (flight: StatusRuleFlight, config: IStatusRulesConfig, now: number): number | null => {
+    const departureMillis = new Date(flight.departureTime).getTime();
+    if (isNaN(departureMillis)) return null;
+
+    let next: number | null = null;
+    for (const rule of selectRulesForFlight(flight, config)) {
+        for (const bound of [rule.from, rule.until]) {
+            if (bound === undefined) continue;
+            const crossingAt = departureMillis + bound * 60000;
+            if (crossingAt > now && (next === null || crossingAt < next)) {
+                next = crossingAt;
+            }
+        }
+    }
+    return next;
+};
@@ -0,0 +1,19 @@
+import { Translate } from '../i18n';
+
+const formatMinutes = (totalMinutes: number, t: Translate): string => {
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    if (hours === 0) return t('time.minutes', { minutes });
+    return minutes === 0 ? t('time.hours', { hours }) : t('time.hoursMinutes', { hours, minutes });
+};
+
+/** "departs in 12 min" / "departs now" / "left 5 min ago", relative to `now`. */
+export const formatRelativeDeparture = (departureTimeString: string, now: number, t: Translate): string => {
+    const departureMillis = new Date(departureTimeString).getTime();
+    if (isNaN(departureMillis)) return "";
+
+    const diffMinutes = Math.round((departureMillis - now) / 60000);
+    if (diffMinutes === 0) return t('time.departsNow');
+    if (diffMinutes > 0) return t('time.departsIn', { duration: formatMinutes(diffMinutes, t) });
+    return t('time.leftAgo', { duration: formatMinutes(-diffMinutes, t) });
+};
@@ -0,0 +1,60 @@
+import dayjs from 'dayjs';
+
+/** Which clock departure times are shown and entered in. */
+export type TimeDisplayMode = 'airport' | 'utc' | 'local';
+
+export const timeDisplayModes: TimeDisplayMode[] = ['airport', 'utc', 'local'];
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+export const getViewerTimeZone = (): string => dayjs.tz.guess();
+
+let airportTimeZone: string | null = null;
+
+/**
+ * IANA zone of the airport this board serves, from `VITE_AIRPORT_TIME_ZONE`.
+ * Falls back to the viewer's zone when unset, and warns when it is invalid.
+ */
+export const getAirportTimeZone = (): string => {
+    if (airportTimeZone !== null) return airportTimeZone;
+    const configured: string | undefined = import.meta.env.VITE_AIRPORT_TIME_ZONE?.trim();
+    if (configured && !isValidTimeZone(configured)) {
+        console.warn(`Invalid VITE_AIRPORT_TIME_ZONE "${configured}"; using the browser time zone.`);
+    }
+    const resolved = configured && isValidTimeZone(configured) ? configured : getViewerTimeZone();
+    airportTimeZone = resolved;
+    return resolved;
+};
+
+export const resolveDisplayTimeZone = (mode: TimeDisplayMode): string => {
+    switch (mode) {
+        case 'utc': return 'UTC';
+        case 'local': return getViewerTimeZone();
+        default: return getAirportTimeZone();
+    }
+};
+
+/** Formats an ISO instant in the given zone (and dayjs locale, default global); empty for an unparseable value. */
+export const formatInTimeZone = (isoString: string, timeZone: string, pattern: string, locale?: string): string => {
+    const value = dayjs(isoString);
+    if (!value.isValid()) return "";
+    const zoned = value.tz(timeZone);
+    return (locale ? zoned.locale(locale) : zoned).format(pattern);
+};
+
+/** Short zone name at a given instant, e.g. "BST", "GMT+3" or "UTC". */
+export const getTimeZoneAbbreviation = (timeZone: string, at: number = Date.now()): string => {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(new Date(at));
+    return parts.find(part => part.type === 'timeZoneName')?.value ?? timeZone;
+};
+
+/** True when both zones show the same wall-clock time at `at`. */
+export const haveSameOffset = (a: string, b: string, at: number = Date.now()): boolean =>
+    dayjs(at).tz(a).utcOffset() === dayjs(at).tz(b).utcOffset();
@@ -0,0 +1,70 @@
+import { FlightStatus, IFlightFilters } from '../types/flight';
+import { validStatusOptions } from './constants';
+import { defaultFlightSort, FlightSortKey, ISortCriterion } from './flightSort';
+import { normalizeFlightFilters } from './flightFilters';
+
+/** The part of the board a user can share: applied filters and sort order. */
+export interface IBoardViewState {
+    filters: IFlightFilters;
+    sort: ISortCriterion[];
+}
+
+const sortKeys: FlightSortKey[] = ['flightNumber', 'gate', 'status', 'destination', 'departureTime'];
+
+export const serializeSort = (sort: ISortCriterion[]): string =>
+    sort.map(c => `${c.key}:${c.direction}`).join(',');
+
+export const parseSort = (value: string | null): ISortCriterion[] => {
+    if (!value) return defaultFlightSort;
+    const criteria = value.split(',').flatMap(part => {
+        const [key, direction] = part.split(':');
+        if (!sortKeys.includes(key as FlightSortKey)) return [];
+        return [{ key: key as FlightSortKey, direction: direction === 'desc' ? 'desc' as const : 'asc' as const }];
+    });
+    return criteria.length > 0 ? criteria : defaultFlightSort;
+};
+
+const isValidDate = (value: string) => !isNaN(new Date(value).getTime());
+
+/** Query string -> view state. Unknown or malformed values are dropped rather than failing the page load. */
+export const parseViewState = (search: string): IBoardViewState => {
+    const params = new URLSearchParams(search);
+    const statuses = params.getAll('status')
+        .flatMap(value => value.split(','))
+        .filter((status): status is FlightStatus => validStatusOptions.includes(status as FlightStatus));
+    const departureFrom = params.get('from');
+    const departureTo = params.get('to');
+
+    return {
+        filters: normalizeFlightFilters({
+            destination: params.get('destination') ?? undefined,
+            statuses,
+            gate: params.get('gate') ?? undefined,
+            flightNumberPrefix: params.get('flight') ?? undefined,
+            departureFrom: departureFrom && isValidDate(departureFrom) ? departureFrom : undefined,
+            departureTo: departureTo && isValidDate(departureTo) ? departureTo : undefined,
+        }),
+        sort: parseSort(params.get('sort')),
+    };
+};
+
+/**
+ * View state -> query string, merged into `existingSearch` so unrelated params
+ * survive. Defaults are omitted to keep shared links short.
+ */
+export const serializeViewState = (state: IBoardViewState, existingSearch = ''): string => {
+    const params = new URLSearchParams(existingSearch);
+    ['destination', 'status', 'gate', 'flight', 'from', 'to', 'sort'].forEach(key => params.delete(key));
+
+    const { filters, sort } = state;
+    if (filters.destination) params.set('destination', filters.destination);
+    filters.statuses?.forEach(status => params.append('status', status));
+    if (filters.gate) params.set('gate', filters.gate);
+    if (filters.flightNumberPrefix) params.set('flight', filters.flightNumberPrefix);
+    if (filters.departureFrom) params.set('from', filters.departureFrom);
+    if (filters.departureTo) params.set('to', filters.departureTo);
+    if (serializeSort(sort) !== serializeSort(defaultFlightSort)) params.set('sort', serializeSort(sort));
+
+    const query = params.toString();
+    return query ? `?${query}` : '';
+};